@@ -1,18 +1,305 @@
 import { Request, Response } from 'express';
-import { AnalysisService } from '../../services/analysis.service';
+import { ABI_COMPATIBILITY_MODES, AbiCompatibilityMode } from '../../services/abi-compatibility.service';
+import { AcceptancePolicy, AcceptancePolicyService } from '../../services/acceptance-policy.service';
+import { OPTIMIZATION_STRATEGIES, OptimizationStrategy } from '../../services/ai-optimizer.service';
+import {
+  AnalysisOptions,
+  AnalysisService,
+  CandidateSearch,
+  MAX_REFINEMENT_ROUNDS,
+  MAX_SEARCH_CANDIDATES,
+  RefinementOptions,
+} from '../../services/analysis.service';
 import { AnalysisJobService } from '../../services/analysis-job.service';
+import { ContractSelectionError, GasProfilerService } from '../../services/gas-profiler.service';
+import {
+  CompilerSettings,
+  GasScenario,
+  MAX_SIGNER_COUNT,
+  MEASUREMENT_MODES,
+  MeasurementMode,
+  SourceBundle,
+} from '../../services/hardhat.service';
 import { ProofMintService } from '../../services/proof-mint.service';
+import { RULE_OPTIMIZER_MODES, RuleOptimizerMode } from '../../services/rule-optimizer.service';
+
+// Mirrors the worker's scenario validation, so bad scenarios are rejected before any worker job starts.
+const validateScenarioCall = (call: unknown, path: string): string | undefined => {
+  if (typeof call !== 'object' || call === null) {
+    return `${path} must be an object`;
+  }
+  const c = call as Record<string, unknown>;
+  if (typeof c.function !== 'string' || !c.function) {
+    return `${path}.function must be a non-empty string`;
+  }
+  if (c.args !== undefined && !Array.isArray(c.args)) {
+    return `${path}.args must be an array`;
+  }
+  if (c.from !== undefined && (!Number.isInteger(c.from) || (c.from as number) < 0)) {
+    return `${path}.from must be a non-negative signer index`;
+  }
+  if (c.value !== undefined && (typeof c.value !== 'string' || !/^\d+$/.test(c.value))) {
+    return `${path}.value must be a decimal wei string`;
+  }
+  if (c.label !== undefined && typeof c.label !== 'string') {
+    return `${path}.label must be a string`;
+  }
+  return undefined;
+};
+
+const validateScenarios = (scenarios: unknown): string | undefined => {
+  if (!Array.isArray(scenarios)) {
+    return 'scenarios must be an array';
+  }
+  for (const [index, scenario] of scenarios.entries()) {
+    const s = scenario as Record<string, unknown> | null;
+    if (typeof s !== 'object' || s === null || typeof s.name !== 'string' || !s.name) {
+      return `scenarios[${index}].name must be a non-empty string`;
+    }
+    if (s.setup !== undefined && !Array.isArray(s.setup)) {
+      return `scenarios[${index}].setup must be an array`;
+    }
+    if (!Array.isArray(s.steps) || s.steps.length === 0) {
+      return `scenarios[${index}].steps must be a non-empty array`;
+    }
+    const calls = [
+      ...((s.setup as unknown[] | undefined) || []).map((call, i) => ({ call, path: `scenarios[${index}].setup[${i}]` })),
+      ...(s.steps as unknown[]).map((call, i) => ({ call, path: `scenarios[${index}].steps[${i}]` })),
+    ];
+    for (const { call, path } of calls) {
+      const error = validateScenarioCall(call, path);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return undefined;
+};
+
+const validateSources = (sources: unknown, entry: unknown): string | undefined => {
+  if (typeof sources !== 'object' || sources === null || Array.isArray(sources)) {
+    return 'sources must be an object mapping file paths to Solidity source';
+  }
+  const files = Object.entries(sources as Record<string, unknown>);
+  if (files.length === 0) {
+    return 'sources must contain at least one file';
+  }
+  for (const [file, content] of files) {
+    if (typeof content !== 'string') {
+      return `sources["${file}"] must be a string`;
+    }
+    if (!file.endsWith('.sol') || file.startsWith('/') || file.split('/').some((part) => part === '..' || part === '.')) {
+      return `sources path "${file}" must be a relative .sol path inside the project`;
+    }
+  }
+  if (typeof entry !== 'string' || !Object.prototype.hasOwnProperty.call(sources, entry)) {
+    return 'entry must name one of the files in sources';
+  }
+  return undefined;
+};
+
+const validateSearch = (search: unknown): string | undefined => {
+  if (typeof search !== 'object' || search === null || Array.isArray(search)) {
+    return 'search must be an object ({ candidates?, strategies? })';
+  }
+  const { candidates, strategies } = search as Record<string, unknown>;
+  if (
+    candidates !== undefined &&
+    (!Number.isInteger(candidates) || (candidates as number) < 1 || (candidates as number) > MAX_SEARCH_CANDIDATES)
+  ) {
+    return `search.candidates must be an integer from 1 to ${MAX_SEARCH_CANDIDATES}`;
+  }
+  if (
+    strategies !== undefined &&
+    (!Array.isArray(strategies) ||
+      strategies.length === 0 ||
+      strategies.some((strategy) => !OPTIMIZATION_STRATEGIES.includes(strategy as OptimizationStrategy)))
+  ) {
+    return `search.strategies must be a non-empty array of: ${OPTIMIZATION_STRATEGIES.join(', ')}`;
+  }
+  return undefined;
+};
+
+const validateRefinement = (refinement: unknown): string | undefined => {
+  if (typeof refinement !== 'object' || refinement === null || Array.isArray(refinement)) {
+    return 'refinement must be an object ({ rounds?, minGainPct? })';
+  }
+  const { rounds, minGainPct } = refinement as Record<string, unknown>;
+  if (
+    rounds !== undefined &&
+    (!Number.isInteger(rounds) || (rounds as number) < 1 || (rounds as number) > MAX_REFINEMENT_ROUNDS)
+  ) {
+    return `refinement.rounds must be an integer from 1 to ${MAX_REFINEMENT_ROUNDS}`;
+  }
+  if (minGainPct !== undefined && (typeof minGainPct !== 'number' || !Number.isFinite(minGainPct) || minGainPct < 0)) {
+    return 'refinement.minGainPct must be a non-negative number';
+  }
+  return undefined;
+};
+
+/** Reads `code`, or `sources` + `entry` for a multi-file project. */
+const parseAnalysisInput = (body: Record<string, unknown>): { input?: string | SourceBundle; error?: string } => {
+  const { code, sources, entry } = body;
+  if (sources !== undefined) {
+    const sourcesError = validateSources(sources, entry);
+    if (sourcesError) {
+      return { error: sourcesError };
+    }
+    return { input: { entry: entry as string, sources: sources as Record<string, string> } };
+  }
+  if (!code || typeof code !== 'string') {
+    return { error: 'Contract code or sources is required' };
+  }
+  return { input: code };
+};
+
+const parseAnalysisOptions = (
+  body: Record<string, unknown>,
+  input: string | SourceBundle
+): { options?: AnalysisOptions; error?: string; candidates?: string[] } => {
+  const {
+    measurementMode,
+    scenarios,
+    signerCount,
+    contractName,
+    constructorArgs,
+    compiler,
+    abiCompatibility,
+    upgradeable,
+    acceptancePolicy,
+    search,
+    refinement,
+    ruleOptimizer,
+  } = body;
+
+  if (measurementMode !== undefined && !MEASUREMENT_MODES.includes(measurementMode as MeasurementMode)) {
+    return { error: `measurementMode must be one of: ${MEASUREMENT_MODES.join(', ')}` };
+  }
+  if (abiCompatibility !== undefined && !ABI_COMPATIBILITY_MODES.includes(abiCompatibility as AbiCompatibilityMode)) {
+    return { error: `abiCompatibility must be one of: ${ABI_COMPATIBILITY_MODES.join(', ')}` };
+  }
+  if (ruleOptimizer !== undefined && !RULE_OPTIMIZER_MODES.includes(ruleOptimizer as RuleOptimizerMode)) {
+    return { error: `ruleOptimizer must be one of: ${RULE_OPTIMIZER_MODES.join(', ')}` };
+  }
+  if (upgradeable !== undefined && typeof upgradeable !== 'boolean') {
+    return { error: 'upgradeable must be a boolean' };
+  }
+  // A bare string names a preset without overrides.
+  const policy = typeof acceptancePolicy === 'string' ? { preset: acceptancePolicy } : acceptancePolicy;
+  if (policy !== undefined) {
+    const policyError = AcceptancePolicyService.validate(policy);
+    if (policyError) {
+      return { error: policyError };
+    }
+  }
+  if (search !== undefined) {
+    const searchError = validateSearch(search);
+    if (searchError) {
+      return { error: searchError };
+    }
+  }
+  if (refinement !== undefined) {
+    const refinementError = validateRefinement(refinement);
+    if (refinementError) {
+      return { error: refinementError };
+    }
+  }
+  if (scenarios !== undefined) {
+    const scenarioError = validateScenarios(scenarios);
+    if (scenarioError) {
+      return { error: scenarioError };
+    }
+  }
+
+  if (
+    signerCount !== undefined &&
+    (!Number.isInteger(signerCount) || (signerCount as number) < 2 || (signerCount as number) > MAX_SIGNER_COUNT)
+  ) {
+    return { error: `signerCount must be an integer between 2 and ${MAX_SIGNER_COUNT}` };
+  }
+
+  if (contractName !== undefined && (typeof contractName !== 'string' || !contractName)) {
+    return { error: 'contractName must be a non-empty string' };
+  }
+  if (
+    constructorArgs !== undefined &&
+    !Array.isArray(constructorArgs) &&
+    (typeof constructorArgs !== 'string' || !/^(0x)?([0-9a-fA-F]{2})*$/.test(constructorArgs))
+  ) {
+    return { error: 'constructorArgs must be a JSON array or an ABI-encoded hex string' };
+  }
+  if (compiler !== undefined && (typeof compiler !== 'object' || compiler === null || Array.isArray(compiler))) {
+    return { error: 'compiler must be an object ({ version?, optimizer?, viaIR?, evmVersion? })' };
+  }
+  try {
+    const entrySource = typeof input === 'string' ? input : input.sources[input.entry];
+    GasProfilerService.selectContract(entrySource, contractName as string | undefined);
+  } catch (error: unknown) {
+    if (error instanceof ContractSelectionError) {
+      return { error: error.message, candidates: error.candidates };
+    }
+    return { error: 'Failed to parse Solidity code.' };
+  }
+
+  const options: AnalysisOptions = {};
+  if (measurementMode !== undefined) {
+    options.measurementMode = measurementMode as MeasurementMode;
+  }
+  if (scenarios !== undefined) {
+    options.scenarios = scenarios as GasScenario[];
+  }
+  if (signerCount !== undefined) {
+    options.signerCount = signerCount as number;
+  }
+  if (contractName !== undefined) {
+    options.contractName = contractName as string;
+  }
+  if (constructorArgs !== undefined) {
+    options.constructorArgs = constructorArgs as unknown[] | string;
+  }
+  if (compiler !== undefined) {
+    options.compiler = compiler as CompilerSettings;
+  }
+  if (abiCompatibility !== undefined) {
+    options.abiCompatibility = abiCompatibility as AbiCompatibilityMode;
+  }
+  if (upgradeable !== undefined) {
+    options.upgradeable = upgradeable as boolean;
+  }
+  if (policy !== undefined) {
+    options.acceptancePolicy = policy as AcceptancePolicy;
+  }
+  if (search !== undefined) {
+    options.search = search as CandidateSearch;
+  }
+  if (refinement !== undefined) {
+    options.refinement = refinement as RefinementOptions;
+  }
+  if (ruleOptimizer !== undefined) {
+    options.ruleOptimizer = ruleOptimizer as RuleOptimizerMode;
+  }
+  return { options };
+};
 
 export const analyzeContract = async (req: Request, res: Response) => {
-  const { code } = req.body;
+  const { input, error: inputError } = parseAnalysisInput(req.body);
+  if (!input) {
+    return res.status(400).json({ error: inputError });
+  }
+
+  const sizeError = AnalysisJobService.sourceSizeError(input);
+  if (sizeError) {
+    return res.status(413).json({ error: sizeError });
+  }
 
-  if (!code) {
-    return res.status(400).json({ error: 'Contract code is required' });
+  const { options, error, candidates } = parseAnalysisOptions(req.body, input);
+  if (error) {
+    return res.status(400).json({ error, ...(candidates ? { candidates } : {}) });
   }
 
   try {
     console.log('Received contract code, starting analysis...');
-    const report = await AnalysisService.processContract(code);
+    const report = await AnalysisService.processContract(input, undefined, undefined, options);
     res.json(report);
   } catch (error: any) {
     console.error('Analysis failed:', error.message);
@@ -20,13 +307,48 @@ export const analyzeContract = async (req: Request, res: Response) => {
   }
 };
 
+export const sweepCompilerSettings = async (req: Request, res: Response) => {
+  const { input, error: inputError } = parseAnalysisInput(req.body);
+  if (!input) {
+    return res.status(400).json({ error: inputError });
+  }
+
+  const sizeError = AnalysisJobService.sourceSizeError(input);
+  if (sizeError) {
+    return res.status(413).json({ error: sizeError });
+  }
+
+  const { options, error, candidates } = parseAnalysisOptions(req.body, input);
+  if (error) {
+    return res.status(400).json({ error, ...(candidates ? { candidates } : {}) });
+  }
+
+  try {
+    const report = await AnalysisService.sweepCompilerSettings(input, options);
+    res.json(report);
+  } catch (error: any) {
+    console.error('Compiler sweep failed:', error.message);
+    res.status(500).json({ error: 'Failed to sweep compiler settings.', details: error.message });
+  }
+};
+
 export const createAnalyzeJob = async (req: Request, res: Response) => {
-  const { code } = req.body as { code?: string };
-  if (!code) {
-    return res.status(400).json({ error: 'Contract code is required' });
+  const { input, error: inputError } = parseAnalysisInput(req.body);
+  if (!input) {
+    return res.status(400).json({ error: inputError });
   }
 
-  const { job, reused } = AnalysisJobService.createOrReuseJob(code);
+  const sizeError = AnalysisJobService.sourceSizeError(input);
+  if (sizeError) {
+    return res.status(413).json({ error: sizeError });
+  }
+
+  const { options, error, candidates } = parseAnalysisOptions(req.body, input);
+  if (error) {
+    return res.status(400).json({ error, ...(candidates ? { candidates } : {}) });
+  }
+
+  const { job, reused } = AnalysisJobService.createOrReuseJob(input, options);
   return res.status(202).json({
     jobId: job.id,
     status: job.status,
@@ -34,8 +356,13 @@ export const createAnalyzeJob = async (req: Request, res: Response) => {
   });
 };
 
+export const listAcceptancePolicies = (_req: Request, res: Response) => {
+  const { presets } = AcceptancePolicyService.loadConfig();
+  return res.json({ default: AcceptancePolicyService.defaultPreset(), presets });
+};
+
 export const getAnalyzeJob = async (req: Request, res: Response) => {
-  const job = AnalysisJobService.getJob(req.params.id);
+  const job = await AnalysisJobService.getJob(req.params.id);
   if (!job) {
     return res.status(404).json({ error: 'Job not found' });
   }
@@ -43,7 +370,7 @@ export const getAnalyzeJob = async (req: Request, res: Response) => {
 };
 
 export const cancelAnalyzeJob = async (req: Request, res: Response) => {
-  const job = AnalysisJobService.cancelJob(req.params.id);
+  const job = await AnalysisJobService.cancelJob(req.params.id);
   if (!job) {
     return res.status(404).json({ error: 'Job not found' });
   }
@@ -51,7 +378,7 @@ export const cancelAnalyzeJob = async (req: Request, res: Response) => {
 };
 
 export const streamAnalyzeJob = async (req: Request, res: Response) => {
-  const job = AnalysisJobService.getJob(req.params.id);
+  const job = await AnalysisJobService.getJob(req.params.id);
   if (!job) {
     return res.status(404).json({ error: 'Job not found' });
   }
@@ -73,12 +400,12 @@ export const streamAnalyzeJob = async (req: Request, res: Response) => {
     return;
   }
 
-  const unsubscribe = AnalysisJobService.subscribe(job.id, (event) => {
+  const unsubscribe = AnalysisJobService.subscribe(job.id, async (event) => {
     res.write(`event: progress\n`);
     res.write(`data: ${JSON.stringify(event)}\n\n`);
 
     if (event.phase === 'completed' || event.phase === 'failed' || event.phase === 'cancelled') {
-      const latest = AnalysisJobService.getJob(job.id);
+      const latest = await AnalysisJobService.getJob(job.id);
       res.write(`event: done\n`);
       res.write(`data: ${JSON.stringify({ status: latest?.status || event.phase })}\n\n`);
       unsubscribe();
@@ -92,7 +419,7 @@ export const streamAnalyzeJob = async (req: Request, res: Response) => {
 };
 
 export const getProofPayloadFromJob = async (req: Request, res: Response) => {
-  const job = AnalysisJobService.getInternalJob(req.params.id);
+  const job = await AnalysisJobService.getInternalJob(req.params.id);
   if (!job) {
     return res.status(404).json({ error: 'Job not found' });
   }
@@ -111,7 +438,7 @@ export const getProofPayloadFromJob = async (req: Request, res: Response) => {
 };
 
 export const mintProofFromJob = async (req: Request, res: Response) => {
-  const job = AnalysisJobService.getInternalJob(req.params.id);
+  const job = await AnalysisJobService.getInternalJob(req.params.id);
   if (!job) {
     return res.status(404).json({ error: 'Job not found' });
   }
@@ -5,13 +5,17 @@ import {
   createAnalyzeJob,
   getAnalyzeJob,
   getProofPayloadFromJob,
+  listAcceptancePolicies,
   mintProofFromJob,
   streamAnalyzeJob,
+  sweepCompilerSettings,
 } from '../controllers/analysis.controller';
 
 const router = Router();
 
 router.post('/analyze', analyzeContract);
+router.post('/analyze/compiler-sweep', sweepCompilerSettings);
+router.get('/analyze/policies', listAcceptancePolicies);
 router.post('/analyze/jobs', createAnalyzeJob);
 router.get('/analyze/jobs/:id', getAnalyzeJob);
 router.post('/analyze/jobs/:id/cancel', cancelAnalyzeJob);
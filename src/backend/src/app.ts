@@ -5,7 +5,7 @@ import analysisRoutes from './api/routes/analysis.routes';
 const app = express();
 
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ limit: '2mb' }));
 
 app.get('/', (req, res) =>
   res.send('GweiZero Backend Running!')
@@ -1,10 +1,23 @@
 import app from './app';
 import dotenv from 'dotenv';
+import { AcceptancePolicyService } from './services/acceptance-policy.service';
+import { AnalysisJobService } from './services/analysis-job.service';
 
 dotenv.config();
 
 const PORT = process.env.PORT || 3001;
 
-app.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`);
+const start = async () => {
+  // Fail at startup rather than on the first job when the policies file is broken.
+  AcceptancePolicyService.loadConfig();
+  await AnalysisJobService.initialize();
+  app.listen(PORT, () => {
+    console.log(`Server is running on port ${PORT}`);
+  });
+};
+
+start().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : 'Unknown startup error';
+  console.error(`Failed to start server: ${message}`);
+  process.exit(1);
 });
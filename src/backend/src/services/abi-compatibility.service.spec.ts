@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest';
+import { AbiCompatibilityService } from './abi-compatibility.service';
+
+const fn = (name: string, inputs: string[], stateMutability = 'nonpayable', outputs: string[] = []) => ({
+  type: 'function',
+  name,
+  stateMutability,
+  inputs: inputs.map((type) => ({ type, name: '' })),
+  outputs: outputs.map((type) => ({ type, name: '' })),
+});
+
+const BASELINE = [
+  fn('transfer', ['address', 'uint256'], 'nonpayable', ['bool']),
+  fn('balanceOf', ['address'], 'view', ['uint256']),
+  {
+    type: 'event',
+    name: 'Transfer',
+    anonymous: false,
+    inputs: [
+      { type: 'address', name: 'from', indexed: true },
+      { type: 'uint256', name: 'value', indexed: false },
+    ],
+  },
+  { type: 'constructor', stateMutability: 'nonpayable', inputs: [] },
+];
+
+describe('AbiCompatibilityService.compare', () => {
+  it('reports no changes for the same ABI', () => {
+    for (const mode of ['strict', 'lenient'] as const) {
+      expect(AbiCompatibilityService.compare(BASELINE, [...BASELINE].reverse(), mode)).toEqual({
+        mode,
+        compatible: true,
+        changes: [],
+      });
+    }
+  });
+
+  it('reports a changed parameter type as removed plus added, compatible only in lenient mode', () => {
+    const optimized = [fn('transfer', ['address', 'uint128'], 'nonpayable', ['bool']), ...BASELINE.slice(1)];
+
+    const strict = AbiCompatibilityService.compare(BASELINE, optimized, 'strict');
+    expect(strict.compatible).toBe(false);
+    expect(strict.changes).toEqual([
+      {
+        kind: 'function',
+        change: 'removed',
+        signature: 'transfer(address,uint256)',
+        selector: '0xa9059cbb',
+        baseline: 'function transfer(address,uint256) nonpayable returns (bool)',
+      },
+      {
+        kind: 'function',
+        change: 'added',
+        signature: 'transfer(address,uint128)',
+        selector: expect.stringMatching(/^0x[0-9a-f]{8}$/),
+        optimized: 'function transfer(address,uint128) nonpayable returns (bool)',
+      },
+    ]);
+    expect(AbiCompatibilityService.compare(BASELINE, optimized, 'lenient').compatible).toBe(true);
+  });
+
+  it('reports changed mutability, outputs and indexing as changed', () => {
+    const optimized = [
+      fn('transfer', ['address', 'uint256'], 'nonpayable', ['bool']),
+      fn('balanceOf', ['address'], 'pure', ['uint256']),
+      {
+        ...BASELINE[2],
+        inputs: [
+          { type: 'address', name: 'from', indexed: false },
+          { type: 'uint256', name: 'value', indexed: false },
+        ],
+      },
+      BASELINE[3],
+    ];
+
+    const diff = AbiCompatibilityService.compare(BASELINE, optimized, 'strict');
+    expect(diff.changes.map((change) => [change.kind, change.change, change.signature])).toEqual([
+      ['function', 'changed', 'balanceOf(address)'],
+      ['event', 'changed', 'Transfer(address,uint256)'],
+    ]);
+    // Lenient mode still requires the same mutability.
+    expect(AbiCompatibilityService.compare(BASELINE, optimized, 'lenient').compatible).toBe(false);
+  });
+
+  it('reports added custom errors, which only strict mode rejects', () => {
+    const optimized = [...BASELINE, { type: 'error', name: 'NotOwner', inputs: [] }];
+
+    const strict = AbiCompatibilityService.compare(BASELINE, optimized, 'strict');
+    expect(strict.compatible).toBe(false);
+    expect(strict.changes).toEqual([
+      { kind: 'error', change: 'added', signature: 'NotOwner()', selector: '0x30cd7471', optimized: 'error NotOwner()' },
+    ]);
+    expect(AbiCompatibilityService.compare(BASELINE, optimized, 'lenient').compatible).toBe(true);
+  });
+
+  it('spells out tuple parameters', () => {
+    const withTuple = (type: string) => [
+      {
+        type: 'function',
+        name: 'submit',
+        stateMutability: 'nonpayable',
+        inputs: [{ type: 'tuple[]', name: 'orders', components: [{ type: 'uint256' }, { type: type }] }],
+        outputs: [],
+      },
+    ];
+
+    const diff = AbiCompatibilityService.compare(withTuple('address'), withTuple('bytes32'), 'strict');
+    expect(diff.changes.map((change) => change.signature)).toEqual([
+      'submit((uint256,address)[])',
+      'submit((uint256,bytes32)[])',
+    ]);
+  });
+
+  it('rejects removed functions in lenient mode', () => {
+    expect(AbiCompatibilityService.compare(BASELINE, BASELINE.slice(1), 'lenient').compatible).toBe(false);
+  });
+});
+
+describe('AbiCompatibilityService.describeChanges', () => {
+  it('describes each change on one line', () => {
+    expect(
+      AbiCompatibilityService.describeChanges([
+        { kind: 'function', change: 'removed', signature: 'mint(uint256)', baseline: 'function mint(uint256) nonpayable' },
+        {
+          kind: 'function',
+          change: 'changed',
+          signature: 'f()',
+          baseline: 'function f() view',
+          optimized: 'function f() pure',
+        },
+      ])
+    ).toEqual(['removed function mint(uint256) nonpayable', 'changed function f() view to function f() pure']);
+  });
+});
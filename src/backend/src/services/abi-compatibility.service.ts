@@ -0,0 +1,181 @@
+import { ParamType, id } from 'ethers';
+
+export type AbiCompatibilityMode = 'strict' | 'lenient';
+
+export const ABI_COMPATIBILITY_MODES: AbiCompatibilityMode[] = ['strict', 'lenient'];
+
+export type AbiEntryKind = 'function' | 'event' | 'error' | 'constructor' | 'fallback' | 'receive';
+
+/**
+ * One difference between two ABIs. Entries are matched by canonical signature, so
+ * a changed parameter type shows up as a `removed` plus an `added` entry, while
+ * `changed` means the same signature with different outputs, mutability or
+ * indexed event parameters.
+ */
+export type AbiChange = {
+  kind: AbiEntryKind;
+  change: 'added' | 'removed' | 'changed';
+  /** e.g. `transfer(address,uint256)`; just the kind for constructor, fallback and receive. */
+  signature: string;
+  /** 4-byte selector of functions and errors, topic 0 of events. */
+  selector?: string;
+  /** Full canonical descriptions, e.g. `function balanceOf(address) view returns (uint256)`. */
+  baseline?: string;
+  optimized?: string;
+};
+
+export type AbiDiff = {
+  mode: AbiCompatibilityMode;
+  compatible: boolean;
+  changes: AbiChange[];
+};
+
+type AbiEntry = {
+  kind: AbiEntryKind;
+  signature: string;
+  selector?: string;
+  description: string;
+};
+
+type AbiItem = Record<string, unknown>;
+
+export class AbiCompatibilityService {
+  /**
+   * Diffs every function, event, custom error, constructor, fallback and receive
+   * by canonical types. In `strict` mode any change is incompatible. `lenient`
+   * mode only requires the same functions by name, input count and mutability,
+   * which tolerates changed types; the full diff is reported either way.
+   */
+  public static compare(baselineAbi: unknown[], optimizedAbi: unknown[], mode: AbiCompatibilityMode): AbiDiff {
+    const baseline = this.entries(baselineAbi);
+    const optimized = this.entries(optimizedAbi);
+    const changes: AbiChange[] = [];
+
+    for (const [key, entry] of baseline) {
+      const counterpart = optimized.get(key);
+      if (!counterpart) {
+        changes.push({ ...this.identify(entry), change: 'removed', baseline: entry.description });
+      } else if (counterpart.description !== entry.description) {
+        changes.push({
+          ...this.identify(entry),
+          change: 'changed',
+          baseline: entry.description,
+          optimized: counterpart.description,
+        });
+      }
+    }
+    for (const [key, entry] of optimized) {
+      if (!baseline.has(key)) {
+        changes.push({ ...this.identify(entry), change: 'added', optimized: entry.description });
+      }
+    }
+
+    const compatible =
+      mode === 'strict' ? changes.length === 0 : this.isLenientCompatible(baselineAbi, optimizedAbi);
+    return { mode, compatible, changes };
+  }
+
+  /** One line per change, e.g. `removed function mint(uint256)`, for reasons and AI feedback. */
+  public static describeChanges(changes: AbiChange[]): string[] {
+    return changes.map((change) =>
+      change.change === 'changed'
+        ? `changed ${change.baseline} to ${change.optimized}`
+        : `${change.change} ${change.baseline || change.optimized}`
+    );
+  }
+
+  private static identify(entry: AbiEntry): Pick<AbiChange, 'kind' | 'signature' | 'selector'> {
+    return {
+      kind: entry.kind,
+      signature: entry.signature,
+      ...(entry.selector ? { selector: entry.selector } : {}),
+    };
+  }
+
+  private static entries(abi: unknown[]): Map<string, AbiEntry> {
+    const entries = new Map<string, AbiEntry>();
+    for (const item of abi as AbiItem[]) {
+      const entry = this.toEntry(item);
+      if (entry) {
+        entries.set(`${entry.kind}:${entry.signature}`, entry);
+      }
+    }
+    return entries;
+  }
+
+  private static toEntry(item: AbiItem): AbiEntry | null {
+    const inputs = this.params(item.inputs);
+    const mutability = String(item.stateMutability || (item.payable ? 'payable' : 'nonpayable'));
+
+    switch (item.type) {
+      case 'function': {
+        const signature = `${item.name}(${inputs.join(',')})`;
+        const outputs = this.params(item.outputs);
+        return {
+          kind: 'function',
+          signature,
+          selector: id(signature).slice(0, 10),
+          description: `function ${signature} ${mutability}${outputs.length > 0 ? ` returns (${outputs.join(',')})` : ''}`,
+        };
+      }
+      case 'event': {
+        const signature = `${item.name}(${inputs.join(',')})`;
+        const indexed = (Array.isArray(item.inputs) ? item.inputs : []).map(
+          (input: AbiItem, index: number) => `${inputs[index]}${input.indexed ? ' indexed' : ''}`
+        );
+        return {
+          kind: 'event',
+          signature,
+          selector: id(signature),
+          description: `event ${item.name}(${indexed.join(',')})${item.anonymous ? ' anonymous' : ''}`,
+        };
+      }
+      case 'error': {
+        const signature = `${item.name}(${inputs.join(',')})`;
+        return { kind: 'error', signature, selector: id(signature).slice(0, 10), description: `error ${signature}` };
+      }
+      case 'constructor':
+        return { kind: 'constructor', signature: 'constructor', description: `constructor(${inputs.join(',')}) ${mutability}` };
+      case 'fallback':
+      case 'receive':
+        return { kind: item.type, signature: item.type, description: `${item.type}() ${mutability}` };
+      default:
+        return null;
+    }
+  }
+
+  /** Canonical parameter types, with tuples spelled out as `(uint256,address)[]`. */
+  private static params(params: unknown): string[] {
+    if (!Array.isArray(params)) {
+      return [];
+    }
+    return params.map((param) => ParamType.from(param, true).format('sighash'));
+  }
+
+  private static isLenientCompatible(baselineAbi: unknown[], optimizedAbi: unknown[]): boolean {
+    const baseline = this.lenientSignatures(baselineAbi);
+    const optimized = this.lenientSignatures(optimizedAbi);
+    if (baseline.size !== optimized.size) {
+      return false;
+    }
+    for (const signature of baseline) {
+      if (!optimized.has(signature)) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  // Name, input count and mutability only: tolerates changed parameter and return types.
+  private static lenientSignatures(abi: unknown[]): Set<string> {
+    const set = new Set<string>();
+    for (const item of abi as AbiItem[]) {
+      if (item.type !== 'function') {
+        continue;
+      }
+      const inputCount = Array.isArray(item.inputs) ? item.inputs.length : 0;
+      set.add(`${String(item.name || '')}(${inputCount}args)@${String(item.stateMutability || '')}`);
+    }
+    return set;
+  }
+}
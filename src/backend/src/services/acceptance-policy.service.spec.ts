@@ -0,0 +1,190 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AcceptancePolicyService, ResolvedAcceptancePolicy } from './acceptance-policy.service';
+
+const measured = (gasUsed: number, stateMutability = 'nonpayable') => ({
+  status: 'measured' as const,
+  gasUsed: String(gasUsed),
+  stateMutability,
+});
+
+const policy = (overrides: Partial<ResolvedAcceptancePolicy> = {}): ResolvedAcceptancePolicy => ({
+  preset: 'test',
+  customized: false,
+  weights: {},
+  defaultWeight: 1,
+  maxRegressionPct: {},
+  maxWeightedRegressionPct: 10,
+  includeViewFunctions: false,
+  includeDeployment: true,
+  maxDeploymentRegressionPct: 20,
+  ...overrides,
+});
+
+describe('AcceptancePolicyService', () => {
+  afterEach(() => {
+    delete process.env.AI_ACCEPTANCE_POLICY;
+  });
+
+  describe('validate', () => {
+    it('accepts known presets and well-formed overrides', () => {
+      expect(AcceptancePolicyService.validate({ preset: 'strict' })).toBeUndefined();
+      expect(AcceptancePolicyService.validate({ weights: { 'transfer(address,uint256)': 3 } })).toBeUndefined();
+    });
+
+    it('rejects unknown and inherited preset names', () => {
+      for (const preset of ['missing', 'constructor', 'toString', '__proto__']) {
+        expect(AcceptancePolicyService.validate({ preset })).toBe(
+          'acceptancePolicy.preset must be one of: strict, balanced, exploratory'
+        );
+      }
+    });
+
+    it('rejects unknown fields and wrongly typed values', () => {
+      expect(AcceptancePolicyService.validate({ maxRegression: 5 })).toMatch(/maxRegression is not a policy field/);
+      expect(AcceptancePolicyService.validate({ weights: { f: -1 } })).toBe(
+        'acceptancePolicy.weights["f"] must be a non-negative number'
+      );
+      expect(AcceptancePolicyService.validate({ includeDeployment: 'yes' })).toBe(
+        'acceptancePolicy.includeDeployment must be a boolean'
+      );
+      expect(AcceptancePolicyService.validate([])).toBe('acceptancePolicy must be an object');
+    });
+  });
+
+  describe('resolve', () => {
+    it('uses the default preset, or AI_ACCEPTANCE_POLICY when it names one', () => {
+      expect(AcceptancePolicyService.resolve().preset).toBe('balanced');
+
+      process.env.AI_ACCEPTANCE_POLICY = 'strict';
+      expect(AcceptancePolicyService.resolve().preset).toBe('strict');
+
+      process.env.AI_ACCEPTANCE_POLICY = 'constructor';
+      expect(AcceptancePolicyService.resolve().preset).toBe('balanced');
+    });
+
+    it('fills in defaults for limits a preset leaves out', () => {
+      const resolved = AcceptancePolicyService.resolve({ preset: 'exploratory' });
+
+      expect(resolved).toMatchObject({
+        preset: 'exploratory',
+        customized: false,
+        defaultWeight: 1,
+        maxWeightedRegressionPct: 10,
+        includeDeployment: false,
+        maxDeploymentRegressionPct: 20,
+      });
+      expect(resolved.defaultMaxRegressionPct).toBeUndefined();
+    });
+
+    it('merges overrides into the preset, per-function maps key by key', () => {
+      const resolved = AcceptancePolicyService.resolve({
+        preset: 'strict',
+        maxWeightedRegressionPct: 3,
+        maxRegressionPct: { mint: 50 },
+      });
+
+      expect(resolved).toMatchObject({
+        preset: 'strict',
+        customized: true,
+        defaultMaxRegressionPct: 0,
+        maxWeightedRegressionPct: 3,
+        maxRegressionPct: { mint: 50 },
+      });
+    });
+
+    it('throws for a preset that does not exist', () => {
+      expect(() => AcceptancePolicyService.resolve({ preset: 'constructor' })).toThrow(
+        'Unknown acceptance policy preset "constructor".'
+      );
+    });
+  });
+
+  describe('evaluate', () => {
+    it('weighs each counted function into the weighted total', () => {
+      const evaluation = AcceptancePolicyService.evaluate(
+        { a: measured(1000), b: measured(1000) },
+        { a: measured(900), b: measured(1050) },
+        policy({ weights: { a: 3 } })
+      );
+
+      // (3 * 900 + 1050 - 4000) / 4000
+      expect(evaluation.weightedRegressionPct).toBeCloseTo(-6.25);
+      expect(evaluation.improved).toBe(true);
+      expect(evaluation.functions.map((entry) => [entry.function, entry.status, entry.weight])).toEqual([
+        ['a', 'passed', 3],
+        ['b', 'passed', 1],
+      ]);
+    });
+
+    it('fails functions over their limit, signatures before bare names', () => {
+      const evaluation = AcceptancePolicyService.evaluate(
+        { 'f(uint256)': measured(1000), 'f(address)': measured(1000), g: measured(1000) },
+        { 'f(uint256)': measured(1100), 'f(address)': measured(1100), g: measured(1100) },
+        policy({ maxRegressionPct: { f: 5, 'f(address)': 20 }, defaultMaxRegressionPct: 0 })
+      );
+
+      expect(evaluation.functions.map((entry) => [entry.status, entry.maxRegressionPct])).toEqual([
+        ['failed', 5],
+        ['passed', 20],
+        ['failed', 0],
+      ]);
+      expect(evaluation.functions[0].reason).toBe('Regressed 10.0% (limit 5%).');
+    });
+
+    it('skips view functions, zero weights and functions the original did not measure', () => {
+      const evaluation = AcceptancePolicyService.evaluate(
+        {
+          view: measured(500, 'view'),
+          ignored: measured(1000),
+          before: { status: 'unmeasured', reason: 'reverted', stateMutability: 'nonpayable' },
+          counted: measured(1000),
+        },
+        {
+          view: measured(900, 'view'),
+          ignored: measured(5000),
+          before: measured(1000),
+          counted: measured(1000),
+        },
+        policy({ weights: { ignored: 0 } })
+      );
+
+      expect(evaluation.functions.map((entry) => [entry.status, entry.reason])).toEqual([
+        ['skipped', 'View functions are not counted.'],
+        ['skipped', 'Weight is 0.'],
+        ['skipped', 'Not measured in the original.'],
+        ['passed', 'Changed 0.0%; counted with weight 1.'],
+      ]);
+      expect(evaluation.weightedRegressionPct).toBe(0);
+      expect(evaluation.improved).toBe(false);
+    });
+
+    it('fails functions the candidate no longer measures', () => {
+      const evaluation = AcceptancePolicyService.evaluate(
+        { reverts: measured(1000), removed: measured(1000), counted: measured(1000) },
+        {
+          reverts: { status: 'unmeasured', reason: 'reverted', stateMutability: 'nonpayable' },
+          counted: measured(900),
+        },
+        policy()
+      );
+
+      expect(evaluation.functions.map((entry) => [entry.status, entry.reason])).toEqual([
+        ['failed', 'Not measured in the candidate: reverted.'],
+        ['failed', 'Missing from the candidate.'],
+        ['passed', 'Changed -10.0%; counted with weight 1.'],
+      ]);
+      expect(evaluation.functions[0].optimizedGas).toBeNull();
+    });
+
+    it('counts view functions when the policy includes them', () => {
+      const evaluation = AcceptancePolicyService.evaluate(
+        { view: measured(500, 'view') },
+        { view: measured(400, 'view') },
+        policy({ includeViewFunctions: true })
+      );
+
+      expect(evaluation.functions[0].status).toBe('passed');
+      expect(evaluation.improved).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,330 @@
+import fs from 'fs';
+import path from 'path';
+
+type FunctionGasEntry =
+  | {
+      status: 'measured';
+      gasUsed: string;
+      stateMutability: string;
+    }
+  | {
+      status: 'unmeasured';
+      reason: string;
+      stateMutability: string;
+    };
+
+/**
+ * How a candidate's gas is judged, submitted with the job: a named `preset`
+ * from the policies file plus any fields overriding it. Function keys are
+ * signatures (`transfer(address,uint256)`) or bare names covering every overload.
+ */
+export type AcceptancePolicy = {
+  /** Preset the other fields override (default: the file's `default`, or `AI_ACCEPTANCE_POLICY`). */
+  preset?: string;
+  /** Relative weight of each function, e.g. its expected call frequency; `0` ignores it. */
+  weights?: Record<string, number>;
+  /** Weight of functions not listed in `weights` (default `1`). */
+  defaultWeight?: number;
+  /** Largest regression each function may show on its own, in percent. */
+  maxRegressionPct?: Record<string, number>;
+  /** Limit for functions without their own `maxRegressionPct` (default: none). */
+  defaultMaxRegressionPct?: number;
+  /** Largest regression of the weighted total (default `10`). */
+  maxWeightedRegressionPct?: number;
+  /** Count view and pure functions too (default `false`). */
+  includeViewFunctions?: boolean;
+  /** Whether deployment gas is checked and counts as an improvement (default `true`). */
+  includeDeployment?: boolean;
+  /** Largest deployment regression (default `20`). */
+  maxDeploymentRegressionPct?: number;
+};
+
+/** A preset with the job's overrides applied; `customized` when there were any. */
+export type ResolvedAcceptancePolicy = Required<Omit<AcceptancePolicy, 'defaultMaxRegressionPct'>> &
+  Pick<AcceptancePolicy, 'defaultMaxRegressionPct'> & { customized: boolean };
+
+export type AcceptancePolicyPreset = {
+  description?: string;
+  policy: Omit<AcceptancePolicy, 'preset'>;
+};
+
+/** Contents of the policies file (`ACCEPTANCE_POLICIES_FILE`, `acceptance-policies.json` by default). */
+export type AcceptancePolicyConfig = {
+  default: string;
+  presets: Record<string, AcceptancePolicyPreset>;
+};
+
+/** Verdict on one function; `skipped` functions do not count towards the weighted total. */
+export type FunctionAcceptance = {
+  function: string;
+  stateMutability: string;
+  status: 'passed' | 'failed' | 'skipped';
+  reason: string;
+  weight: number;
+  baselineGas: string | null;
+  optimizedGas: string | null;
+  regressionPct: number | null;
+  maxRegressionPct: number | null;
+};
+
+export type AcceptanceEvaluation = {
+  functions: FunctionAcceptance[];
+  /** Change of the weighted gas total over the counted functions, in percent. */
+  weightedRegressionPct: number;
+  improved: boolean;
+};
+
+const POLICY_FIELDS = [
+  'preset',
+  'weights',
+  'defaultWeight',
+  'maxRegressionPct',
+  'defaultMaxRegressionPct',
+  'maxWeightedRegressionPct',
+  'includeViewFunctions',
+  'includeDeployment',
+  'maxDeploymentRegressionPct',
+];
+
+/** Environment limits replaced by the presets, warned about when still set. */
+const LEGACY_LIMIT_VARIABLES = ['AI_MAX_ALLOWED_REGRESSION_PCT', 'AI_MAX_DEPLOYMENT_REGRESSION_PCT'];
+
+/** Limits for presets that leave them out. */
+const DEFAULT_MAX_WEIGHTED_REGRESSION_PCT = 10;
+const DEFAULT_MAX_DEPLOYMENT_REGRESSION_PCT = 20;
+
+export class AcceptancePolicyService {
+  private static config: AcceptancePolicyConfig | undefined;
+
+  /** Checks a submitted policy's shape and that its preset exists; returns an error message or undefined. */
+  public static validate(policy: unknown): string | undefined {
+    const error = this.checkShape(policy, 'acceptancePolicy');
+    if (error) {
+      return error;
+    }
+    const preset = (policy as AcceptancePolicy).preset;
+    const presets = this.loadConfig().presets;
+    if (preset !== undefined && !this.hasPreset(presets, preset)) {
+      return `acceptancePolicy.preset must be one of: ${Object.keys(presets).join(', ')}`;
+    }
+    return undefined;
+  }
+
+  /** The presets file, read and checked on first use. */
+  public static loadConfig(): AcceptancePolicyConfig {
+    if (this.config) {
+      return this.config;
+    }
+    const file = path.resolve(
+      process.env.ACCEPTANCE_POLICIES_FILE || path.join(process.cwd(), 'acceptance-policies.json')
+    );
+    let config: AcceptancePolicyConfig;
+    try {
+      config = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read acceptance policies from ${file}: ${message}`);
+    }
+    if (typeof config?.presets !== 'object' || config.presets === null || Object.keys(config.presets).length === 0) {
+      throw new Error(`${file} must define at least one preset under "presets".`);
+    }
+    for (const [name, preset] of Object.entries(config.presets)) {
+      const error =
+        this.checkShape(preset?.policy, `presets.${name}.policy`) ||
+        ('preset' in preset.policy ? `presets.${name}.policy.preset is not allowed` : undefined);
+      if (error) {
+        throw new Error(`Invalid acceptance policy preset in ${file}: ${error}.`);
+      }
+    }
+    if (!this.hasPreset(config.presets, config.default)) {
+      throw new Error(`${file}: default preset "${config.default}" is not defined.`);
+    }
+    const legacy = LEGACY_LIMIT_VARIABLES.filter((name) => process.env[name] !== undefined);
+    if (legacy.length > 0) {
+      console.warn(
+        `${legacy.join(' and ')} ${legacy.length > 1 ? 'are' : 'is'} no longer read; gas limits come from the ` +
+          `"${this.defaultPresetOf(config)}" acceptance policy preset. Set AI_ACCEPTANCE_POLICY or edit ${file} instead.`
+      );
+    }
+    const fromEnv = process.env.AI_ACCEPTANCE_POLICY;
+    if (fromEnv && !this.hasPreset(config.presets, fromEnv)) {
+      console.warn(`AI_ACCEPTANCE_POLICY="${fromEnv}" names no preset in ${file}; using "${config.default}".`);
+    }
+    this.config = config;
+    return config;
+  }
+
+  /** `AI_ACCEPTANCE_POLICY` when it names a preset, else the file's default. */
+  public static defaultPreset(): string {
+    return this.defaultPresetOf(this.loadConfig());
+  }
+
+  /** Applies the job's overrides to its preset; per-function maps are merged key by key. */
+  public static resolve(policy: AcceptancePolicy = {}): ResolvedAcceptancePolicy {
+    const { preset: requested, ...overrides } = policy;
+    const preset = requested || this.defaultPreset();
+    const presets = this.loadConfig().presets;
+    const base = this.hasPreset(presets, preset) ? presets[preset].policy : undefined;
+    if (!base) {
+      throw new Error(`Unknown acceptance policy preset "${preset}".`);
+    }
+    const merged = { ...base, ...overrides };
+    return {
+      preset,
+      customized: Object.keys(overrides).length > 0,
+      weights: { ...base.weights, ...overrides.weights },
+      defaultWeight: merged.defaultWeight ?? 1,
+      maxRegressionPct: { ...base.maxRegressionPct, ...overrides.maxRegressionPct },
+      ...(merged.defaultMaxRegressionPct !== undefined ? { defaultMaxRegressionPct: merged.defaultMaxRegressionPct } : {}),
+      maxWeightedRegressionPct: merged.maxWeightedRegressionPct ?? DEFAULT_MAX_WEIGHTED_REGRESSION_PCT,
+      includeViewFunctions: merged.includeViewFunctions ?? false,
+      includeDeployment: merged.includeDeployment ?? true,
+      maxDeploymentRegressionPct: merged.maxDeploymentRegressionPct ?? DEFAULT_MAX_DEPLOYMENT_REGRESSION_PCT,
+    };
+  }
+
+  /** Judges every function of the baseline profile and the weighted total over those counted. */
+  public static evaluate(
+    baseline: Record<string, FunctionGasEntry>,
+    optimized: Record<string, FunctionGasEntry>,
+    policy: ResolvedAcceptancePolicy
+  ): AcceptanceEvaluation {
+    let weightedBefore = 0;
+    let weightedAfter = 0;
+
+    const functions = Object.entries(baseline).map(([name, before]): FunctionAcceptance => {
+      const after = optimized[name];
+      const weight = this.lookup(policy.weights, name) ?? policy.defaultWeight;
+      const maxRegressionPct = this.lookup(policy.maxRegressionPct, name) ?? policy.defaultMaxRegressionPct ?? null;
+      const baselineGas = this.measuredGas(before);
+      const optimizedGas = after ? this.measuredGas(after) : null;
+      const verdict = {
+        function: name,
+        stateMutability: before.stateMutability,
+        weight,
+        baselineGas: baselineGas === null ? null : String(baselineGas),
+        optimizedGas: optimizedGas === null ? null : String(optimizedGas),
+        regressionPct: null,
+        maxRegressionPct,
+      };
+
+      const mutable = before.stateMutability === 'nonpayable' || before.stateMutability === 'payable';
+      if (!mutable && !policy.includeViewFunctions) {
+        return { ...verdict, status: 'skipped', reason: 'View functions are not counted.' };
+      }
+      if (weight === 0) {
+        return { ...verdict, status: 'skipped', reason: 'Weight is 0.' };
+      }
+      if (baselineGas === null) {
+        return { ...verdict, status: 'skipped', reason: 'Not measured in the original.' };
+      }
+      // Measured before but not after: the candidate broke or dropped the function.
+      if (optimizedGas === null) {
+        const reason =
+          after?.status === 'unmeasured' ? `Not measured in the candidate: ${after.reason}.` : 'Missing from the candidate.';
+        return { ...verdict, status: 'failed', reason };
+      }
+
+      weightedBefore += weight * baselineGas;
+      weightedAfter += weight * optimizedGas;
+      const regressionPct = this.percentChange(baselineGas, optimizedGas);
+      if (maxRegressionPct !== null && regressionPct > maxRegressionPct) {
+        return {
+          ...verdict,
+          regressionPct,
+          status: 'failed',
+          reason: `Regressed ${regressionPct.toFixed(1)}% (limit ${maxRegressionPct}%).`,
+        };
+      }
+      return {
+        ...verdict,
+        regressionPct,
+        status: 'passed',
+        reason:
+          maxRegressionPct === null
+            ? `Changed ${regressionPct.toFixed(1)}%; counted with weight ${weight}.`
+            : `Changed ${regressionPct.toFixed(1)}% (limit ${maxRegressionPct}%).`,
+      };
+    });
+
+    return {
+      functions,
+      weightedRegressionPct: this.percentChange(weightedBefore, weightedAfter),
+      improved: weightedAfter < weightedBefore,
+    };
+  }
+
+  private static defaultPresetOf(config: AcceptancePolicyConfig): string {
+    const fromEnv = process.env.AI_ACCEPTANCE_POLICY;
+    return fromEnv && this.hasPreset(config.presets, fromEnv) ? fromEnv : config.default;
+  }
+
+  /** Own keys only, so names like `constructor` or `toString` are not mistaken for presets. */
+  private static hasPreset(presets: Record<string, AcceptancePolicyPreset>, name: string): boolean {
+    return Object.prototype.hasOwnProperty.call(presets, name);
+  }
+
+  /** Field types only; `label` prefixes field names in messages. */
+  private static checkShape(policy: unknown, label: string): string | undefined {
+    if (typeof policy !== 'object' || policy === null || Array.isArray(policy)) {
+      return `${label} must be an object`;
+    }
+    const p = policy as Record<string, unknown>;
+    const unknownField = Object.keys(p).find((field) => !POLICY_FIELDS.includes(field));
+    if (unknownField) {
+      return `${label}.${unknownField} is not a policy field (${POLICY_FIELDS.join(', ')})`;
+    }
+    if (p.preset !== undefined && typeof p.preset !== 'string') {
+      return `${label}.preset must be a string`;
+    }
+    for (const field of ['weights', 'maxRegressionPct']) {
+      const value = p[field];
+      if (value === undefined) {
+        continue;
+      }
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${label}.${field} must map function names or signatures to numbers`;
+      }
+      for (const [name, entry] of Object.entries(value as Record<string, unknown>)) {
+        if (typeof entry !== 'number' || !Number.isFinite(entry) || (field === 'weights' && entry < 0)) {
+          return `${label}.${field}["${name}"] must be a ${field === 'weights' ? 'non-negative ' : ''}number`;
+        }
+      }
+    }
+    for (const field of ['defaultWeight', 'defaultMaxRegressionPct', 'maxWeightedRegressionPct', 'maxDeploymentRegressionPct']) {
+      const value = p[field];
+      if (value !== undefined && (typeof value !== 'number' || !Number.isFinite(value))) {
+        return `${label}.${field} must be a number`;
+      }
+    }
+    if (p.defaultWeight !== undefined && (p.defaultWeight as number) < 0) {
+      return `${label}.defaultWeight must be non-negative`;
+    }
+    for (const field of ['includeViewFunctions', 'includeDeployment']) {
+      if (p[field] !== undefined && typeof p[field] !== 'boolean') {
+        return `${label}.${field} must be a boolean`;
+      }
+    }
+    return undefined;
+  }
+
+  /** Signature first, then the bare function name. */
+  private static lookup(values: Record<string, number>, signature: string): number | undefined {
+    return values[signature] ?? values[signature.split('(')[0]];
+  }
+
+  private static measuredGas(entry: FunctionGasEntry): number | null {
+    if (entry.status !== 'measured') {
+      return null;
+    }
+    const gas = Number(entry.gasUsed);
+    return Number.isFinite(gas) && gas > 0 ? gas : null;
+  }
+
+  private static percentChange(before: number, after: number): number {
+    if (!before || before <= 0) {
+      return 0;
+    }
+    return ((after - before) / before) * 100;
+  }
+}
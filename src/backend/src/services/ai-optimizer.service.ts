@@ -1,5 +1,13 @@
 import { GoogleGenAI } from '@google/genai';
 import dotenv from 'dotenv';
+import { EditPatchReport, EditPatcherService } from './edit-patcher.service';
+import {
+  RULE_OPTIMIZER_MODES,
+  RuleOptimizationResult,
+  RuleOptimizerMode,
+  RuleOptimizerService,
+  RuleOptions,
+} from './rule-optimizer.service';
 
 dotenv.config();
 
@@ -10,6 +18,12 @@ export type AIOptimization = {
   line: number;
   before: string;
   after: string;
+  /** Project file the suggestion applies to; set for multi-file projects. */
+  file?: string;
+  /** Gas measured with only this optimization's edits applied; set by the analysis pipeline. */
+  measurement?: OptimizationMeasurement;
+  /** Refinement round that produced it, set when several rounds were kept; `line` refers to that round's input. */
+  round?: number;
 };
 
 export type AICodeEdit = {
@@ -19,6 +33,31 @@ export type AICodeEdit = {
   before: string;
   after: string;
   rationale: string;
+  file?: string;
+  /** Index in `optimizations` of the suggestion this edit implements; its edits are measured together. */
+  optimization?: number;
+  /** Refinement round that produced it, set when several rounds were kept; lines refer to that round's input. */
+  round?: number;
+};
+
+/**
+ * One group of edits profiled on top of the baseline by itself. `kept` groups
+ * compiled and saved gas under the job's checks and make up the final candidate.
+ */
+export type OptimizationMeasurement = {
+  status: 'kept' | 'dropped' | 'unmeasured';
+  reason: string;
+  /** Indexes in `edits` applied together for this measurement. */
+  edits: number[];
+  /** Optimized minus baseline gas; negative values are savings. */
+  deploymentGasDelta?: number;
+  functionGasDeltas?: Record<string, number>;
+};
+
+/** A measurement with the optimization (if any) and file its edits belong to. */
+export type EditGroupMeasurement = OptimizationMeasurement & {
+  optimization?: number;
+  file?: string;
 };
 
 export type AIVerifierResult = {
@@ -34,6 +73,10 @@ export type AIOptimizationMeta = {
   schemaRepairAttempts: number;
   verifier: AIVerifierResult;
   warnings: string[];
+  /** How the edits became `optimizedContract`; absent when the AI produced no candidate. */
+  patch?: EditPatchReport;
+  /** Each edit group's isolated measurement, when the pipeline measured them. */
+  isolation?: EditGroupMeasurement[];
 };
 
 export type ProgressCallback = (message: string) => void;
@@ -56,13 +99,41 @@ type ProviderResult = {
 type Provider = {
   name: string;
   models: string[];
-  generate: (model: string, prompt: string, mode: 'optimizer' | 'verifier' | 'generator') => Promise<string>;
+  generate: (
+    model: string,
+    prompt: string,
+    mode: 'optimizer' | 'verifier' | 'generator',
+    signal?: AbortSignal,
+    temperature?: number
+  ) => Promise<string>;
 };
 
+/** Focus hint for the optimizer prompt; `general` adds none. */
+export type OptimizationStrategy = 'general' | 'storage' | 'calldata' | 'loops' | 'arithmetic';
+
+export const OPTIMIZATION_STRATEGIES: OptimizationStrategy[] = [
+  'general',
+  'storage',
+  'calldata',
+  'loops',
+  'arithmetic',
+];
+
 type OptimizerOptions = {
   feedback?: string;
   jobId?: string;
   onProgress?: ProgressCallback;
+  /** Aborts in-flight provider calls; the optimizer then throws instead of falling back. */
+  signal?: AbortSignal;
+  /** Proxy-deployed contract: prompts forbid storage packing and any other storage layout change. */
+  upgradeable?: boolean;
+  /** Variation for candidate search: a focus hint, the optimizer call's temperature, and which provider goes first. */
+  strategy?: OptimizationStrategy;
+  temperature?: number;
+  providerOffset?: number;
+  /** When the AST rule optimizer runs (default `RULE_OPTIMIZER_MODE`, else `fallback`), and what it may change. */
+  ruleMode?: RuleOptimizerMode;
+  ruleOptions?: RuleOptions;
 };
 
 type AIOptimizationDraft = {
@@ -100,11 +171,32 @@ export class AIOptimizerService {
   ): Promise<AIOptimizationResponse> {
     const jobId = options?.jobId;
     const onProgress = options?.onProgress;
-    const providers = this.getProviders();
+    const signal = options?.signal;
+    const upgradeable = options?.upgradeable === true;
+    const strategy = options?.strategy || 'general';
+    const temperature = options?.temperature;
+    const configured = this.getProviders();
+    // Rotating the fallback order spreads search candidates across providers.
+    const offset = configured.length > 0 ? (options?.providerOffset || 0) % configured.length : 0;
+    const providers = [...configured.slice(offset), ...configured.slice(0, offset)];
+    const ruleMode = options?.ruleMode || this.ruleMode();
+    const rules =
+      ruleMode === 'off' ? undefined : RuleOptimizerService.optimize(code, { ...options?.ruleOptions, upgradeable });
     this.logInfo(
       `AI optimization start. providers=${providers.map((p) => `${p.name}[${p.models.join(',')}]`).join(' ')}`,
       jobId
     );
+    if (rules && (ruleMode === 'only' || providers.length === 0)) {
+      this.logInfo(`Rule-based optimizer only (mode=${ruleMode}). edits=${rules.edits.length}`, jobId);
+      onProgress?.(`Applying ${rules.edits.length} rule-based rewrites...`);
+      return this.ruleResponse(
+        code,
+        rules,
+        providers.length === 0 && ruleMode !== 'only'
+          ? ['No AI provider configured; only rule-based rewrites were applied.']
+          : []
+      );
+    }
     onProgress?.('Initializing AI optimizer...');
     
     if (providers.length === 0) {
@@ -127,15 +219,25 @@ export class AIOptimizerService {
 
     const maxCycles = this.envInt('AI_MAX_OPTIMIZER_CYCLES', 2);
     let feedback = options?.feedback || '';
+    // In `first` mode the AI builds on the rule rewrites and must leave their lines alone.
+    const handled = ruleMode === 'first' && rules ? rules.edits : [];
 
     for (let cycle = 1; cycle <= maxCycles; cycle++) {
       try {
+        this.throwIfAborted(signal);
         onProgress?.(`AI optimization cycle ${cycle}/${maxCycles}: analyzing contract...`);
         this.logInfo(`AI cycle ${cycle}/${maxCycles} started.`, jobId);
-        const optimizerPrompt = this.buildOptimizerPrompt(code, gasProfile, feedback);
+        const optimizerPrompt = this.buildOptimizerPrompt(code, gasProfile, feedback, upgradeable, strategy, handled);
         this.logInfo(`Optimizer prompt chars=${optimizerPrompt.length}`, jobId);
         onProgress?.('Calling AI model (this may take 30-60s)...');
-        const optimizedCall = await this.callWithFallback(providers, optimizerPrompt, 'optimizer', jobId);
+        const optimizedCall = await this.callWithFallback(
+          providers,
+          optimizerPrompt,
+          'optimizer',
+          jobId,
+          signal,
+          temperature
+        );
         retriesUsed += optimizedCall.retriesUsed;
         this.logInfo(
           `Optimizer response received provider=${optimizedCall.provider} model=${optimizedCall.model} chars=${optimizedCall.text.length}`,
@@ -156,7 +258,7 @@ export class AIOptimizerService {
           ]);
           this.logInfo(`Repair prompt (parse failure) chars=${repairPrompt.length}`, jobId);
           onProgress?.('Calling AI to repair JSON output...');
-          const repairedCall = await this.callWithFallback(providers, repairPrompt, 'optimizer', jobId);
+          const repairedCall = await this.callWithFallback(providers, repairPrompt, 'optimizer', jobId, signal);
           retriesUsed += repairedCall.retriesUsed;
           schemaRepairAttempts += 1;
           this.logInfo(
@@ -174,7 +276,7 @@ export class AIOptimizerService {
           const repairPrompt = this.buildRepairPrompt(optimizerPrompt, optimizedCall.text, validation.errors);
           this.logInfo(`Repair prompt chars=${repairPrompt.length}`, jobId);
           onProgress?.('Calling AI to fix schema violations...');
-          const repairedCall = await this.callWithFallback(providers, repairPrompt, 'optimizer', jobId);
+          const repairedCall = await this.callWithFallback(providers, repairPrompt, 'optimizer', jobId, signal);
           retriesUsed += repairedCall.retriesUsed;
           schemaRepairAttempts += 1;
           this.logInfo(
@@ -192,13 +294,49 @@ export class AIOptimizerService {
           }
         }
 
-        const draft = parsed as AIOptimizationDraft;
-        onProgress?.('Generating optimized contract code...');
-        const generated = await this.generateOptimizedContract(code, draft.edits, providers, jobId);
-        retriesUsed += generated.retriesUsed;
-        const optimizedContract = generated.code;
+        const draft =
+          handled.length > 0 && rules
+            ? this.mergeRuleDraft(rules, parsed as AIOptimizationDraft, warnings)
+            : (parsed as AIOptimizationDraft);
+        // Apply the edits as stated; a model rewrite of the whole contract is only the fallback.
+        const patchResult = EditPatcherService.apply(code, draft.edits);
+        let optimizedContract: string;
+        let patch: EditPatchReport;
+        if (patchResult.applied && patchResult.code !== undefined) {
+          onProgress?.(`Applied ${draft.edits.length} edits to the contract.`);
+          optimizedContract = patchResult.code;
+          patch = { method: 'patch', edits: patchResult.edits };
+        } else {
+          const failed = patchResult.edits.filter((edit) => edit.status !== 'applied' && edit.status !== 'relocated');
+          const reason = `Edits could not be applied (${failed
+            .map((edit) => `edit ${edit.index} ${edit.status}: ${edit.message}`)
+            .join('; ')}); regenerating the contract instead.`;
+          this.logWarn(reason, jobId);
+          warnings.push(reason);
+          onProgress?.('Edits could not be applied directly, generating optimized contract code...');
+          const generated = await this.generateOptimizedContract(
+            code,
+            draft.edits,
+            providers,
+            jobId,
+            signal,
+            upgradeable
+          );
+          retriesUsed += generated.retriesUsed;
+          optimizedContract = generated.code;
+          patch = { method: 'llm', edits: patchResult.edits };
+        }
         onProgress?.('Verifying optimization safety and correctness...');
-        const verifier = await this.verifyCandidate(code, gasProfile, optimizedContract, draft.edits, providers, jobId);
+        const verifier = await this.verifyCandidate(
+          code,
+          gasProfile,
+          optimizedContract,
+          draft.edits,
+          providers,
+          jobId,
+          signal,
+          upgradeable
+        );
         if (!verifier.approved) {
           lastError = `Verifier rejects candidate: ${verifier.summary}`;
           this.logWarn(lastError, jobId);
@@ -225,9 +363,13 @@ export class AIOptimizerService {
             schemaRepairAttempts,
             verifier,
             warnings,
+            patch,
           },
         };
       } catch (error: unknown) {
+        if (signal?.aborted) {
+          throw error;
+        }
         lastError = error instanceof Error ? error.message : 'Unknown AI optimization error';
         this.logWarn(`AI cycle ${cycle} failed: ${lastError}`, jobId);
         warnings.push(`Cycle ${cycle} failed: ${lastError}`);
@@ -235,6 +377,15 @@ export class AIOptimizerService {
     }
 
     this.logWarn(`AI optimization exhausted all cycles. lastError=${lastError}`, jobId);
+    if (rules && rules.edits.length > 0) {
+      onProgress?.(`AI optimization failed; applying ${rules.edits.length} rule-based rewrites instead.`);
+      return this.ruleResponse(
+        code,
+        rules,
+        [...warnings, `AI failed (${lastError}); only rule-based rewrites were applied.`],
+        { retriesUsed, schemaRepairAttempts }
+      );
+    }
     return {
       ...DEFAULT_RESPONSE,
       optimizedContract: code,
@@ -250,13 +401,96 @@ export class AIOptimizerService {
     };
   }
 
+  /** The rule optimizer's edits, patched into `code` and presented like an approved AI result. */
+  private static ruleResponse(
+    code: string,
+    rules: RuleOptimizationResult,
+    warnings: string[],
+    usage: { retriesUsed: number; schemaRepairAttempts: number } = { retriesUsed: 0, schemaRepairAttempts: 0 }
+  ): AIOptimizationResponse {
+    const patchResult = EditPatcherService.apply(code, rules.edits);
+    // Rule edits are built from the parsed source, so a failure here is a bug; fall back to no change.
+    const applied = patchResult.applied && patchResult.code !== undefined;
+    return {
+      optimizations: applied ? rules.optimizations : [],
+      edits: applied ? rules.edits : [],
+      optimizedContract: applied ? (patchResult.code as string) : code,
+      totalEstimatedSaving: rules.totalEstimatedSaving,
+      meta: {
+        provider: 'rules',
+        model: 'ast',
+        ...usage,
+        verifier: {
+          approved: true,
+          summary: 'Deterministic rule-based rewrites; no AI verifier ran.',
+          riskFlags: [],
+        },
+        warnings: [
+          ...warnings,
+          ...rules.warnings,
+          ...(applied ? [] : ['Rule-based edits could not be applied; returning the original contract.']),
+        ],
+        patch: { method: 'patch', edits: patchResult.edits },
+      },
+    };
+  }
+
+  /**
+   * Puts the rule optimizations before the AI's, shifting the AI edits'
+   * optimization indexes, and drops AI edits that touch rule-edited lines.
+   */
+  private static mergeRuleDraft(
+    rules: RuleOptimizationResult,
+    draft: AIOptimizationDraft,
+    warnings: string[]
+  ): AIOptimizationDraft {
+    const ruled = new Set(
+      rules.edits.flatMap((edit) =>
+        Array.from({ length: edit.lineEnd - edit.lineStart + 1 }, (_, i) => edit.lineStart + i)
+      )
+    );
+    const edits = draft.edits.filter((edit) => {
+      // An insert only lands inside a rewrite when both the line it follows and the next one are rewritten.
+      const overlaps =
+        edit.action === 'insert'
+          ? ruled.has(edit.lineStart) && ruled.has(edit.lineStart + 1)
+          : Array.from({ length: Math.max(edit.lineEnd - edit.lineStart + 1, 1) }, (_, i) => edit.lineStart + i).some(
+              (line) => ruled.has(line)
+            );
+      if (overlaps) {
+        warnings.push(`Dropped AI edit at line ${edit.lineStart}: it overlaps a rule-based rewrite.`);
+      }
+      return !overlaps;
+    });
+    // Suggestions whose every edit was dropped are dropped too; the rest are renumbered after the rule ones.
+    const kept = draft.optimizations.flatMap((_, index) =>
+      edits.some((edit) => edit.optimization === index) || !draft.edits.some((edit) => edit.optimization === index)
+        ? [index]
+        : []
+    );
+    return {
+      optimizations: [...rules.optimizations, ...kept.map((index) => draft.optimizations[index])],
+      edits: [
+        ...rules.edits,
+        ...edits.map((edit) =>
+          edit.optimization !== undefined && kept.includes(edit.optimization)
+            ? { ...edit, optimization: rules.optimizations.length + kept.indexOf(edit.optimization) }
+            : edit
+        ),
+      ],
+      totalEstimatedSaving: `${rules.totalEstimatedSaving}; ${draft.totalEstimatedSaving}`,
+    };
+  }
+
   private static async verifyCandidate(
     originalCode: string,
     gasProfile: unknown,
     optimizedCode: string,
     edits: AICodeEdit[],
     providers: Provider[],
-    jobId?: string
+    jobId?: string,
+    signal?: AbortSignal,
+    upgradeable = false
   ): Promise<AIVerifierResult> {
     // Step 1: Run static analysis to catch common compilation errors before AI verification
     const staticAnalysis = this.runStaticAnalysis(optimizedCode);
@@ -270,10 +504,10 @@ export class AIOptimizerService {
     }
 
     // Step 2: AI verifier for semantic/logic checks
-    const prompt = this.buildVerifierPrompt(originalCode, gasProfile, optimizedCode, edits);
+    const prompt = this.buildVerifierPrompt(originalCode, gasProfile, optimizedCode, edits, upgradeable);
     try {
       this.logInfo(`Verifier prompt chars=${prompt.length}`, jobId);
-      const call = await this.callWithFallback(providers, prompt, 'verifier', jobId);
+      const call = await this.callWithFallback(providers, prompt, 'verifier', jobId, signal);
       this.logInfo(`Verifier response provider=${call.provider} model=${call.model} chars=${call.text.length}`, jobId);
       this.logRawResponse('verifier', call.text, jobId);
       const parsed = this.parseJsonBestEffort(call.text) as Partial<AIVerifierResult>;
@@ -282,6 +516,9 @@ export class AIOptimizerService {
       const riskFlags = Array.isArray(parsed.riskFlags) ? parsed.riskFlags.filter((x) => typeof x === 'string') : ['invalid_verifier_response'];
       return { approved, summary, riskFlags };
     } catch (error: unknown) {
+      if (signal?.aborted) {
+        throw error;
+      }
       const message = error instanceof Error ? error.message : 'Unknown verifier error';
       this.logWarn(`Verifier call failed: ${message}`, jobId);
       return {
@@ -296,11 +533,13 @@ export class AIOptimizerService {
     originalCode: string,
     edits: AICodeEdit[],
     providers: Provider[],
-    jobId?: string
+    jobId?: string,
+    signal?: AbortSignal,
+    upgradeable = false
   ): Promise<{ code: string; retriesUsed: number }> {
-    const prompt = this.buildGeneratorPrompt(originalCode, edits);
+    const prompt = this.buildGeneratorPrompt(originalCode, edits, upgradeable);
     this.logInfo(`Generator prompt chars=${prompt.length}`, jobId);
-    const call = await this.callWithFallback(providers, prompt, 'generator', jobId);
+    const call = await this.callWithFallback(providers, prompt, 'generator', jobId, signal);
     this.logInfo(`Generator response provider=${call.provider} model=${call.model} chars=${call.text.length}`, jobId);
     this.logRawResponse('generator', call.text, jobId);
     const code = this.normalizeGeneratedCode(call.text);
@@ -314,7 +553,9 @@ export class AIOptimizerService {
     providers: Provider[],
     prompt: string,
     mode: 'optimizer' | 'verifier' | 'generator',
-    jobId?: string
+    jobId?: string,
+    signal?: AbortSignal,
+    temperature?: number
   ): Promise<ProviderResult> {
     const retries = this.envInt('AI_PROVIDER_RETRIES', 2);
     const baseDelayMs = this.envInt('AI_RETRY_BASE_DELAY_MS', 600);
@@ -323,10 +564,11 @@ export class AIOptimizerService {
     for (const provider of providers) {
       for (const model of provider.models) {
         for (let retry = 0; retry <= retries; retry++) {
+          this.throwIfAborted(signal);
           const startedAt = Date.now();
           try {
             this.logInfo(`Calling AI provider=${provider.name} model=${model} retry=${retry}`, jobId);
-            const text = await provider.generate(model, prompt, mode);
+            const text = await provider.generate(model, prompt, mode, signal, temperature);
             if (!text || !text.trim()) {
               throw new Error('Empty AI response.');
             }
@@ -341,6 +583,7 @@ export class AIOptimizerService {
               retriesUsed: retry,
             };
           } catch (error: unknown) {
+            this.throwIfAborted(signal);
             const message = error instanceof Error ? error.message : 'Unknown provider error';
             this.logWarn(
               `AI call failed provider=${provider.name} model=${model} retry=${retry} latencyMs=${Date.now() - startedAt} error=${message}`,
@@ -370,7 +613,7 @@ export class AIOptimizerService {
       providers.push({
         name: 'gemini',
         models,
-        generate: async (model: string, prompt: string, mode: 'optimizer' | 'verifier' | 'generator') => {
+        generate: async (model, prompt, mode, signal, temperature) => {
           const responseSchema =
             mode === 'verifier' ? this.verifierResponseSchema() : mode === 'optimizer' ? this.optimizerResponseSchema() : undefined;
           const response = await ai.models.generateContent({
@@ -379,9 +622,10 @@ export class AIOptimizerService {
             config: {
               responseMimeType: mode === 'generator' ? 'text/plain' : 'application/json',
               ...(responseSchema ? { responseSchema: responseSchema as any } : {}),
-              temperature: 0.15,
+              temperature: temperature ?? 0.15,
               topP: 0.95,
               maxOutputTokens: 32768,
+              abortSignal: signal,
             },
           });
           return response.text || '';
@@ -399,7 +643,7 @@ export class AIOptimizerService {
       providers.push({
         name: 'openai',
         models,
-        generate: async (model: string, prompt: string, mode: 'optimizer' | 'verifier' | 'generator') => {
+        generate: async (model, prompt, mode, signal, temperature) => {
           const asJson = mode !== 'generator';
           const res = await fetch('https://api.openai.com/v1/chat/completions', {
             method: 'POST',
@@ -407,9 +651,10 @@ export class AIOptimizerService {
               'Content-Type': 'application/json',
               Authorization: `Bearer ${openAIKey}`,
             },
+            signal,
             body: JSON.stringify({
               model,
-              temperature: 0.1,
+              temperature: temperature ?? 0.1,
               max_tokens: 16384,
               ...(asJson ? { response_format: { type: 'json_object' } } : {}),
               messages: [
@@ -462,6 +707,9 @@ export class AIOptimizerService {
         if (typeof e.before !== 'string' || typeof e.after !== 'string' || typeof e.rationale !== 'string') {
           errors.push(`edits[${idx}] before/after/rationale must be strings`);
         }
+        if (e.optimization !== undefined && !Number.isInteger(e.optimization)) {
+          errors.push(`edits[${idx}].optimization must be an optimization index`);
+        }
       });
     }
 
@@ -578,18 +826,40 @@ export class AIOptimizerService {
     return fixed;
   }
 
-  private static buildOptimizerPrompt(code: string, gasProfile: unknown, feedback: string): string {
+  private static buildOptimizerPrompt(
+    code: string,
+    gasProfile: unknown,
+    feedback: string,
+    upgradeable: boolean,
+    strategy: OptimizationStrategy = 'general',
+    handled: AICodeEdit[] = []
+  ): string {
     return `
 You are an expert Solidity gas optimizer.
 Goal: Aggressively optimize for gas while maintaining correctness.
-
+${strategy === 'general' ? '' : `\nSTRATEGY FOCUS: ${this.strategyHint(strategy, upgradeable)}\n`}${
+  handled.length === 0
+    ? ''
+    : `
+ALREADY APPLIED (rule-based rewrites that will be applied together with your edits):
+${handled.map((edit) => `- lines ${edit.lineStart}-${edit.lineEnd}: ${edit.after.trim().replace(/\n\s*/g, ' / ')}`).join('\n')}
+Do NOT edit these lines and do NOT repeat these optimizations; line numbers refer to the input contract below.
+`
+}
 OPTIMIZATION PRIORITIES (apply these aggressively):
 
-1. STORAGE PACKING (high impact - 2100 gas per slot saved):
+${
+  upgradeable
+    ? `1. STORAGE LAYOUT IS FROZEN (upgradeable contract behind a proxy):
+   - Do NOT reorder, retype, rename, remove or insert state variables
+   - Do NOT reorder or retype struct fields; the proxy's existing storage would be misread
+   - New state variables may only be appended after all existing ones`
+    : `1. STORAGE PACKING (high impact - 2100 gas per slot saved):
    - Reorder struct fields: large types first, then small types together
    - Example: { uint256 score; uint64 joinedAt; bool active; } 
      → { bool active; uint64 joinedAt; uint256 score; } (saves 1 slot)
-   - Pack state variables: group uint8, bool, uint16 together
+   - Pack state variables: group uint8, bool, uint16 together`
+}
 
 2. CALLDATA VS MEMORY (high impact - 500-1000 gas per call):
    - External functions: ALWAYS use calldata for arrays/strings
@@ -621,7 +891,17 @@ FORBIDDEN (security issues):
 - Do NOT remove essential require() statements
 - Do NOT use unchecked for balance/token arithmetic
 
-Return JSON with up to 3 optimizations and 3 edits.
+Return JSON with up to 3 optimizations and up to 10 edits.
+
+EDITS ARE APPLIED LITERALLY to the input contract; nothing outside them changes:
+- Lines are numbered from 1 in the input contract below
+- replace: "before" is the exact current text of lines lineStart-lineEnd, "after" is their full new text
+- delete: "before" is the exact text of lines lineStart-lineEnd; "after" is ""
+- insert: "after" is added below line lineStart (0 for the top); "before" is the exact text of line lineStart
+- Use \n inside "before"/"after" for multiple lines; edits must not overlap
+- Include every change the optimizations need, such as a cached variable's declaration
+- "optimization" is the index in "optimizations" of the suggestion an edit implements; all edits of one suggestion
+  share it and are measured together, so each suggestion's edits must compile and save gas without the others
 
 Input contract:
 ${code}
@@ -649,9 +929,10 @@ Return this exact JSON shape:
       "action": "replace|insert|delete",
       "lineStart": 1,
       "lineEnd": 1,
-      "before": "string (max 80 chars)",
-      "after": "string (max 80 chars)",
-      "rationale": "string (max 120 chars)"
+      "before": "string (exact original lines)",
+      "after": "string (complete replacement lines)",
+      "rationale": "string (max 120 chars)",
+      "optimization": 0
     }
   ],
   "totalEstimatedSaving": "string"
@@ -659,6 +940,23 @@ Return this exact JSON shape:
 `;
   }
 
+  private static strategyHint(strategy: OptimizationStrategy, upgradeable: boolean): string {
+    switch (strategy) {
+      case 'storage':
+        return `Only optimize storage access: cache repeated reads in locals, use storage pointers, skip redundant writes${
+          upgradeable ? '' : ', pack variables and struct fields'
+        }. Leave other code as it is.`;
+      case 'calldata':
+        return 'Only optimize data location and copying: calldata for external parameters, no needless memory copies of arrays, strings or structs. Leave other code as it is.';
+      case 'loops':
+        return 'Only optimize loops: cache lengths and storage reads outside them, unchecked counters, early exits. Leave other code as it is.';
+      case 'arithmetic':
+        return 'Only optimize arithmetic and checks: unchecked blocks where overflow is provably impossible, redundant checks, cheaper operators. Leave other code as it is.';
+      default:
+        return '';
+    }
+  }
+
   private static buildRepairPrompt(originalPrompt: string, badOutput: string, errors: string[]): string {
     return `
 Your previous output was invalid JSON for the required schema.
@@ -675,14 +973,15 @@ CRITICAL: This time output VALID JSON only:
 - NO markdown code fences
 - NO trailing commas
 - Maximum 3 optimizations
-- Maximum 3 edits
-- Each before/after: max 80 characters
+- Maximum 10 edits
+- Each optimization before/after: max 80 characters
+- Each edit before: the exact original lines it changes
 
 Return corrected JSON only. Nothing else.
 `;
   }
 
-  private static buildGeneratorPrompt(originalCode: string, edits: AICodeEdit[]): string {
+  private static buildGeneratorPrompt(originalCode: string, edits: AICodeEdit[], upgradeable: boolean): string {
     return `
 You are an expert Solidity refactoring engine.
 Apply the requested edits to produce one final optimized contract.
@@ -701,7 +1000,11 @@ CRITICAL RULES:
    - Keep formatting clean and compilable
 
 3. APPLY THESE OPTIMIZATIONS WHERE POSSIBLE:
-   - Storage packing: reorder struct fields for tight packing
+   - ${
+     upgradeable
+       ? 'NO storage packing: this contract is upgradeable, keep state variables and struct fields in their exact order and types'
+       : 'Storage packing: reorder struct fields for tight packing'
+   }
    - Cache array lengths before loops
    - Use calldata for external function parameters
    - Use storage pointers for repeated mapping/array access
@@ -738,15 +1041,22 @@ ${JSON.stringify(edits, null, 2)}
     originalCode: string,
     gasProfile: unknown,
     optimizedCode: string,
-    edits: AICodeEdit[]
+    edits: AICodeEdit[],
+    upgradeable: boolean
   ): string {
     return `
 You are a practical Solidity optimization verifier.
 Goal: Approve safe gas optimizations while catching REAL security issues AND compilation errors.
 
 IMPORTANT CONTEXT:
-- This is for NEW contract deployments (NOT upgradeable proxies)
-- Storage layout changes are OK for new deployments
+${
+  upgradeable
+    ? `- This contract is UPGRADEABLE and deployed behind a proxy
+- REJECT any storage layout change: reordered, retyped, removed or inserted state variables or struct fields
+- New state variables are only acceptable when appended after all existing ones`
+    : `- This is for NEW contract deployments (NOT upgradeable proxies)
+- Storage layout changes are OK for new deployments`
+}
 - Function parameter location changes (memory → calldata) are SAFE
 
 CRITICAL COMPILATION CHECKS (reject if any of these are present):
@@ -859,6 +1169,15 @@ Distinguish between SAFE counter increments, UNSAFE balance/token arithmetic, an
     );
   }
 
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (!signal?.aborted) {
+      return;
+    }
+    const error = new Error('AI optimization cancelled.');
+    error.name = 'AbortError';
+    throw error;
+  }
+
   private static computeBackoff(baseMs: number, retry: number): number {
     const jitter = Math.floor(Math.random() * 150);
     return baseMs * Math.pow(2, retry) + jitter;
@@ -880,6 +1199,11 @@ Distinguish between SAFE counter increments, UNSAFE balance/token arithmetic, an
     return parsed;
   }
 
+  private static ruleMode(): RuleOptimizerMode {
+    const raw = (process.env.RULE_OPTIMIZER_MODE || '').trim().toLowerCase();
+    return RULE_OPTIMIZER_MODES.find((mode) => mode === raw) || 'fallback';
+  }
+
   private static envInt(envName: string, fallback: number): number {
     const raw = process.env[envName];
     if (!raw) {
@@ -921,6 +1245,7 @@ Distinguish between SAFE counter increments, UNSAFE balance/token arithmetic, an
               before: { type: 'string' },
               after: { type: 'string' },
               rationale: { type: 'string' },
+              optimization: { type: 'integer' },
             },
           },
         },
@@ -0,0 +1,316 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { AnalysisJobRecord } from './analysis-job.service';
+
+/**
+ * Durable storage for analysis jobs. `AnalysisJobService` caches recent jobs
+ * in memory and writes every change through; repositories save whole records
+ * and load them by id or by recency.
+ */
+export interface AnalysisJobRepository {
+  readonly name: string;
+  initialize(): Promise<void>;
+  /** Jobs updated at or after `since`, oldest first. */
+  loadRecent(since: number): Promise<AnalysisJobRecord[]>;
+  findById(id: string): Promise<AnalysisJobRecord | undefined>;
+  save(job: AnalysisJobRecord): Promise<void>;
+  /** Removes (or archives) finished jobs outside `policy`; returns their ids. */
+  sweep(policy: RetentionPolicy): Promise<string[]>;
+}
+
+export type RetentionPolicy = {
+  /** Finished jobs last updated before this timestamp are removed. */
+  updatedBefore: number;
+  /** Finished jobs beyond the newest `maxCount` jobs are removed; `0` keeps all. */
+  maxCount: number;
+  mode: 'delete' | 'archive';
+};
+
+const TERMINAL_STATUSES = ['completed', 'failed', 'cancelled'];
+
+type Queryable = {
+  query: (sql: string, params?: unknown[]) => Promise<{ rows: any[] }>;
+};
+
+/** Keeps nothing; jobs are lost on restart as before. */
+export class MemoryAnalysisJobRepository implements AnalysisJobRepository {
+  public readonly name = 'memory';
+
+  public async initialize(): Promise<void> {}
+
+  public async loadRecent(_since: number): Promise<AnalysisJobRecord[]> {
+    return [];
+  }
+
+  public async findById(_id: string): Promise<AnalysisJobRecord | undefined> {
+    return undefined;
+  }
+
+  public async save(_job: AnalysisJobRecord): Promise<void> {}
+
+  public async sweep(_policy: RetentionPolicy): Promise<string[]> {
+    return [];
+  }
+}
+
+/**
+ * One JSON file per job under `directory`, replaced atomically on every save.
+ * File mtimes stand in for `updatedAt` when loading recent jobs; archived jobs
+ * move to `directory/archive`.
+ */
+export class FileAnalysisJobRepository implements AnalysisJobRepository {
+  public readonly name = 'file';
+
+  constructor(private readonly directory: string) {}
+
+  public async initialize(): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+  }
+
+  public async loadRecent(since: number): Promise<AnalysisJobRecord[]> {
+    const jobs: AnalysisJobRecord[] = [];
+    for (const file of await this.jobFiles()) {
+      const stat = await fs.stat(path.join(this.directory, file)).catch(() => null);
+      if (!stat || stat.mtimeMs < since) {
+        continue;
+      }
+      const job = await this.read(file);
+      if (job) {
+        jobs.push(job);
+      }
+    }
+    return jobs.sort((a, b) => a.updatedAt - b.updatedAt);
+  }
+
+  public async findById(id: string): Promise<AnalysisJobRecord | undefined> {
+    if (!/^[\w-]+$/.test(id)) {
+      return undefined;
+    }
+    return this.read(`${id}.json`, false);
+  }
+
+  public async save(job: AnalysisJobRecord): Promise<void> {
+    const target = path.join(this.directory, `${job.id}.json`);
+    const temp = `${target}.tmp`;
+    await fs.writeFile(temp, JSON.stringify(job));
+    await fs.rename(temp, target);
+  }
+
+  public async sweep(policy: RetentionPolicy): Promise<string[]> {
+    const jobs: AnalysisJobRecord[] = [];
+    for (const file of await this.jobFiles()) {
+      const job = await this.read(file);
+      if (job) {
+        jobs.push(job);
+      }
+    }
+
+    const newest = new Set(
+      jobs
+        .sort((a, b) => b.createdAt - a.createdAt)
+        .slice(0, policy.maxCount > 0 ? policy.maxCount : jobs.length)
+        .map((job) => job.id)
+    );
+    const expired = jobs.filter(
+      (job) => TERMINAL_STATUSES.includes(job.status) && (job.updatedAt < policy.updatedBefore || !newest.has(job.id))
+    );
+
+    if (policy.mode === 'archive' && expired.length > 0) {
+      await fs.mkdir(path.join(this.directory, 'archive'), { recursive: true });
+    }
+    for (const job of expired) {
+      const file = path.join(this.directory, `${job.id}.json`);
+      if (policy.mode === 'archive') {
+        await fs.rename(file, path.join(this.directory, 'archive', `${job.id}.json`));
+      } else {
+        await fs.rm(file, { force: true });
+      }
+    }
+    return expired.map((job) => job.id);
+  }
+
+  private async jobFiles(): Promise<string[]> {
+    return (await fs.readdir(this.directory)).filter((file) => file.endsWith('.json'));
+  }
+
+  private async read(file: string, logErrors = true): Promise<AnalysisJobRecord | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(path.join(this.directory, file), 'utf8'));
+    } catch (error: unknown) {
+      if (logErrors) {
+        const message = error instanceof Error ? error.message : 'Unknown read error';
+        console.error(`Skipping unreadable analysis job file ${file}: ${message}`);
+      }
+      return undefined;
+    }
+  }
+}
+
+/** `backend_analysis_jobs` table, kept apart from the worker's `analysis_jobs`. */
+export class PostgresAnalysisJobRepository implements AnalysisJobRepository {
+  public readonly name = 'postgres';
+  private pool: Queryable | null = null;
+
+  constructor(private readonly connectionString: string) {}
+
+  public async initialize(): Promise<void> {
+    await this.getPool().query(`
+      CREATE TABLE IF NOT EXISTS backend_analysis_jobs (
+        id TEXT PRIMARY KEY,
+        code_hash TEXT,
+        code TEXT NOT NULL,
+        project JSONB,
+        options JSONB NOT NULL,
+        status TEXT NOT NULL,
+        created_at BIGINT NOT NULL,
+        updated_at BIGINT NOT NULL,
+        cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+        error TEXT,
+        result JSONB,
+        events JSONB NOT NULL,
+        worker_job_ids JSONB NOT NULL DEFAULT '[]'
+      );
+    `);
+    // Tables created before worker job ids were stored.
+    await this.getPool().query(`
+      ALTER TABLE backend_analysis_jobs ADD COLUMN IF NOT EXISTS worker_job_ids JSONB NOT NULL DEFAULT '[]';
+    `);
+    await this.getPool().query(`
+      CREATE INDEX IF NOT EXISTS idx_backend_analysis_jobs_updated_at
+      ON backend_analysis_jobs (updated_at);
+    `);
+    await this.getPool().query(`
+      CREATE TABLE IF NOT EXISTS backend_analysis_jobs_archive (LIKE backend_analysis_jobs INCLUDING DEFAULTS);
+    `);
+    // Archiving copies rows with SELECT *, so the archive needs the same columns in the same order.
+    await this.getPool().query(`
+      ALTER TABLE backend_analysis_jobs_archive ADD COLUMN IF NOT EXISTS worker_job_ids JSONB NOT NULL DEFAULT '[]';
+    `);
+  }
+
+  public async loadRecent(since: number): Promise<AnalysisJobRecord[]> {
+    const result = await this.getPool().query(
+      `SELECT * FROM backend_analysis_jobs WHERE updated_at >= $1 ORDER BY updated_at ASC;`,
+      [since]
+    );
+    return result.rows.map((row) => this.toJobRecord(row));
+  }
+
+  public async findById(id: string): Promise<AnalysisJobRecord | undefined> {
+    const result = await this.getPool().query(`SELECT * FROM backend_analysis_jobs WHERE id = $1;`, [id]);
+    return result.rows[0] ? this.toJobRecord(result.rows[0]) : undefined;
+  }
+
+  public async save(job: AnalysisJobRecord): Promise<void> {
+    await this.getPool().query(
+      `
+        INSERT INTO backend_analysis_jobs (
+          id, code_hash, code, project, options, status, created_at, updated_at, cancel_requested, error, result, events,
+          worker_job_ids
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13)
+        ON CONFLICT (id) DO UPDATE SET
+          status = EXCLUDED.status,
+          updated_at = EXCLUDED.updated_at,
+          cancel_requested = EXCLUDED.cancel_requested,
+          error = EXCLUDED.error,
+          result = EXCLUDED.result,
+          events = EXCLUDED.events,
+          worker_job_ids = EXCLUDED.worker_job_ids;
+      `,
+      [
+        job.id,
+        job.codeHash || null,
+        job.code,
+        job.project ? JSON.stringify(job.project) : null,
+        JSON.stringify(job.options || {}),
+        job.status,
+        job.createdAt,
+        job.updatedAt,
+        job.cancelRequested,
+        job.error || null,
+        job.result ? JSON.stringify(job.result) : null,
+        JSON.stringify(job.events),
+        JSON.stringify(job.workerJobIds || []),
+      ]
+    );
+  }
+
+  public async sweep(policy: RetentionPolicy): Promise<string[]> {
+    const expired = `
+      DELETE FROM backend_analysis_jobs
+      WHERE status IN ('completed', 'failed', 'cancelled')
+        AND (
+          updated_at < $1
+          OR ($2 > 0 AND id NOT IN (SELECT id FROM backend_analysis_jobs ORDER BY created_at DESC LIMIT $2))
+        )
+      RETURNING *
+    `;
+    const result = await this.getPool().query(
+      policy.mode === 'archive'
+        ? `WITH expired AS (${expired}), archived AS (
+             INSERT INTO backend_analysis_jobs_archive SELECT * FROM expired RETURNING id
+           ) SELECT id FROM archived;`
+        : `WITH expired AS (${expired}) SELECT id FROM expired;`,
+      [policy.updatedBefore, policy.maxCount]
+    );
+    return result.rows.map((row) => row.id);
+  }
+
+  private toJobRecord(row: any): AnalysisJobRecord {
+    return {
+      id: row.id,
+      codeHash: row.code_hash || undefined,
+      code: row.code,
+      project: row.project || undefined,
+      options: row.options || {},
+      status: row.status,
+      createdAt: Number(row.created_at),
+      updatedAt: Number(row.updated_at),
+      cancelRequested: row.cancel_requested,
+      error: row.error || undefined,
+      result: row.result || undefined,
+      events: row.events || [],
+      workerJobIds: row.worker_job_ids || [],
+    };
+  }
+
+  private getPool(): Queryable {
+    if (this.pool) {
+      return this.pool;
+    }
+
+    // Same runtime require as the worker, to avoid type dependency friction.
+    const { Pool } = require('pg') as { Pool: new (opts: any) => Queryable };
+
+    const forceSsl =
+      (process.env.PGSSLMODE || '').toLowerCase() === 'require' ||
+      this.connectionString.toLowerCase().includes('sslmode=require');
+
+    this.pool = new Pool({
+      connectionString: this.connectionString,
+      ssl: forceSsl ? { rejectUnauthorized: false } : undefined,
+    });
+    return this.pool;
+  }
+}
+
+/** Picks the repository named by `ANALYSIS_JOB_STORE` (`file` by default). */
+export const createAnalysisJobRepository = (): AnalysisJobRepository => {
+  const store = (process.env.ANALYSIS_JOB_STORE || 'file').toLowerCase();
+  if (store === 'memory') {
+    return new MemoryAnalysisJobRepository();
+  }
+  if (store === 'postgres') {
+    const connectionString = process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('DATABASE_URL is required when ANALYSIS_JOB_STORE=postgres.');
+    }
+    return new PostgresAnalysisJobRepository(connectionString);
+  }
+  if (store === 'file') {
+    return new FileAnalysisJobRepository(
+      path.resolve(process.env.ANALYSIS_JOB_STORE_DIR || path.join(process.cwd(), 'data', 'analysis-jobs'))
+    );
+  }
+  throw new Error(`Unknown ANALYSIS_JOB_STORE "${store}"; expected postgres, file or memory.`);
+};
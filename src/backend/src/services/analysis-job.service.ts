@@ -1,6 +1,8 @@
 import crypto from 'crypto';
 import { EventEmitter } from 'events';
-import { AnalysisService, AnalysisPhase } from './analysis.service';
+import { AnalysisJobRepository, createAnalysisJobRepository, MemoryAnalysisJobRepository } from './analysis-job-repository.service';
+import { AnalysisOptions, AnalysisService, AnalysisPhase } from './analysis.service';
+import { HardhatService, SourceBundle } from './hardhat.service';
 
 export type AnalysisJobStatus =
   | 'queued'
@@ -21,7 +23,12 @@ export type AnalysisResult = Awaited<ReturnType<typeof AnalysisService.processCo
 
 export type AnalysisJobRecord = {
   id: string;
+  /** Dedupe key over source and options; rebuilds the reuse index after a restart. */
+  codeHash?: string;
+  /** Entry file source; the full tree is in `project` for multi-file jobs. */
   code: string;
+  project?: SourceBundle;
+  options: AnalysisOptions;
   status: AnalysisJobStatus;
   createdAt: number;
   updatedAt: number;
@@ -29,25 +36,74 @@ export type AnalysisJobRecord = {
   error?: string;
   result?: AnalysisResult;
   events: AnalysisProgressEvent[];
+  /** Worker jobs started for this analysis (baseline and candidates), cancelled along with it. */
+  workerJobIds?: string[];
 };
 
-export type AnalysisJob = Omit<AnalysisJobRecord, 'code'>;
+export type AnalysisJob = Omit<AnalysisJobRecord, 'code' | 'project' | 'codeHash'>;
 
+const TERMINAL_STATUSES: AnalysisJobStatus[] = ['completed', 'failed', 'cancelled'];
+
+/**
+ * Writes every change through to the repository picked by `ANALYSIS_JOB_STORE`,
+ * so reports and their event history survive a restart. Running jobs always
+ * stay in memory; finished ones are cached up to `ANALYSIS_JOB_CACHE_SIZE` and
+ * otherwise loaded by id on demand.
+ */
 export class AnalysisJobService {
   private static jobs = new Map<string, AnalysisJobRecord>();
   private static codeHashToJobId = new Map<string, string>();
   private static emitter = new EventEmitter();
+  private static repository: AnalysisJobRepository = new MemoryAnalysisJobRepository();
+  private static saving = new Set<string>();
+  private static dirty = new Set<string>();
+  private static sweepTimer: NodeJS.Timeout | null = null;
+  private static controllers = new Map<string, AbortController>();
+
+  /**
+   * Loads the jobs still eligible for dedupe and starts the retention sweeper.
+   * Jobs that were running when the backend stopped are marked failed.
+   */
+  public static async initialize(): Promise<void> {
+    this.repository = createAnalysisJobRepository();
+    await this.repository.initialize();
+
+    const stored = await this.repository.loadRecent(Date.now() - this.dedupeTtlMs());
+    for (const job of stored) {
+      this.remember(job);
+    }
+    this.evict();
+    console.log(`Loaded ${stored.length} recent analysis job(s) from ${this.repository.name} store.`);
 
-  public static createOrReuseJob(code: string): { job: AnalysisJob; reused: boolean } {
-    const codeHash = this.codeHash(code);
-    const dedupeTtlMs = this.envInt('ANALYSIS_JOB_DEDUPE_TTL_MS', 10 * 60 * 1000);
+    if (!this.sweepTimer) {
+      this.sweepTimer = setInterval(() => void this.sweep(), this.envInt('ANALYSIS_JOB_SWEEP_INTERVAL_MS', 10 * 60 * 1000));
+      void this.sweep();
+    }
+  }
+
+  /**
+   * Rejects sources larger than `ANALYSIS_JOB_MAX_SOURCE_BYTES`, which every stored job
+   * keeps; the synchronous endpoints apply the same limit.
+   */
+  public static sourceSizeError(input: string | SourceBundle): string | undefined {
+    const maxBytes = this.envInt('ANALYSIS_JOB_MAX_SOURCE_BYTES', 1024 * 1024);
+    const files = typeof input === 'string' ? [input] : Object.values(input.sources);
+    const bytes = files.reduce((total, source) => total + Buffer.byteLength(source), 0);
+    return bytes > maxBytes ? `Source is ${bytes} bytes; the limit is ${maxBytes} bytes.` : undefined;
+  }
+
+  public static createOrReuseJob(
+    input: string | SourceBundle,
+    options: AnalysisOptions = {}
+  ): { job: AnalysisJob; reused: boolean } {
+    const codeHash = this.codeHash(input, options);
+    const dedupeTtlMs = this.dedupeTtlMs();
 
     const existingJobId = this.codeHashToJobId.get(codeHash);
     if (existingJobId) {
       const existing = this.jobs.get(existingJobId);
       if (existing) {
-        const terminal =
-          existing.status === 'completed' || existing.status === 'failed' || existing.status === 'cancelled';
+        const terminal = TERMINAL_STATUSES.includes(existing.status);
         const withinTtl = Date.now() - existing.updatedAt <= dedupeTtlMs;
 
         if (!terminal || (terminal && existing.status === 'completed' && withinTtl)) {
@@ -64,7 +120,10 @@ export class AnalysisJobService {
     const now = Date.now();
     const job: AnalysisJobRecord = {
       id,
-      code,
+      codeHash,
+      code: typeof input === 'string' ? input : input.sources[input.entry],
+      project: typeof input === 'string' ? undefined : input,
+      options,
       status: 'queued',
       createdAt: now,
       updatedAt: now,
@@ -79,28 +138,29 @@ export class AnalysisJobService {
     };
     this.jobs.set(id, job);
     this.codeHashToJobId.set(codeHash, id);
-    void this.runJob(id);
+    this.persist(id);
+    void this.runJob(id).finally(() => this.evict());
     return {
       job: this.toPublicJob(job),
       reused: false,
     };
   }
 
-  public static getJob(id: string): AnalysisJob | undefined {
-    const job = this.jobs.get(id);
+  public static async getJob(id: string): Promise<AnalysisJob | undefined> {
+    const job = await this.loadJob(id);
     return job ? this.toPublicJob(job) : undefined;
   }
 
-  public static getInternalJob(id: string): AnalysisJobRecord | undefined {
-    return this.jobs.get(id);
+  public static async getInternalJob(id: string): Promise<AnalysisJobRecord | undefined> {
+    return this.loadJob(id);
   }
 
-  public static cancelJob(id: string): AnalysisJob | undefined {
-    const job = this.jobs.get(id);
+  public static async cancelJob(id: string): Promise<AnalysisJob | undefined> {
+    const job = await this.loadJob(id);
     if (!job) {
       return undefined;
     }
-    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
+    if (TERMINAL_STATUSES.includes(job.status)) {
       return this.toPublicJob(job);
     }
     this.updateJob(id, {
@@ -111,9 +171,105 @@ export class AnalysisJobService {
       message: 'Cancellation requested.',
       timestamp: Date.now(),
     });
+    this.controllers.get(id)?.abort();
+    this.cancelWorkerJobs(job);
     return this.getJob(id);
   }
 
+  /** Cached job, or the stored one loaded into the cache. */
+  private static async loadJob(id: string): Promise<AnalysisJobRecord | undefined> {
+    const cached = this.jobs.get(id);
+    if (cached) {
+      return cached;
+    }
+
+    const stored = await this.repository.findById(id).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Unknown persistence error';
+      console.error(`Failed to load analysis job ${id}: ${message}`);
+      return undefined;
+    });
+    if (!stored) {
+      return undefined;
+    }
+    const job = this.jobs.get(id) || this.remember(stored);
+    this.evict();
+    return job;
+  }
+
+  /**
+   * Caches a stored job. A stored job that is not finished was interrupted by
+   * a restart, since running jobs are never evicted.
+   */
+  private static remember(job: AnalysisJobRecord): AnalysisJobRecord {
+    this.jobs.set(job.id, job);
+    if (job.codeHash) {
+      this.codeHashToJobId.set(job.codeHash, job.id);
+    }
+    if (!TERMINAL_STATUSES.includes(job.status)) {
+      this.cancelWorkerJobs(job);
+      const message = 'Backend restarted before the analysis finished.';
+      this.updateJob(job.id, { status: 'failed', error: message });
+      this.emitProgress(job.id, { phase: 'failed', message, timestamp: Date.now() });
+    }
+    return this.jobs.get(job.id) as AnalysisJobRecord;
+  }
+
+  private static cancelWorkerJobs(job: AnalysisJobRecord): void {
+    for (const workerJobId of job.workerJobIds || []) {
+      void HardhatService.cancelWorkerJob(workerJobId);
+    }
+  }
+
+  /** Drops the least recently updated finished jobs beyond `ANALYSIS_JOB_CACHE_SIZE` from memory. */
+  private static evict(): void {
+    const cacheSize = this.envInt('ANALYSIS_JOB_CACHE_SIZE', 200);
+    const finished = [...this.jobs.values()]
+      .filter((job) => TERMINAL_STATUSES.includes(job.status) && !this.saving.has(job.id))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+    for (const job of finished.slice(Math.max(0, cacheSize))) {
+      this.forget(job.id);
+    }
+  }
+
+  private static forget(id: string): void {
+    const job = this.jobs.get(id);
+    if (job?.codeHash && this.codeHashToJobId.get(job.codeHash) === id) {
+      this.codeHashToJobId.delete(job.codeHash);
+    }
+    this.jobs.delete(id);
+  }
+
+  /**
+   * Applies retention: the repository removes or archives finished jobs older
+   * than `ANALYSIS_JOB_RETENTION_MS` or beyond the newest `ANALYSIS_JOB_MAX_COUNT`,
+   * and the cache drops them as well.
+   */
+  private static async sweep(): Promise<void> {
+    const updatedBefore = Date.now() - this.envInt('ANALYSIS_JOB_RETENTION_MS', 7 * 24 * 60 * 60 * 1000);
+    try {
+      const removed = await this.repository.sweep({
+        updatedBefore,
+        maxCount: this.envInt('ANALYSIS_JOB_MAX_COUNT', 1000),
+        mode: process.env.ANALYSIS_JOB_RETENTION_MODE === 'archive' ? 'archive' : 'delete',
+      });
+      for (const id of removed) {
+        this.forget(id);
+      }
+      if (removed.length > 0) {
+        console.log(`Retention removed ${removed.length} analysis job(s) from ${this.repository.name} store.`);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown persistence error';
+      console.error(`Failed to sweep analysis jobs: ${message}`);
+    }
+
+    for (const job of [...this.jobs.values()]) {
+      if (TERMINAL_STATUSES.includes(job.status) && job.updatedAt < updatedBefore && !this.saving.has(job.id)) {
+        this.forget(job.id);
+      }
+    }
+  }
+
   public static subscribe(jobId: string, handler: (event: AnalysisProgressEvent) => void): () => void {
     const eventName = this.eventName(jobId);
     this.emitter.on(eventName, handler);
@@ -130,8 +286,10 @@ export class AnalysisJobService {
       return;
     }
 
+    const controller = new AbortController();
+    this.controllers.set(id, controller);
     try {
-      const result = await AnalysisService.processContract(job.code, (phase: AnalysisPhase, message: string) => {
+      const result = await AnalysisService.processContract(job.project || job.code, (phase: AnalysisPhase, message: string) => {
         const current = this.jobs.get(id);
         if (!current) {
           return;
@@ -147,7 +305,13 @@ export class AnalysisJobService {
           message,
           timestamp: Date.now(),
         });
-      }, id);
+      }, id, job.options, {
+        signal: controller.signal,
+        onWorkerJob: (workerJobId) => {
+          const current = this.jobs.get(id);
+          this.updateJob(id, { workerJobIds: [...(current?.workerJobIds || []), workerJobId] });
+        },
+      });
 
       const latest = this.jobs.get(id);
       if (!latest) {
@@ -158,6 +322,13 @@ export class AnalysisJobService {
         return;
       }
 
+      // Failed rather than completed without a result, so the cache and the store agree.
+      const resultBytes = Buffer.byteLength(JSON.stringify(result));
+      const maxResultBytes = this.envInt('ANALYSIS_JOB_MAX_RESULT_BYTES', 5 * 1024 * 1024);
+      if (resultBytes > maxResultBytes) {
+        throw new Error(`Result is ${resultBytes} bytes; the storage limit is ${maxResultBytes} bytes.`);
+      }
+
       this.updateJob(id, {
         status: 'completed',
         result,
@@ -189,6 +360,8 @@ export class AnalysisJobService {
         message,
         timestamp: Date.now(),
       });
+    } finally {
+      this.controllers.delete(id);
     }
   }
 
@@ -212,15 +385,42 @@ export class AnalysisJobService {
     current.events.push(event);
     current.updatedAt = Date.now();
     this.jobs.set(id, current);
+    this.persist(id);
     this.emitter.emit(this.eventName(id), event);
   }
 
+  /** Saves the job's latest state; changes made while a save is in flight are coalesced into one more. */
+  private static persist(id: string): void {
+    if (this.saving.has(id)) {
+      this.dirty.add(id);
+      return;
+    }
+    this.saving.add(id);
+
+    void (async () => {
+      try {
+        do {
+          this.dirty.delete(id);
+          const job = this.jobs.get(id);
+          if (job) {
+            await this.repository.save(job);
+          }
+        } while (this.dirty.has(id));
+      } catch (error: unknown) {
+        const message = error instanceof Error ? error.message : 'Unknown persistence error';
+        console.error(`Failed to persist analysis job ${id}: ${message}`);
+      } finally {
+        this.saving.delete(id);
+      }
+    })();
+  }
+
   private static eventName(id: string): string {
     return `analysis-job:${id}`;
   }
 
   private static toPublicJob(job: AnalysisJobRecord): AnalysisJob {
-    const { code: _code, ...rest } = job;
+    const { code: _code, project: _project, codeHash: _codeHash, ...rest } = job;
     return rest;
   }
 
@@ -234,6 +434,7 @@ export class AnalysisJobService {
       ...updates,
       updatedAt: Date.now(),
     });
+    this.persist(id);
   }
 
   private static isCancelledError(error: unknown): boolean {
@@ -241,8 +442,21 @@ export class AnalysisJobService {
     return message.includes('cancel');
   }
 
-  private static codeHash(code: string): string {
-    return crypto.createHash('sha256').update(code.trim()).digest('hex');
+  private static codeHash(input: string | SourceBundle, options: AnalysisOptions): string {
+    const hash = crypto.createHash('sha256');
+    if (typeof input === 'string') {
+      hash.update(input.trim());
+    } else {
+      hash.update(input.entry);
+      for (const file of Object.keys(input.sources).sort()) {
+        hash.update(file).update(input.sources[file].trim());
+      }
+    }
+    return hash.update(JSON.stringify(options)).digest('hex');
+  }
+
+  private static dedupeTtlMs(): number {
+    return this.envInt('ANALYSIS_JOB_DEDUPE_TTL_MS', 10 * 60 * 1000);
   }
 
   private static envInt(envName: string, fallback: number): number {
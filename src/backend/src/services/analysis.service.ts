@@ -1,12 +1,149 @@
-import { AIOptimizationResponse, AIOptimizerService } from './ai-optimizer.service';
+import {
+  ABI_COMPATIBILITY_MODES,
+  AbiCompatibilityMode,
+  AbiCompatibilityService,
+  AbiDiff,
+} from './abi-compatibility.service';
+import {
+  AcceptancePolicy,
+  AcceptancePolicyService,
+  FunctionAcceptance,
+  ResolvedAcceptancePolicy,
+} from './acceptance-policy.service';
+import {
+  AICodeEdit,
+  AIOptimizationResponse,
+  AIOptimizerService,
+  EditGroupMeasurement,
+  OPTIMIZATION_STRATEGIES,
+  OptimizationMeasurement,
+  OptimizationStrategy,
+} from './ai-optimizer.service';
+import { EditPatcherService } from './edit-patcher.service';
 import { GasProfilerService } from './gas-profiler.service';
-import { HardhatService } from './hardhat.service';
+import { RuleOptimizerMode } from './rule-optimizer.service';
+import { SourceDiffService } from './source-diff.service';
+import { StorageLayoutDiff, StorageLayoutService } from './storage-layout.service';
+import { EquivalenceReport, HardhatService, SourceBundle, WorkerProfileOptions } from './hardhat.service';
 
 export type AnalysisPhase = 'static_analysis' | 'dynamic_analysis' | 'ai_optimization';
 export type ProgressCallback = (phase: AnalysisPhase, message: string) => void;
 
+/**
+ * Worker profiling options plus `abiCompatibility`, how strictly candidates must
+ * keep the original ABI (`AI_ABI_COMPATIBILITY`, `strict` by default),
+ * `upgradeable`, which rejects candidates that move existing storage variables,
+ * `acceptancePolicy`, how each function's gas change is weighed, `search`,
+ * how many candidates to generate and rank before the first is accepted,
+ * `refinement`, how many more rounds to run on top of an accepted candidate, and
+ * `ruleOptimizer`, when the AST rule optimizer runs (`RULE_OPTIMIZER_MODE`, else `fallback`).
+ */
+export type AnalysisOptions = WorkerProfileOptions & {
+  abiCompatibility?: AbiCompatibilityMode;
+  upgradeable?: boolean;
+  acceptancePolicy?: AcceptancePolicy;
+  search?: CandidateSearch;
+  refinement?: RefinementOptions;
+  ruleOptimizer?: RuleOptimizerMode;
+};
+
+/**
+ * Up to `rounds` optimization rounds in total (default `AI_REFINEMENT_ROUNDS`,
+ * else 1), each starting from the last accepted candidate; stops after a round
+ * that saves less than `minGainPct` (default `AI_REFINEMENT_MIN_GAIN_PCT`, else 1).
+ */
+export type RefinementOptions = {
+  rounds?: number;
+  minGainPct?: number;
+};
+
+/**
+ * One optimization round. `plateau` rounds were accepted but saved less than
+ * the minimum gain and end refinement; they are `kept` when they saved any gas.
+ * Gas changes are against the round's input, which for round 1 is the original.
+ */
+export type RefinementRound = {
+  round: number;
+  status: 'accepted' | 'plateau' | 'rejected';
+  kept: boolean;
+  reason: string;
+  attempts: number;
+  /** Unified diff of the round's candidate against its input; empty when nothing was accepted. */
+  diff: string;
+  deploymentGas?: string;
+  deploymentGasDelta?: number;
+  functionGasDeltas?: Record<string, number>;
+  deploymentGasRegressionPct?: number;
+  weightedFunctionRegressionPct?: number;
+  /** The round's candidate search, when it ran. */
+  leaderboard?: CandidateRanking[];
+};
+
+/**
+ * Best-of-N search: `candidates` (default `AI_SEARCH_CANDIDATES`, else 1, which
+ * turns it off) are generated with the `strategies` hints in turn (default: all).
+ */
+export type CandidateSearch = {
+  candidates?: number;
+  strategies?: OptimizationStrategy[];
+};
+
+/**
+ * One search candidate's place on the leaderboard. `unchecked` candidates passed
+ * the gas checks but ranked below the accepted one, so their behaviour was not
+ * replayed; `duplicate` and `unchanged` ones were not benchmarked.
+ */
+export type CandidateRanking = {
+  rank: number;
+  /** Generation order, 1-based. */
+  candidate: number;
+  strategy: OptimizationStrategy;
+  temperature: number;
+  provider: string;
+  model: string;
+  status: 'accepted' | 'unchecked' | 'rejected' | 'failed' | 'duplicate' | 'unchanged';
+  reason: string;
+  deploymentGasRegressionPct?: number;
+  weightedFunctionRegressionPct?: number;
+  improved?: boolean;
+  behaviourEquivalent?: boolean;
+};
+
+export const MAX_SEARCH_CANDIDATES = 8;
+
+export const MAX_REFINEMENT_ROUNDS = 5;
+
+/** Cancellation for a running analysis: aborts AI calls and worker waits, and reports started worker jobs. */
+export type AnalysisControl = {
+  signal?: AbortSignal;
+  onWorkerJob?: (workerJobId: string) => void;
+};
+
+/** File name a single `code` submission is analyzed under. */
+const SINGLE_FILE_ENTRY = 'Contract.sol';
+
 type WorkerDynamicProfile = Awaited<ReturnType<typeof HardhatService.getGasProfile>>;
 
+/** How one search candidate's optimizer call differs from the others. */
+type CandidateVariant = {
+  strategy: OptimizationStrategy;
+  temperature: number;
+  providerOffset: number;
+};
+
+/** Optimizer temperatures search candidates rotate through. */
+const SEARCH_TEMPERATURES = [0.15, 0.5, 0.8];
+
+/** Leaderboard order of statuses; candidates with the same status are ordered by gas. */
+const RANKING_ORDER: CandidateRanking['status'][] = [
+  'accepted',
+  'unchecked',
+  'rejected',
+  'failed',
+  'duplicate',
+  'unchanged',
+];
+
 type OptimizationValidation = {
   accepted: boolean;
   reason: string;
@@ -14,82 +151,371 @@ type OptimizationValidation = {
     compiled: boolean;
     abiCompatible: boolean;
     deploymentGasRegressionPct: number;
-    averageMutableFunctionRegressionPct: number;
+    /** Change of the policy-weighted gas total of the counted functions. */
+    weightedFunctionRegressionPct: number;
     improved: boolean;
+    /** Set once a candidate that passed the gas checks was replayed against the original. */
+    behaviourEquivalent?: boolean;
+    /** Set when the worker reported storage layouts; only rejects upgradeable jobs. */
+    storageLayoutCompatible?: boolean;
   };
+  /** The preset (with any job overrides) the gas checks applied, and each function's verdict under it. */
+  policy?: ResolvedAcceptancePolicy;
+  functions?: FunctionAcceptance[];
+  /** ABI differences of the last benchmarked candidate, and the mode they were judged in. */
+  abiDiff?: AbiDiff;
+  storageLayout?: StorageLayoutDiff;
+  equivalence?: EquivalenceReport;
+};
+
+type OptimizationOutcome = {
+  aiResult: AIOptimizationResponse;
+  optimizedSources: Record<string, string>;
+  optimizedDynamicProfile: WorkerDynamicProfile | null;
+  validation: OptimizationValidation;
+  attempts: number;
+  /** Set when candidate search ran, best first. */
+  leaderboard?: CandidateRanking[];
 };
 
 export class AnalysisService {
-  public static async processContract(code: string, onProgress?: ProgressCallback, jobId?: string) {
+  public static async processContract(
+    input: string | SourceBundle,
+    onProgress?: ProgressCallback,
+    jobId?: string,
+    options: AnalysisOptions = {},
+    control: AnalysisControl = {}
+  ) {
+    const project = this.toSourceBundle(input);
+    const code = project.sources[project.entry];
+    const workerHooks = { signal: control.signal, onJobCreated: control.onWorkerJob };
+
     onProgress?.('static_analysis', 'Parsing contract (static analysis)...');
-    const staticProfile = GasProfilerService.analyze(code);
+    const staticProfile = GasProfilerService.analyze(code, options.contractName);
+    // Pin the worker to the contract chosen here so baseline and candidates profile the same target.
+    const profileOptions: AnalysisOptions = { ...options, contractName: staticProfile.contractName };
 
     onProgress?.('dynamic_analysis', 'Getting baseline gas profile (dynamic analysis)...');
-    const baselineDynamicProfile = await HardhatService.getGasProfile(code);
+    const baselineDynamicProfile = await HardhatService.getGasProfile(project, profileOptions, {
+      ...workerHooks,
+      onProgress: (event) => onProgress?.('dynamic_analysis', event.message),
+    });
 
     onProgress?.('ai_optimization', 'Generating and validating optimized candidates...');
-    const optimizationLoop = await this.generateAcceptedOptimization(
-      code,
-      baselineDynamicProfile,
-      onProgress,
-      jobId
-    );
+    const refinement =
+      this.refinementRoundCount(profileOptions) > 1
+        ? await this.refineOptimization(project, baselineDynamicProfile, profileOptions, onProgress, jobId, control)
+        : undefined;
+    const optimizationLoop =
+      refinement?.outcome ||
+      (await this.generateAcceptedOptimization(
+        project,
+        baselineDynamicProfile,
+        profileOptions,
+        onProgress,
+        jobId,
+        control
+      ));
 
     onProgress?.('ai_optimization', 'Analysis complete. Consolidating report...');
     return {
       originalContract: code,
+      entry: project.entry,
+      originalSources: project.sources,
+      optimizedSources: optimizationLoop.optimizedSources,
       staticProfile,
       dynamicProfile: baselineDynamicProfile,
       aiOptimizations: optimizationLoop.aiResult,
       optimizedDynamicProfile: optimizationLoop.optimizedDynamicProfile,
       optimizationValidation: optimizationLoop.validation,
       optimizationAttempts: optimizationLoop.attempts,
+      ...(optimizationLoop.leaderboard ? { candidateLeaderboard: optimizationLoop.leaderboard } : {}),
+      ...(refinement ? { refinementRounds: refinement.rounds } : {}),
     };
   }
 
+  /**
+   * Profiles the unchanged source across optimizer/viaIR settings. No AI involved;
+   * often the cheapest gas win is picking better compiler settings.
+   */
+  public static async sweepCompilerSettings(input: string | SourceBundle, options: AnalysisOptions = {}) {
+    const project = this.toSourceBundle(input);
+    const staticProfile = GasProfilerService.analyze(project.sources[project.entry], options.contractName);
+    const compilerSweep = await HardhatService.getCompilerSweep(project, {
+      ...options,
+      contractName: staticProfile.contractName,
+    });
+    return {
+      staticProfile,
+      compilerSweep,
+    };
+  }
+
+  public static toSourceBundle(input: string | SourceBundle): SourceBundle {
+    return typeof input === 'string' ? { entry: SINGLE_FILE_ENTRY, sources: { [SINGLE_FILE_ENTRY]: input } } : input;
+  }
+
+  /**
+   * With candidate search on, returns the best accepted search candidate, or
+   * runs the retry loop with the search's feedback when none was accepted.
+   */
   private static async generateAcceptedOptimization(
-    originalCode: string,
+    project: SourceBundle,
+    baselineDynamicProfile: WorkerDynamicProfile,
+    options: AnalysisOptions,
+    onProgress?: ProgressCallback,
+    jobId?: string,
+    control: AnalysisControl = {},
+    initialFeedback = 'Initial optimization pass.'
+  ): Promise<OptimizationOutcome> {
+    const count = this.searchCandidateCount(options);
+    if (count <= 1) {
+      return this.runAcceptanceLoop(
+        project,
+        baselineDynamicProfile,
+        options,
+        initialFeedback,
+        onProgress,
+        jobId,
+        control
+      );
+    }
+
+    const search = await this.searchCandidates(
+      project,
+      baselineDynamicProfile,
+      options,
+      count,
+      initialFeedback,
+      onProgress,
+      jobId,
+      control
+    );
+    if (search.winner) {
+      return { ...search.winner, leaderboard: search.leaderboard };
+    }
+    onProgress?.('ai_optimization', 'No search candidate was accepted; falling back to iterative refinement...');
+    const fallback = await this.runAcceptanceLoop(
+      project,
+      baselineDynamicProfile,
+      options,
+      search.feedback,
+      onProgress,
+      jobId,
+      control
+    );
+    return { ...fallback, leaderboard: search.leaderboard };
+  }
+
+  /**
+   * Runs optimization rounds, each on the last kept candidate and its measured
+   * profile. A round's candidate is judged against its input as usual, then
+   * again against the original (gas checks and behaviour) so limits cannot be
+   * exceeded a little at a time. Stops after a rejected round, a round that
+   * saves less than the minimum gain, or the last round. The outcome is the
+   * last kept candidate, validated against the original, with the kept rounds'
+   * suggestions merged.
+   */
+  private static async refineOptimization(
+    project: SourceBundle,
+    baseline: WorkerDynamicProfile,
+    options: AnalysisOptions,
+    onProgress?: ProgressCallback,
+    jobId?: string,
+    control: AnalysisControl = {}
+  ): Promise<{ outcome: OptimizationOutcome; rounds: RefinementRound[] }> {
+    const maxRounds = this.refinementRoundCount(options);
+    const minGainPct = options.refinement?.minGainPct ?? this.envFloat('AI_REFINEMENT_MIN_GAIN_PCT', 1);
+    const policy = AcceptancePolicyService.resolve(options.acceptancePolicy);
+    const rounds: RefinementRound[] = [];
+    const kept: OptimizationOutcome[] = [];
+    let input: SourceBundle = project;
+    let inputProfile = baseline;
+    let first: OptimizationOutcome | undefined;
+
+    for (let round = 1; round <= maxRounds; round++) {
+      const roundProgress: ProgressCallback = (phase, message) =>
+        onProgress?.(phase, `Round ${round}/${maxRounds}: ${message}`);
+      const result = await this.generateAcceptedOptimization(
+        input,
+        inputProfile,
+        options,
+        roundProgress,
+        jobId,
+        control,
+        round === 1
+          ? undefined
+          : `Refinement round ${round}: this contract already contains the optimizations accepted in earlier rounds, and the gas profile was measured on it. Find further savings; keep the earlier changes.`
+      );
+      first = first || result;
+      const record = {
+        round,
+        attempts: result.attempts,
+        ...(result.leaderboard ? { leaderboard: result.leaderboard } : {}),
+      };
+
+      if (!result.validation.accepted || !result.optimizedDynamicProfile) {
+        rounds.push({ ...record, status: 'rejected', kept: false, reason: result.validation.reason, diff: '' });
+        break;
+      }
+      const profile = result.optimizedDynamicProfile;
+      const candidate: SourceBundle = { entry: project.entry, sources: result.optimizedSources };
+      const gas = {
+        diff: SourceDiffService.unified(input.sources, candidate.sources),
+        deploymentGas: profile.gasProfile.deploymentGas,
+        ...this.gasDeltas(inputProfile.gasProfile, profile.gasProfile),
+        deploymentGasRegressionPct: result.validation.checks.deploymentGasRegressionPct,
+        weightedFunctionRegressionPct: result.validation.checks.weightedFunctionRegressionPct,
+      };
+
+      // Round 1 was judged against the original already.
+      const cumulative =
+        round === 1
+          ? result.validation
+          : await this.checkBehaviour(
+              project,
+              candidate,
+              this.validateOptimizedCandidate(baseline, profile, options),
+              options,
+              control,
+              (message) => roundProgress('ai_optimization', `against the original: ${message}`)
+            );
+      if (!cumulative.accepted) {
+        rounds.push({
+          ...record,
+          ...gas,
+          status: 'rejected',
+          kept: false,
+          reason: `Accepted against round ${round - 1}, but not against the original: ${cumulative.reason}`,
+        });
+        break;
+      }
+
+      const gainPct = Math.max(
+        -result.validation.checks.weightedFunctionRegressionPct,
+        policy.includeDeployment ? -result.validation.checks.deploymentGasRegressionPct : 0
+      );
+      const plateau = gainPct < minGainPct;
+      // Later rounds must save gas to be kept; round 1 follows the acceptance policy alone.
+      const keep = round === 1 || result.validation.checks.improved;
+      rounds.push({
+        ...record,
+        ...gas,
+        status: plateau ? 'plateau' : 'accepted',
+        kept: keep,
+        reason: plateau
+          ? `Saved ${gainPct.toFixed(2)}%, below the ${minGainPct}% minimum gain; refinement stopped.`
+          : `Saved ${gainPct.toFixed(2)}%.`,
+      });
+      if (keep) {
+        kept.push({ ...result, validation: cumulative });
+        input = candidate;
+        inputProfile = profile;
+      }
+      if (plateau) {
+        break;
+      }
+    }
+
+    const attempts = rounds.reduce((sum, round) => sum + round.attempts, 0);
+    const last = kept[kept.length - 1];
+    if (!last) {
+      return { outcome: { ...(first as OptimizationOutcome), attempts }, rounds };
+    }
+    return {
+      outcome: {
+        ...last,
+        attempts,
+        leaderboard: kept[0].leaderboard,
+        ...(kept.length > 1
+          ? {
+              aiResult: this.mergeRounds(
+                kept.map((round) => round.aiResult),
+                last.optimizedSources[project.entry]
+              ),
+            }
+          : {}),
+      },
+      rounds,
+    };
+  }
+
+  /** The kept rounds' suggestions and edits, tagged with their round, on top of the last round's response. */
+  private static mergeRounds(results: AIOptimizationResponse[], optimizedContract: string): AIOptimizationResponse {
+    const last = results[results.length - 1];
+    return {
+      ...last,
+      optimizations: results.flatMap((result, i) => result.optimizations.map((item) => ({ ...item, round: i + 1 }))),
+      edits: results.flatMap((result, i) => {
+        const offset = results.slice(0, i).reduce((sum, earlier) => sum + earlier.optimizations.length, 0);
+        return result.edits.map((edit) => ({
+          ...edit,
+          round: i + 1,
+          ...(edit.optimization !== undefined ? { optimization: edit.optimization + offset } : {}),
+        }));
+      }),
+      optimizedContract,
+      totalEstimatedSaving: results.map((result, i) => `Round ${i + 1}: ${result.totalEstimatedSaving}`).join('; '),
+      meta: {
+        ...last.meta,
+        warnings: results.flatMap((result, i) => result.meta.warnings.map((warning) => `Round ${i + 1}: ${warning}`)),
+      },
+    };
+  }
+
+  /** Asks for one candidate and retries with feedback after compile errors and fixable rejections. */
+  private static async runAcceptanceLoop(
+    project: SourceBundle,
     baselineDynamicProfile: WorkerDynamicProfile,
+    options: AnalysisOptions,
+    initialFeedback: string,
     onProgress?: ProgressCallback,
-    jobId?: string
-  ): Promise<{
-    aiResult: AIOptimizationResponse;
-    optimizedDynamicProfile: WorkerDynamicProfile | null;
-    validation: OptimizationValidation;
-    attempts: number;
-  }> {
+    jobId?: string,
+    control: AnalysisControl = {}
+  ): Promise<OptimizationOutcome> {
     const maxAttempts = this.envInt('AI_ACCEPTANCE_MAX_ATTEMPTS', 3);
     let attempts = 0;
     let feedback = '';
+    // Kept for the final report when no candidate is accepted.
+    let lastEquivalence: EquivalenceReport | undefined;
 
     // Run AI optimization ONCE
     onProgress?.('ai_optimization', 'Running AI optimization...');
-    const aiResult = await AIOptimizerService.getOptimizations(originalCode, baselineDynamicProfile.gasProfile, {
-      feedback: 'Initial optimization pass.',
+    let { aiResult, optimizedSources } = await this.proposeCandidate(
+      project,
+      baselineDynamicProfile,
+      initialFeedback,
+      options,
+      onProgress,
       jobId,
-      onProgress: (message) => onProgress?.('ai_optimization', message),
-    });
+      control
+    );
 
-    const candidateCode = aiResult.optimizedContract?.trim() || originalCode;
-    if (!candidateCode || candidateCode === originalCode) {
+    if (!this.hasChanges(project.sources, optimizedSources)) {
       onProgress?.('ai_optimization', 'AI returned unchanged code, skipping validation.');
       return {
         aiResult,
+        optimizedSources: project.sources,
         optimizedDynamicProfile: null,
         validation: {
           accepted: false,
-          reason: 'AI returned unchanged code.',
+          reason:
+            aiResult.meta.isolation && aiResult.meta.isolation.length > 0
+              ? 'No suggested optimization compiled and saved gas on its own.'
+              : 'AI returned unchanged code.',
           checks: {
             compiled: false,
             abiCompatible: false,
             deploymentGasRegressionPct: 0,
-            averageMutableFunctionRegressionPct: 0,
+            weightedFunctionRegressionPct: 0,
             improved: false,
           },
+          policy: AcceptancePolicyService.resolve(options.acceptancePolicy),
         },
         attempts: 1,
       };
     }
+    let candidate: SourceBundle = { entry: project.entry, sources: optimizedSources };
 
     // Retry compilation/validation up to maxAttempts times with error feedback
     for (let i = 0; i < maxAttempts; i++) {
@@ -97,16 +523,25 @@ export class AnalysisService {
       onProgress?.('ai_optimization', `Attempt ${attempts}: compiling and benchmarking optimized candidate...`);
 
       try {
-        const optimizedDynamicProfile = await HardhatService.getGasProfile(candidateCode);
-        const validation = this.validateOptimizedCandidate(
-          baselineDynamicProfile,
-          optimizedDynamicProfile
+        const optimizedDynamicProfile = await HardhatService.getGasProfile(candidate, options, {
+          signal: control.signal,
+          onJobCreated: control.onWorkerJob,
+          onProgress: (event) => onProgress?.('ai_optimization', `Attempt ${attempts}: ${event.message}`),
+        });
+        const validation = await this.checkBehaviour(
+          project,
+          candidate,
+          this.validateOptimizedCandidate(baselineDynamicProfile, optimizedDynamicProfile, options),
+          options,
+          control,
+          (message) => onProgress?.('ai_optimization', `Attempt ${attempts}: ${message}`)
         );
 
         if (validation.accepted) {
           onProgress?.('ai_optimization', `Validation passed! Optimization accepted.`);
           return {
             aiResult,
+            optimizedSources,
             optimizedDynamicProfile,
             validation,
             attempts,
@@ -114,8 +549,36 @@ export class AnalysisService {
         }
 
         onProgress?.('ai_optimization', `Attempt ${attempts} failed validation: ${validation.reason}`);
-        feedback = `Validation failed: ${validation.reason}. Deployment regression: ${validation.checks.deploymentGasRegressionPct.toFixed(1)}%. Function regression: ${validation.checks.averageMutableFunctionRegressionPct.toFixed(1)}%.`;
+        feedback = `Validation failed: ${validation.reason}. Deployment regression: ${validation.checks.deploymentGasRegressionPct.toFixed(1)}%. Weighted function regression: ${validation.checks.weightedFunctionRegressionPct.toFixed(1)}%.`;
+
+        if (validation.equivalence?.equivalent === false) {
+          lastEquivalence = validation.equivalence;
+        }
+
+        // Re-benchmarking the same candidate would repeat the same ABI diff, layout change or divergence,
+        // so ask for a corrected one.
+        const rejection = this.rejectionFeedback(validation, options);
+        if (rejection) {
+          feedback = rejection;
+          onProgress?.('ai_optimization', 'Asking AI for a candidate that preserves the original interface and behaviour...');
+          const corrected = await this.proposeCandidate(
+            project,
+            baselineDynamicProfile,
+            feedback,
+            options,
+            onProgress,
+            jobId,
+            control
+          );
+          if (this.hasChanges(project.sources, corrected.optimizedSources)) {
+            ({ aiResult, optimizedSources } = corrected);
+            candidate = { entry: project.entry, sources: optimizedSources };
+          }
+        }
       } catch (error: unknown) {
+        if (control.signal?.aborted) {
+          throw error;
+        }
         const message = error instanceof Error ? error.message : 'Unknown compile/runtime error';
         onProgress?.('ai_optimization', `Attempt ${attempts} failed validation: ${message}`);
         
@@ -126,32 +589,56 @@ export class AnalysisService {
           onProgress?.('ai_optimization', `Analyzing compilation error for retry...`);
           
           // Retry AI generation with error-specific feedback
-          const retryResult = await AIOptimizerService.getOptimizations(
-            originalCode,
-            baselineDynamicProfile.gasProfile,
-            {
-              feedback,
-              jobId,
-              onProgress: (msg) => onProgress?.('ai_optimization', msg),
-            }
+          const retry = await this.proposeCandidate(
+            project,
+            baselineDynamicProfile,
+            feedback,
+            options,
+            onProgress,
+            jobId,
+            control
           );
           
           // If AI generated new code, try again
-          if (retryResult.optimizedContract && retryResult.optimizedContract !== candidateCode) {
+          if (this.hasChanges(optimizedSources, retry.optimizedSources)) {
             onProgress?.('ai_optimization', `AI generated corrected candidate, attempting compilation...`);
             try {
-              const retryProfile = await HardhatService.getGasProfile(retryResult.optimizedContract);
-              const retryValidation = this.validateOptimizedCandidate(baselineDynamicProfile, retryProfile);
+              const retryProfile = await HardhatService.getGasProfile(
+                { entry: project.entry, sources: retry.optimizedSources },
+                options,
+                {
+                  signal: control.signal,
+                  onJobCreated: control.onWorkerJob,
+                  onProgress: (event) =>
+                    onProgress?.('ai_optimization', `Attempt ${attempts} (corrected): ${event.message}`),
+                }
+              );
+              const retryValidation = await this.checkBehaviour(
+                project,
+                { entry: project.entry, sources: retry.optimizedSources },
+                this.validateOptimizedCandidate(baselineDynamicProfile, retryProfile, options),
+                options,
+                control,
+                (message) => onProgress?.('ai_optimization', `Attempt ${attempts} (corrected): ${message}`)
+              );
               if (retryValidation.accepted) {
                 return {
-                  aiResult: retryResult,
+                  aiResult: retry.aiResult,
+                  optimizedSources: retry.optimizedSources,
                   optimizedDynamicProfile: retryProfile,
                   validation: retryValidation,
                   attempts,
                 };
               }
-              feedback = `Retry also failed: ${retryValidation.reason}`;
+              if (retryValidation.equivalence?.equivalent === false) {
+                lastEquivalence = retryValidation.equivalence;
+              }
+              feedback =
+                this.rejectionFeedback(retryValidation, options) || `Retry also failed: ${retryValidation.reason}`;
             } catch (retryError: unknown) {
+              if (control.signal?.aborted) {
+                throw retryError;
+              }
               const retryMessage = retryError instanceof Error ? retryError.message : 'Unknown retry error';
               feedback = `Retry compilation also failed: ${retryMessage}`;
             }
@@ -163,7 +650,7 @@ export class AnalysisService {
     return {
       aiResult: {
         ...aiResult,
-        optimizedContract: originalCode,
+        optimizedContract: project.sources[project.entry],
         totalEstimatedSaving: `Rejected by acceptance policy after ${attempts} attempts.`,
         meta: {
           ...aiResult.meta,
@@ -173,6 +660,7 @@ export class AnalysisService {
           ],
         },
       },
+      optimizedSources: project.sources,
       optimizedDynamicProfile: null,
       validation: {
         accepted: false,
@@ -181,14 +669,492 @@ export class AnalysisService {
           compiled: false,
           abiCompatible: false,
           deploymentGasRegressionPct: 0,
-          averageMutableFunctionRegressionPct: 0,
+          weightedFunctionRegressionPct: 0,
           improved: false,
+          ...(lastEquivalence ? { behaviourEquivalent: false } : {}),
         },
+        policy: AcceptancePolicyService.resolve(options.acceptancePolicy),
+        ...(lastEquivalence ? { equivalence: lastEquivalence } : {}),
       },
       attempts,
     };
   }
 
+  /**
+   * Generates `count` candidates in parallel, each with its own strategy hint,
+   * temperature and first provider, benchmarks the distinct ones in parallel
+   * (both at most `AI_SEARCH_CONCURRENCY` at a time, since each runs worker jobs)
+   * and ranks them under the job's acceptance policy: passing the gas checks
+   * first, then by weighted function gas, then by deployment gas when the policy
+   * counts it. Candidates that passed are replayed against the original best
+   * first until one behaves the same; that one wins.
+   */
+  private static async searchCandidates(
+    project: SourceBundle,
+    baseline: WorkerDynamicProfile,
+    options: AnalysisOptions,
+    count: number,
+    initialFeedback: string,
+    onProgress: ProgressCallback | undefined,
+    jobId: string | undefined,
+    control: AnalysisControl
+  ): Promise<{ winner?: OptimizationOutcome; leaderboard: CandidateRanking[]; feedback: string }> {
+    const strategies = options.search?.strategies?.length ? options.search.strategies : OPTIMIZATION_STRATEGIES;
+    const variants: CandidateVariant[] = Array.from({ length: count }, (_, i) => ({
+      strategy: strategies[i % strategies.length],
+      temperature: SEARCH_TEMPERATURES[i % SEARCH_TEMPERATURES.length],
+      providerOffset: i,
+    }));
+    const label = (i: number) => `Candidate ${i + 1}/${count} (${variants[i].strategy})`;
+
+    const used = [...new Set(variants.map((variant) => variant.strategy))];
+    onProgress?.('ai_optimization', `Generating ${count} candidates (${used.join(', ')})...`);
+    const concurrency = Math.max(1, this.envInt('AI_SEARCH_CONCURRENCY', 2));
+    const proposals = await this.mapConcurrently(variants, concurrency, (variant, i) =>
+      this.proposeCandidate(
+        project,
+        baseline,
+        initialFeedback,
+        options,
+        (phase, message) => onProgress?.(phase, `${label(i)}: ${message}`),
+        jobId,
+        control,
+        variant
+      )
+    );
+
+    const seen = new Map<string, number>();
+    const entries = proposals.map((proposal, i): Omit<CandidateRanking, 'rank'> => {
+      const entry = {
+        candidate: i + 1,
+        strategy: variants[i].strategy,
+        temperature: variants[i].temperature,
+        provider: proposal.aiResult.meta.provider,
+        model: proposal.aiResult.meta.model,
+      };
+      const key = JSON.stringify(proposal.optimizedSources);
+      if (!this.hasChanges(project.sources, proposal.optimizedSources)) {
+        return { ...entry, status: 'unchanged', reason: 'AI returned unchanged code.' };
+      }
+      if (seen.has(key)) {
+        return { ...entry, status: 'duplicate', reason: `Same code as candidate ${(seen.get(key) as number) + 1}.` };
+      }
+      seen.set(key, i);
+      return { ...entry, status: 'rejected', reason: 'Not benchmarked yet.' };
+    });
+    const distinct = new Set(seen.values());
+
+    onProgress?.('ai_optimization', `Benchmarking ${distinct.size} distinct candidates...`);
+    const benchmarked = await this.mapConcurrently(proposals, concurrency, async (proposal, i) => {
+      if (!distinct.has(i)) {
+        return undefined;
+      }
+      try {
+        const profile = await HardhatService.getGasProfile(
+          { entry: project.entry, sources: proposal.optimizedSources },
+          options,
+          {
+            signal: control.signal,
+            onJobCreated: control.onWorkerJob,
+            onProgress: (event) => onProgress?.('ai_optimization', `${label(i)}: ${event.message}`),
+          }
+        );
+        return { profile, validation: this.validateOptimizedCandidate(baseline, profile, options) };
+      } catch (error: unknown) {
+        if (control.signal?.aborted) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown compile/runtime error';
+        entries[i] = { ...entries[i], status: 'failed', reason: `Failed to compile or profile: ${message}` };
+        return undefined;
+      }
+    });
+
+    const policy = AcceptancePolicyService.resolve(options.acceptancePolicy);
+    const byGas = (a: OptimizationValidation, b: OptimizationValidation) =>
+      a.checks.weightedFunctionRegressionPct - b.checks.weightedFunctionRegressionPct ||
+      (policy.includeDeployment ? a.checks.deploymentGasRegressionPct - b.checks.deploymentGasRegressionPct : 0);
+    const order = benchmarked
+      .flatMap((result, i) => (result ? [i] : []))
+      .sort(
+        (a, b) =>
+          Number(benchmarked[b]!.validation.accepted) - Number(benchmarked[a]!.validation.accepted) ||
+          byGas(benchmarked[a]!.validation, benchmarked[b]!.validation)
+      );
+
+    const validations = new Map<number, OptimizationValidation>();
+    let winner: number | undefined;
+    for (const i of order) {
+      const { validation: gasValidation } = benchmarked[i]!;
+      if (winner !== undefined && gasValidation.accepted) {
+        validations.set(i, gasValidation);
+        entries[i] = {
+          ...entries[i],
+          status: 'unchecked',
+          reason: 'Passed the gas checks; ranked below the accepted candidate.',
+        };
+        continue;
+      }
+      const validation = await this.checkBehaviour(
+        project,
+        { entry: project.entry, sources: proposals[i].optimizedSources },
+        gasValidation,
+        options,
+        control,
+        (message) => onProgress?.('ai_optimization', `${label(i)}: ${message}`)
+      );
+      validations.set(i, validation);
+      entries[i] = { ...entries[i], status: validation.accepted ? 'accepted' : 'rejected', reason: validation.reason };
+      if (validation.accepted) {
+        winner = i;
+      }
+    }
+
+    for (const [i, validation] of validations) {
+      const { deploymentGasRegressionPct, weightedFunctionRegressionPct, improved, behaviourEquivalent } =
+        validation.checks;
+      entries[i] = {
+        ...entries[i],
+        deploymentGasRegressionPct,
+        weightedFunctionRegressionPct,
+        improved,
+        ...(behaviourEquivalent !== undefined ? { behaviourEquivalent } : {}),
+      };
+    }
+    const leaderboard = entries
+      .map((entry, i) => ({ entry, validation: validations.get(i) }))
+      .sort(
+        (a, b) =>
+          RANKING_ORDER.indexOf(a.entry.status) - RANKING_ORDER.indexOf(b.entry.status) ||
+          (a.validation && b.validation ? byGas(a.validation, b.validation) : 0) ||
+          a.entry.candidate - b.entry.candidate
+      )
+      .map(({ entry }, i) => ({ rank: i + 1, ...entry }));
+
+    if (winner !== undefined) {
+      onProgress?.('ai_optimization', `${label(winner)} accepted as the best of ${count} candidates.`);
+      return {
+        winner: {
+          ...proposals[winner],
+          optimizedDynamicProfile: benchmarked[winner]!.profile,
+          validation: validations.get(winner) as OptimizationValidation,
+          attempts: 1,
+        },
+        leaderboard,
+        feedback: '',
+      };
+    }
+
+    // The best rejected candidate's problem is the one most worth fixing.
+    const best = leaderboard.find((entry) => entry.status === 'rejected');
+    const bestValidation = best ? validations.get(best.candidate - 1) : undefined;
+    return {
+      leaderboard,
+      feedback: bestValidation
+        ? this.rejectionFeedback(bestValidation, options) || `Validation failed: ${bestValidation.reason}`
+        : initialFeedback,
+    };
+  }
+
+  /** Asks the AI for a candidate, then keeps only the optimizations that pay off on their own. */
+  private static async proposeCandidate(
+    project: SourceBundle,
+    baseline: WorkerDynamicProfile,
+    feedback: string,
+    options: AnalysisOptions,
+    onProgress: ProgressCallback | undefined,
+    jobId: string | undefined,
+    control: AnalysisControl,
+    variant?: CandidateVariant
+  ): Promise<{ aiResult: AIOptimizationResponse; optimizedSources: Record<string, string> }> {
+    const proposal = await this.optimizeSources(
+      project,
+      baseline.gasProfile,
+      feedback,
+      onProgress,
+      jobId,
+      control.signal,
+      options,
+      variant
+    );
+    return this.isolateOptimizations(project, baseline, proposal, options, control, onProgress);
+  }
+
+  /**
+   * Applies each optimization's edits (or each edit not tied to one) on top of
+   * the baseline alone, profiles it, and keeps it only if it compiles and saves
+   * gas under the job's checks. The candidate is rebuilt from the kept edits,
+   * and every optimization carries its measurement. Skipped when the model
+   * regenerated the contract instead of the edits being applied, or with
+   * `AI_EDIT_ISOLATION=false`.
+   */
+  private static async isolateOptimizations(
+    project: SourceBundle,
+    baseline: WorkerDynamicProfile,
+    proposal: { aiResult: AIOptimizationResponse; optimizedSources: Record<string, string> },
+    options: AnalysisOptions,
+    control: AnalysisControl,
+    onProgress?: ProgressCallback
+  ): Promise<{ aiResult: AIOptimizationResponse; optimizedSources: Record<string, string> }> {
+    const { aiResult } = proposal;
+    if (!this.isEditIsolationEnabled() || aiResult.edits.length === 0) {
+      return proposal;
+    }
+    if (aiResult.meta.patch?.method !== 'patch') {
+      const measurement: OptimizationMeasurement = {
+        status: 'unmeasured',
+        reason: 'The model regenerated the contract, so only the combined candidate was measured.',
+        edits: [],
+      };
+      return {
+        ...proposal,
+        aiResult: { ...aiResult, optimizations: aiResult.optimizations.map((item) => ({ ...item, measurement })) },
+      };
+    }
+
+    const groups = this.groupEdits(aiResult.edits, project.entry);
+    const isolation: EditGroupMeasurement[] = [];
+    for (const [i, group] of groups.entries()) {
+      const label = `Optimization ${i + 1}/${groups.length}`;
+      onProgress?.('ai_optimization', `${label}: measuring its edits on their own...`);
+      isolation.push(
+        await this.measureEditGroup(project, baseline, aiResult.edits, group, options, control, (message) =>
+          onProgress?.('ai_optimization', `${label}: ${message}`)
+        )
+      );
+    }
+
+    const kept = new Set(isolation.filter((group) => group.status === 'kept').flatMap((group) => group.edits));
+    const dropped = isolation.filter((group) => group.status === 'dropped');
+    onProgress?.('ai_optimization', `Kept ${groups.length - dropped.length} of ${groups.length} optimizations.`);
+    const optimizedSources =
+      kept.size > 0 ? this.applyEdits(project, aiResult.edits.filter((_, index) => kept.has(index))) : project.sources;
+
+    return {
+      aiResult: {
+        ...aiResult,
+        optimizations: aiResult.optimizations.map((item, index) => {
+          const group = isolation.find((entry) => entry.optimization === index);
+          const { optimization: _optimization, file: _file, ...measurement } = group || {
+            status: 'unmeasured' as const,
+            reason: 'No edits implement this optimization.',
+            edits: [],
+          };
+          return { ...item, measurement };
+        }),
+        optimizedContract: optimizedSources[project.entry],
+        meta: {
+          ...aiResult.meta,
+          isolation,
+          warnings: [
+            ...aiResult.meta.warnings,
+            ...dropped.map(
+              (group) => `Dropped edits ${group.edits.join(', ')}${group.file ? ` in ${group.file}` : ''}: ${group.reason}`
+            ),
+          ],
+        },
+      },
+      optimizedSources,
+    };
+  }
+
+  /**
+   * Edits of one optimization form a group, across all the files they touch;
+   * edits tied to none stand alone. `file` is set when the group's edits are in one file.
+   */
+  private static groupEdits(
+    edits: AICodeEdit[],
+    entry: string
+  ): Array<{ file?: string; optimization?: number; edits: number[] }> {
+    const groups = new Map<string, { file?: string; optimization?: number; edits: number[] }>();
+    edits.forEach((edit, index) => {
+      const file = edit.file || entry;
+      const key = edit.optimization !== undefined ? `optimization:${edit.optimization}` : `edit:${index}`;
+      const group = groups.get(key) || {
+        file,
+        ...(edit.optimization !== undefined ? { optimization: edit.optimization } : {}),
+        edits: [],
+      };
+      if (group.file !== file) {
+        delete group.file;
+      }
+      group.edits.push(index);
+      groups.set(key, group);
+    });
+    return [...groups.values()];
+  }
+
+  private static async measureEditGroup(
+    project: SourceBundle,
+    baseline: WorkerDynamicProfile,
+    edits: AICodeEdit[],
+    group: { file?: string; optimization?: number; edits: number[] },
+    options: AnalysisOptions,
+    control: AnalysisControl,
+    onProgress: (message: string) => void
+  ): Promise<EditGroupMeasurement> {
+    const identity = {
+      edits: group.edits,
+      ...(group.optimization !== undefined ? { optimization: group.optimization } : {}),
+      ...(Object.keys(project.sources).length > 1 && group.file ? { file: group.file } : {}),
+    };
+    try {
+      const sources = this.applyEdits(project, group.edits.map((index) => edits[index]));
+      const profile = await HardhatService.getGasProfile({ entry: project.entry, sources }, options, {
+        signal: control.signal,
+        onJobCreated: control.onWorkerJob,
+        onProgress: (event) => onProgress(event.message),
+      });
+      const validation = this.validateOptimizedCandidate(baseline, profile, options);
+      const kept = validation.accepted && validation.checks.improved;
+      return {
+        ...identity,
+        status: kept ? 'kept' : 'dropped',
+        reason: kept ? 'Saves gas on its own.' : validation.accepted ? 'No measured gas saving.' : validation.reason,
+        ...this.gasDeltas(baseline.gasProfile, profile.gasProfile),
+      };
+    } catch (error: unknown) {
+      if (control.signal?.aborted) {
+        throw error;
+      }
+      const message = error instanceof Error ? error.message : 'Unknown compile/runtime error';
+      return { ...identity, status: 'dropped', reason: `Failed to compile or profile: ${message}` };
+    }
+  }
+
+  /** The project with `edits` applied to their files; throws if any edit no longer applies. */
+  private static applyEdits(project: SourceBundle, edits: AICodeEdit[]): Record<string, string> {
+    const sources = { ...project.sources };
+    const files = [...new Set(edits.map((edit) => edit.file || project.entry))];
+    for (const file of files) {
+      const patch = EditPatcherService.apply(
+        project.sources[file],
+        edits.filter((edit) => (edit.file || project.entry) === file)
+      );
+      if (!patch.applied || patch.code === undefined) {
+        const failed = patch.edits.find((edit) => edit.status !== 'applied' && edit.status !== 'relocated');
+        throw new Error(`Edits do not apply to ${file}: ${failed?.message || 'unknown reason'}`);
+      }
+      sources[file] = patch.code;
+    }
+    return sources;
+  }
+
+  /** Optimized minus baseline gas, for the deployment and each function measured in both. */
+  private static gasDeltas(
+    baseline: WorkerDynamicProfile['gasProfile'],
+    optimized: WorkerDynamicProfile['gasProfile']
+  ): Pick<OptimizationMeasurement, 'deploymentGasDelta' | 'functionGasDeltas'> {
+    const functionGasDeltas: Record<string, number> = {};
+    for (const [name, before] of Object.entries(baseline.functions)) {
+      const after = optimized.functions[name];
+      if (before.status === 'measured' && after?.status === 'measured') {
+        functionGasDeltas[name] = Number(after.gasUsed) - Number(before.gasUsed);
+      }
+    }
+    return {
+      deploymentGasDelta: Number(optimized.deploymentGas || 0) - Number(baseline.deploymentGas || 0),
+      functionGasDeltas,
+    };
+  }
+
+  /**
+   * Runs the AI optimizer once per project file (entry first) against the
+   * whole-project gas profile and merges the answers. Suggestions and edits
+   * from multi-file projects carry the `file` they apply to.
+   */
+  private static async optimizeSources(
+    project: SourceBundle,
+    gasProfile: WorkerDynamicProfile['gasProfile'],
+    feedback: string,
+    onProgress?: ProgressCallback,
+    jobId?: string,
+    signal?: AbortSignal,
+    options: AnalysisOptions = {},
+    variant?: CandidateVariant
+  ): Promise<{ aiResult: AIOptimizationResponse; optimizedSources: Record<string, string> }> {
+    const files = [project.entry, ...Object.keys(project.sources).filter((file) => file !== project.entry).sort()];
+    const multiFile = files.length > 1;
+    // Other files may use a file's public variables; custom errors change revert data and add ABI entries.
+    const ruleOptions = {
+      standalone: !multiFile,
+      customErrors: this.abiCompatibilityMode(options) === 'lenient' && !this.isEquivalenceCheckEnabled(),
+    };
+    const optimizedSources: Record<string, string> = {};
+    const responses: Array<{ file: string; response: AIOptimizationResponse }> = [];
+
+    for (const file of files) {
+      const response = await AIOptimizerService.getOptimizations(project.sources[file], gasProfile, {
+        feedback: multiFile
+          ? `${feedback} This is ${file}, one file of a multi-file project whose deployed contract is defined in ${project.entry}. Keep imports and any declarations other files use unchanged.`
+          : feedback,
+        jobId,
+        onProgress: (message) => onProgress?.('ai_optimization', multiFile ? `[${file}] ${message}` : message),
+        signal,
+        upgradeable: options.upgradeable === true,
+        ruleMode: options.ruleOptimizer,
+        ruleOptions,
+        ...variant,
+      });
+      optimizedSources[file] = response.optimizedContract?.trim() || project.sources[file];
+      responses.push({ file, response });
+    }
+
+    if (!multiFile) {
+      return { aiResult: responses[0].response, optimizedSources };
+    }
+
+    const entryResponse = responses[0].response;
+    return {
+      aiResult: {
+        optimizations: responses.flatMap(({ file, response }) =>
+          response.optimizations.map((item) => ({ ...item, file }))
+        ),
+        // Edits point at their optimization by index, which shifts once the files' lists are concatenated.
+        edits: responses.flatMap(({ file, response }, i) => {
+          const offset = responses.slice(0, i).reduce((sum, { response: earlier }) => sum + earlier.optimizations.length, 0);
+          return response.edits.map((edit) => ({
+            ...edit,
+            file,
+            ...(edit.optimization !== undefined ? { optimization: edit.optimization + offset } : {}),
+          }));
+        }),
+        optimizedContract: optimizedSources[project.entry],
+        totalEstimatedSaving: responses
+          .map(({ file, response }) => `${file}: ${response.totalEstimatedSaving}`)
+          .join('; '),
+        meta: {
+          ...entryResponse.meta,
+          retriesUsed: responses.reduce((sum, { response }) => sum + response.meta.retriesUsed, 0),
+          schemaRepairAttempts: responses.reduce((sum, { response }) => sum + response.meta.schemaRepairAttempts, 0),
+          verifier: {
+            approved: responses.every(({ response }) => response.meta.verifier.approved),
+            summary: responses.map(({ file, response }) => `${file}: ${response.meta.verifier.summary}`).join(' '),
+            riskFlags: [...new Set(responses.flatMap(({ response }) => response.meta.verifier.riskFlags))],
+          },
+          warnings: responses.flatMap(({ file, response }) =>
+            response.meta.warnings.map((warning) => `${file}: ${warning}`)
+          ),
+          ...(responses.some(({ response }) => response.meta.patch)
+            ? {
+                patch: {
+                  method: responses.some(({ response }) => response.meta.patch?.method === 'llm') ? 'llm' : 'patch',
+                  edits: responses.flatMap(({ file, response }) =>
+                    (response.meta.patch?.edits || []).map((edit) => ({ ...edit, file }))
+                  ),
+                },
+              }
+            : {}),
+        },
+      },
+      optimizedSources,
+    };
+  }
+
+  private static hasChanges(before: Record<string, string>, after: Record<string, string>): boolean {
+    return Object.keys(before).some((file) => before[file] !== after[file]);
+  }
+
   /**
    * Extract specific compilation error types and provide hints for AI correction.
    */
@@ -232,142 +1198,268 @@ export class AnalysisService {
 
   private static validateOptimizedCandidate(
     baseline: WorkerDynamicProfile,
-    optimized: WorkerDynamicProfile
+    optimized: WorkerDynamicProfile,
+    options: AnalysisOptions
   ): OptimizationValidation {
-    const abiCompatible = this.isAbiCompatible(baseline.abi, optimized.abi);
+    const abiDiff = AbiCompatibilityService.compare(baseline.abi, optimized.abi, this.abiCompatibilityMode(options));
+    const abiCompatible = abiDiff.compatible;
+    const storageLayout =
+      baseline.storageLayout && optimized.storageLayout
+        ? StorageLayoutService.compare(baseline.storageLayout, optimized.storageLayout)
+        : undefined;
     const deploymentBefore = Number(baseline.gasProfile.deploymentGas || 0);
     const deploymentAfter = Number(optimized.gasProfile.deploymentGas || 0);
 
+    const policy = AcceptancePolicyService.resolve(options.acceptancePolicy);
+    const evaluation = AcceptancePolicyService.evaluate(
+      baseline.gasProfile.functions,
+      optimized.gasProfile.functions,
+      policy
+    );
+
     const deploymentGasRegressionPct = this.percentChange(deploymentBefore, deploymentAfter);
-    const avgBefore = this.averageFunctionGas(baseline.gasProfile.functions);
-    const avgAfter = this.averageFunctionGas(optimized.gasProfile.functions);
-    const averageMutableFunctionRegressionPct = this.percentChange(avgBefore, avgAfter);
+    const weightedFunctionRegressionPct = evaluation.weightedRegressionPct;
+    const improved = (policy.includeDeployment && deploymentAfter < deploymentBefore) || evaluation.improved;
 
-    const improved = deploymentAfter < deploymentBefore || avgAfter < avgBefore;
-    
-    // More lenient thresholds for hackathon demo
-    // Allow up to 10% regression (optimizations might not always improve every function)
-    const maxAllowedRegressionPct = this.envInt('AI_MAX_ALLOWED_REGRESSION_PCT', 10);
-    const maxAllowedDeploymentRegressionPct = this.envInt('AI_MAX_DEPLOYMENT_REGRESSION_PCT', 20);
+    const checks: OptimizationValidation['checks'] = {
+      compiled: true,
+      abiCompatible,
+      deploymentGasRegressionPct,
+      weightedFunctionRegressionPct,
+      improved,
+      ...(storageLayout ? { storageLayoutCompatible: storageLayout.compatible } : {}),
+    };
+    const reports = { policy, functions: evaluation.functions, abiDiff, ...(storageLayout ? { storageLayout } : {}) };
 
     if (!abiCompatible) {
+      const changes = AbiCompatibilityService.describeChanges(abiDiff.changes);
       return {
         accepted: false,
-        reason: 'ABI compatibility check failed.',
-        checks: {
-          compiled: true,
-          abiCompatible,
-          deploymentGasRegressionPct,
-          averageMutableFunctionRegressionPct,
-          improved,
-        },
+        reason: `ABI compatibility check failed (${abiDiff.mode})${changes.length > 0 ? `: ${changes.join('; ')}` : ''}.`,
+        checks,
+        ...reports,
       };
     }
 
-    if (averageMutableFunctionRegressionPct > maxAllowedRegressionPct) {
+    if (options.upgradeable && !storageLayout) {
       return {
         accepted: false,
-        reason: `Mutable-function gas regression exceeded threshold (${maxAllowedRegressionPct}%).`,
-        checks: {
-          compiled: true,
-          abiCompatible,
-          deploymentGasRegressionPct,
-          averageMutableFunctionRegressionPct,
-          improved,
-        },
+        reason: 'Storage layout check failed: the worker did not report storage layouts.',
+        checks,
+        ...reports,
       };
     }
 
-    if (deploymentGasRegressionPct > maxAllowedDeploymentRegressionPct) {
+    if (options.upgradeable && storageLayout && !storageLayout.compatible) {
       return {
         accepted: false,
-        reason: `Deployment gas regression exceeded secondary threshold (${maxAllowedDeploymentRegressionPct}%).`,
-        checks: {
-          compiled: true,
-          abiCompatible,
-          deploymentGasRegressionPct,
-          averageMutableFunctionRegressionPct,
-          improved,
-        },
+        reason: `Storage layout is not upgrade-safe: ${StorageLayoutService.describeChanges(storageLayout.changes).join('; ')}.`,
+        checks,
+        ...reports,
+      };
+    }
+
+    const failed = evaluation.functions.filter((entry) => entry.status === 'failed');
+    if (failed.length > 0) {
+      return {
+        accepted: false,
+        reason: `Functions failed the acceptance policy: ${failed
+          .map((entry) =>
+            entry.regressionPct === null
+              ? `${entry.function} (${entry.reason.replace(/\.$/, '')})`
+              : `${entry.function} +${entry.regressionPct.toFixed(1)}% (limit ${entry.maxRegressionPct}%)`
+          )
+          .join(', ')}.`,
+        checks,
+        ...reports,
+      };
+    }
+
+    if (weightedFunctionRegressionPct > policy.maxWeightedRegressionPct) {
+      return {
+        accepted: false,
+        reason: `Weighted function gas regression exceeded threshold (${policy.maxWeightedRegressionPct}%).`,
+        checks,
+        ...reports,
+      };
+    }
+
+    if (policy.includeDeployment && deploymentGasRegressionPct > policy.maxDeploymentRegressionPct) {
+      return {
+        accepted: false,
+        reason: `Deployment gas regression exceeded secondary threshold (${policy.maxDeploymentRegressionPct}%).`,
+        checks,
+        ...reports,
       };
     }
 
     return {
       accepted: true,
       reason: improved ? 'Candidate accepted.' : 'Candidate accepted (neutral gas result).',
-      checks: {
-        compiled: true,
-        abiCompatible,
-        deploymentGasRegressionPct,
-        averageMutableFunctionRegressionPct,
-        improved,
-      },
+      checks,
+      ...reports,
     };
   }
 
-  private static isAbiCompatible(baselineAbi: unknown[], optimizedAbi: unknown[]): boolean {
-    const baseline = this.functionSignatures(baselineAbi);
-    const optimized = this.functionSignatures(optimizedAbi);
-    
-    // Check that all baseline functions exist in optimized (same names)
-    // We allow: memory->calldata changes, struct reordering, new errors
-    // We reject: removed functions, changed function names, changed input counts
-    if (baseline.size !== optimized.size) {
-      return false;
-    }
-    for (const signature of baseline) {
-      if (!optimized.has(signature)) {
-        return false;
+  /**
+   * Replays the same call sequences against the original and a candidate that
+   * passed the gas checks; any difference in return data, reverts, events or
+   * view-visible state rejects it. Disabled with `AI_EQUIVALENCE_CHECK=false`.
+   */
+  private static async checkBehaviour(
+    project: SourceBundle,
+    candidate: SourceBundle,
+    validation: OptimizationValidation,
+    options: AnalysisOptions,
+    control: AnalysisControl,
+    onMessage: (message: string) => void
+  ): Promise<OptimizationValidation> {
+    if (!validation.accepted || !this.isEquivalenceCheckEnabled()) {
+      return validation;
+    }
+
+    onMessage('replaying calls against the original and the candidate...');
+    const equivalence = await HardhatService.checkEquivalence(
+      project,
+      candidate,
+      options,
+      {
+        randomSequences: this.envInt('AI_EQUIVALENCE_RANDOM_SEQUENCES', 4),
+        sequenceLength: this.envInt('AI_EQUIVALENCE_SEQUENCE_LENGTH', 12),
+        fuzzRuns: this.envInt('AI_EQUIVALENCE_FUZZ_RUNS', 32),
+      },
+      {
+        signal: control.signal,
+        onJobCreated: control.onWorkerJob,
+        onProgress: (event) => onMessage(event.message),
       }
+    );
+
+    if (equivalence.equivalent) {
+      return { ...validation, checks: { ...validation.checks, behaviourEquivalent: true }, equivalence };
     }
-    return true;
+
+    const functions = Object.entries(equivalence.functions)
+      .filter(([, stats]) => stats.mismatches > 0)
+      .map(([name]) => name);
+    const kinds = [...new Set(equivalence.mismatches.map((mismatch) => mismatch.kind))];
+    return {
+      ...validation,
+      accepted: false,
+      reason: `Behaviour differs from the original (${equivalence.mismatchCount} mismatches: ${
+        functions.length > 0 ? functions.join(', ') : kinds.join(', ')
+      }).`,
+      checks: { ...validation.checks, behaviourEquivalent: false },
+      equivalence,
+    };
   }
 
-  private static functionSignatures(abi: unknown[]): Set<string> {
-    const set = new Set<string>();
-    for (const item of abi as Array<Record<string, unknown>>) {
-      if (item.type !== 'function') {
-        continue;
-      }
-      const name = String(item.name || '');
-      const stateMutability = String(item.stateMutability || '');
-      // Normalize inputs: just count them, don't check exact types
-      // This allows: memory->calldata, struct changes, type widening
-      const inputCount = Array.isArray(item.inputs) ? item.inputs.length : 0;
-      // For view functions, just check name + mutability, not return types
-      set.add(`${name}(${inputCount}args)@${stateMutability}`);
-    }
-    return set;
+  /**
+   * Per-function summary of a failed equivalence check for the AI, with the shrunk
+   * counterexamples when the worker found any and a few raw divergences otherwise.
+   */
+  private static equivalenceFeedback(report: EquivalenceReport): string {
+    const functions = Object.entries(report.functions)
+      .filter(([, stats]) => stats.mismatches > 0)
+      .map(([name, stats]) => `${name} (${stats.mismatches} mismatches in ${stats.calls} calls)`);
+    const counterexamples = (report.counterexamples || []).map((counterexample) => {
+      const calls = counterexample.calls
+        .map(
+          (call) =>
+            `${call.function} from ${call.caller} with ${JSON.stringify(call.args)}${
+              call.value ? ` and ${call.value} wei` : ''
+            }`
+        )
+        .join(', then ');
+      const differences = counterexample.mismatches
+        .map((mismatch) => {
+          const what = mismatch.observed ? `${mismatch.kind} of ${mismatch.observed}` : mismatch.kind;
+          return `${what} (original ${mismatch.original}, optimized ${mismatch.candidate})`;
+        })
+        .join('; ');
+      return `Minimal counterexample: from a fresh deployment, call ${calls}; the last call differs in ${differences}.`;
+    });
+    const examples = report.mismatches.slice(0, 3).map((mismatch) => {
+      const call = mismatch.function
+        ? `${mismatch.function} from ${mismatch.caller} with ${JSON.stringify(mismatch.args || [])}`
+        : 'The contract';
+      const what = mismatch.observed ? `${mismatch.kind} of ${mismatch.observed}` : mismatch.kind;
+      return `${call}: ${what} differs (original ${mismatch.original}, optimized ${mismatch.candidate}).`;
+    });
+    return [
+      'The optimized contract behaves differently from the original.',
+      functions.length > 0 ? `Affected functions: ${functions.join(', ')}.` : '',
+      ...(counterexamples.length > 0 ? counterexamples : examples),
+      'Optimizations must keep return values, revert reasons, emitted events and state changes identical.',
+    ]
+      .filter(Boolean)
+      .join(' ');
   }
 
-  private static averageFunctionGas(
-    functions: Record<
-      string,
-      | {
-          status: 'measured';
-          gasUsed: string;
-          stateMutability: string;
-        }
-      | {
-          status: 'unmeasured';
-          reason: string;
-          stateMutability: string;
-        }
-    >
-  ): number {
-    const numeric = Object.values(functions)
-      .filter(
-        (entry): entry is { status: 'measured'; gasUsed: string; stateMutability: string } =>
-          entry.status === 'measured' &&
-          (entry.stateMutability === 'nonpayable' || entry.stateMutability === 'payable')
-      )
-      .map((entry) => Number(entry.gasUsed))
-      .filter((v) => Number.isFinite(v) && v > 0);
-    if (numeric.length === 0) {
-      return 0;
+  /**
+   * Feedback for rejections the same candidate would hit again (behaviour, ABI,
+   * storage layout), which call for a corrected candidate; undefined otherwise.
+   */
+  private static rejectionFeedback(validation: OptimizationValidation, options: AnalysisOptions): string | undefined {
+    if (validation.equivalence?.equivalent === false) {
+      return this.equivalenceFeedback(validation.equivalence);
+    }
+    if (validation.abiDiff?.compatible === false) {
+      return this.abiFeedback(validation.abiDiff);
+    }
+    if (options.upgradeable && validation.storageLayout?.compatible === false) {
+      return [
+        'The optimized contract changed the storage layout of an upgradeable contract.',
+        ...StorageLayoutService.describeChanges(validation.storageLayout.changes).map((change) => `It ${change}.`),
+        'Keep every state variable and struct field in its original order, type and slot; only append new ones after all existing storage.',
+      ].join(' ');
     }
-    const total = numeric.reduce((a, b) => a + b, 0);
-    return total / numeric.length;
+    return undefined;
+  }
+
+  /** The ABI changes that made a candidate incompatible, for the AI. */
+  private static abiFeedback(diff: AbiDiff): string {
+    return [
+      'The optimized contract changed the public ABI.',
+      ...AbiCompatibilityService.describeChanges(diff.changes).map((change) => `It ${change}.`),
+      'Keep every function, event, custom error and constructor with exactly the original parameter types, return types and state mutability.',
+    ].join(' ');
+  }
+
+  private static abiCompatibilityMode(options: AnalysisOptions): AbiCompatibilityMode {
+    if (options.abiCompatibility) {
+      return options.abiCompatibility;
+    }
+    const raw = (process.env.AI_ABI_COMPATIBILITY || '').toLowerCase();
+    return ABI_COMPATIBILITY_MODES.includes(raw as AbiCompatibilityMode) ? (raw as AbiCompatibilityMode) : 'strict';
+  }
+
+  /** `search.candidates`, else `AI_SEARCH_CANDIDATES`, capped at `MAX_SEARCH_CANDIDATES`. */
+  private static searchCandidateCount(options: AnalysisOptions): number {
+    const count = options.search?.candidates ?? this.envInt('AI_SEARCH_CANDIDATES', 1);
+    return Math.min(Math.max(count, 1), MAX_SEARCH_CANDIDATES);
+  }
+
+  /** `refinement.rounds`, else `AI_REFINEMENT_ROUNDS`, capped at `MAX_REFINEMENT_ROUNDS`. */
+  private static refinementRoundCount(options: AnalysisOptions): number {
+    const rounds = options.refinement?.rounds ?? this.envInt('AI_REFINEMENT_ROUNDS', 1);
+    return Math.min(Math.max(rounds, 1), MAX_REFINEMENT_ROUNDS);
+  }
+
+  private static isEditIsolationEnabled(): boolean {
+    const raw = process.env.AI_EDIT_ISOLATION;
+    if (!raw) {
+      return true;
+    }
+    return ['1', 'true', 'yes', 'on'].includes(raw.toLowerCase());
+  }
+
+  private static isEquivalenceCheckEnabled(): boolean {
+    const raw = process.env.AI_EQUIVALENCE_CHECK;
+    if (!raw) {
+      return true;
+    }
+    return ['1', 'true', 'yes', 'on'].includes(raw.toLowerCase());
   }
 
   private static percentChange(before: number, after: number): number {
@@ -377,6 +1469,30 @@ export class AnalysisService {
     return ((after - before) / before) * 100;
   }
 
+  /** `Promise.all` over `items` with at most `limit` calls of `fn` in flight; stops starting calls after one fails. */
+  private static async mapConcurrently<T, R>(
+    items: T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>
+  ): Promise<R[]> {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    let failed = false;
+    const run = async () => {
+      while (next < items.length && !failed) {
+        const i = next++;
+        try {
+          results[i] = await fn(items[i], i);
+        } catch (error: unknown) {
+          failed = true;
+          throw error;
+        }
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, run));
+    return results;
+  }
+
   private static envInt(envName: string, fallback: number): number {
     const raw = process.env[envName];
     if (!raw) {
@@ -385,4 +1501,13 @@ export class AnalysisService {
     const n = parseInt(raw, 10);
     return Number.isFinite(n) ? n : fallback;
   }
+
+  private static envFloat(envName: string, fallback: number): number {
+    const raw = process.env[envName];
+    if (!raw) {
+      return fallback;
+    }
+    const n = parseFloat(raw);
+    return Number.isFinite(n) ? n : fallback;
+  }
 }
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import type { AICodeEdit } from './ai-optimizer.service';
+import { EditPatcherService } from './edit-patcher.service';
+
+const CODE = [
+  'contract C {',
+  '    uint256 a;',
+  '    uint256 b;',
+  '    function f() external {',
+  '        a = 1;',
+  '    }',
+  '}',
+].join('\n');
+
+const edit = (fields: Partial<AICodeEdit>): AICodeEdit => ({
+  action: 'replace',
+  lineStart: 1,
+  lineEnd: 1,
+  before: '',
+  after: '',
+  rationale: 'test',
+  ...fields,
+});
+
+describe('EditPatcherService.apply', () => {
+  it('replaces the stated lines, ignoring whitespace in before', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ lineStart: 2, lineEnd: 3, before: 'uint256 a;\nuint256   b;', after: '    uint128 a;\n    uint128 b;' }),
+    ]);
+
+    expect(result.applied).toBe(true);
+    expect(result.code?.split('\n').slice(1, 3)).toEqual(['    uint128 a;', '    uint128 b;']);
+    expect(result.edits[0]).toMatchObject({ index: 0, status: 'applied', lineStart: 2, lineEnd: 3 });
+  });
+
+  it('replaces only a snippet that occurs once inside the stated lines', () => {
+    const result = EditPatcherService.apply(CODE, [edit({ lineStart: 5, lineEnd: 5, before: '1', after: '2' })]);
+
+    expect(result.code?.split('\n')[4]).toBe('        a = 2;');
+  });
+
+  it('indents unindented replacement lines like the original', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ lineStart: 5, lineEnd: 5, before: '        a = 1;', after: 'a = 2;\nb = 3;' }),
+    ]);
+
+    expect(result.code?.split('\n').slice(4, 6)).toEqual(['        a = 2;', '        b = 3;']);
+  });
+
+  it('relocates an edit whose before text is unique elsewhere', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ lineStart: 2, lineEnd: 2, before: '    uint256 b;', after: '    uint128 b;' }),
+    ]);
+
+    expect(result.applied).toBe(true);
+    expect(result.code?.split('\n')[2]).toBe('    uint128 b;');
+    expect(result.edits[0]).toMatchObject({ status: 'relocated', lineStart: 3, lineEnd: 3 });
+    expect(result.edits[0].message).toContain('found at line 3, not 2');
+  });
+
+  it('reports an edit whose before text is nowhere as stale', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ lineStart: 2, lineEnd: 2, before: '    uint256 missing;', after: '' }),
+    ]);
+
+    expect(result.applied).toBe(false);
+    expect(result.code).toBeUndefined();
+    expect(result.edits[0]).toMatchObject({ status: 'stale' });
+    expect(result.edits[0].message).toContain('not found');
+  });
+
+  it('reports an edit whose before text is ambiguous as stale', () => {
+    const code = 'contract C {\n    uint256 x;\n    uint256 x;\n}';
+    const result = EditPatcherService.apply(code, [
+      edit({ lineStart: 1, lineEnd: 1, before: '    uint256 x;', after: '    uint128 x;' }),
+    ]);
+
+    expect(result.edits[0]).toMatchObject({ status: 'stale' });
+    expect(result.edits[0].message).toContain('found 2 times elsewhere');
+  });
+
+  it('reports edits without before text as invalid', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ action: 'delete', lineStart: 2, lineEnd: 2 }),
+      edit({ action: 'insert', lineStart: 2, before: '    uint256 a;', after: '  ' }),
+    ]);
+
+    expect(result.edits.map((report) => report.status)).toEqual(['invalid', 'invalid']);
+  });
+
+  it('marks both of two overlapping edits as conflicts', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ lineStart: 2, lineEnd: 3, before: '    uint256 a;\n    uint256 b;', after: '    uint256 c;' }),
+      edit({ lineStart: 3, lineEnd: 3, before: '    uint256 b;', after: '    uint128 b;' }),
+    ]);
+
+    expect(result.applied).toBe(false);
+    expect(result.edits.map((report) => report.status)).toEqual(['conflict', 'conflict']);
+    expect(result.edits[0].message).toBe('overlaps edit 1 at line 3');
+  });
+
+  it('inserts at the top for line 0', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ action: 'insert', lineStart: 0, lineEnd: 0, after: '// SPDX-License-Identifier: MIT' }),
+    ]);
+
+    expect(result.applied).toBe(true);
+    expect(result.code?.split('\n')[0]).toBe('// SPDX-License-Identifier: MIT');
+    expect(result.code?.split('\n')[1]).toBe('contract C {');
+  });
+
+  it('inserts below an anchor line with its indentation', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ action: 'insert', lineStart: 2, lineEnd: 2, before: '    uint256 a;', after: 'uint256 c;' }),
+    ]);
+
+    expect(result.code?.split('\n').slice(1, 4)).toEqual(['    uint256 a;', '    uint256 c;', '    uint256 b;']);
+  });
+
+  it('applies a replace and an insert at its first line in order', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ action: 'insert', lineStart: 1, lineEnd: 1, before: 'contract C {', after: '    uint256 z;' }),
+      edit({ lineStart: 2, lineEnd: 2, before: '    uint256 a;', after: '    uint128 a;' }),
+    ]);
+
+    expect(result.applied).toBe(true);
+    expect(result.code?.split('\n').slice(0, 3)).toEqual(['contract C {', '    uint256 z;', '    uint128 a;']);
+  });
+
+  it('deletes lines, including a snippet that was all its line held', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ action: 'delete', lineStart: 3, lineEnd: 3, before: '    uint256 b;' }),
+      edit({ action: 'delete', lineStart: 5, lineEnd: 5, before: 'a = 1;' }),
+    ]);
+
+    expect(result.code).toBe(['contract C {', '    uint256 a;', '    function f() external {', '    }', '}'].join('\n'));
+  });
+
+  it('keeps CRLF line endings', () => {
+    const result = EditPatcherService.apply(CODE.replace(/\n/g, '\r\n'), [
+      edit({ lineStart: 2, lineEnd: 2, before: '    uint256 a;', after: '    uint128 a;\n    uint128 c;' }),
+    ]);
+
+    expect(result.applied).toBe(true);
+    expect(result.code).toBe(
+      CODE.replace('    uint256 a;', '    uint128 a;\n    uint128 c;').replace(/\n/g, '\r\n')
+    );
+  });
+
+  it('applies nothing when one edit fails, but reports every edit', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ lineStart: 2, lineEnd: 2, before: '    uint256 a;', after: '    uint128 a;' }),
+      edit({ lineStart: 3, lineEnd: 3, before: '    uint256 missing;', after: '' }),
+    ]);
+
+    expect(result.applied).toBe(false);
+    expect(result.code).toBeUndefined();
+    expect(result.edits.map((report) => report.status)).toEqual(['applied', 'stale']);
+  });
+
+  it('reports the file of edits that name one', () => {
+    const result = EditPatcherService.apply(CODE, [
+      edit({ lineStart: 2, lineEnd: 2, before: '    uint256 a;', after: '    uint128 a;', file: 'src/C.sol' }),
+    ]);
+
+    expect(result.edits[0].file).toBe('src/C.sol');
+  });
+});
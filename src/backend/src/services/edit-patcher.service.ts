@@ -0,0 +1,305 @@
+import type { AICodeEdit } from './ai-optimizer.service';
+
+/**
+ * Outcome of one edit. `relocated` edits applied elsewhere than their stated
+ * lines because their `before` text was found exactly once in another place.
+ */
+export type EditApplication = {
+  /** Position in the edit list. */
+  index: number;
+  action: AICodeEdit['action'];
+  status: 'applied' | 'relocated' | 'stale' | 'conflict' | 'invalid';
+  /** Lines the edit applied to (1-based, inclusive), or the stated ones when it did not apply. */
+  lineStart: number;
+  lineEnd: number;
+  message?: string;
+  file?: string;
+};
+
+/** How the optimized source was produced from the edits, and what happened to each edit. */
+export type EditPatchReport = {
+  method: 'patch' | 'llm';
+  edits: EditApplication[];
+};
+
+export type EditPatchResult = {
+  /** Whether every edit applied; `code` is only set then. */
+  applied: boolean;
+  code?: string;
+  edits: EditApplication[];
+};
+
+/** Where an edit lands: whole lines `start..end` (0-based), or a snippet inside them. */
+type Placement = {
+  index: number;
+  edit: AICodeEdit;
+  start: number;
+  end: number;
+  snippet?: string;
+  relocated: boolean;
+};
+
+export class EditPatcherService {
+  /**
+   * Applies `replace`, `delete` and `insert` edits to `code` without a model.
+   * Line numbers are 1-based. `replace` and `delete` cover lines
+   * `lineStart..lineEnd`, and their `before` must match those lines (ignoring
+   * whitespace) or occur verbatim inside them, in which case only that snippet
+   * changes. `insert` adds `after` below line `lineStart` (0 for the top); a
+   * non-empty `before` must match that line. Edits whose `before` is not at the
+   * stated lines are moved when it occurs exactly once elsewhere. Nothing is
+   * applied unless every edit can be, and no two edits touch the same lines.
+   */
+  public static apply(code: string, edits: AICodeEdit[]): EditPatchResult {
+    const eol = code.includes('\r\n') ? '\r\n' : '\n';
+    const lines = code.split(/\r?\n/);
+    const reports: EditApplication[] = [];
+    const placements: Placement[] = [];
+
+    edits.forEach((edit, index) => {
+      const located = this.locate(lines, edit, index);
+      if ('error' in located) {
+        reports.push(this.report(edit, index, located.status, edit.lineStart, edit.lineEnd, located.error));
+        return;
+      }
+      placements.push(located);
+      const [lineStart, lineEnd] = this.lines(located);
+      reports.push(
+        this.report(
+          edit,
+          index,
+          located.relocated ? 'relocated' : 'applied',
+          lineStart,
+          lineEnd,
+          located.relocated ? `before text found at line ${lineStart}, not ${edit.lineStart}` : undefined
+        )
+      );
+    });
+
+    for (const [first, second] of this.overlapping(placements)) {
+      for (const placement of [first, second]) {
+        const other = placement === first ? second : first;
+        reports[placement.index] = {
+          ...reports[placement.index],
+          status: 'conflict',
+          message: `overlaps edit ${other.index} at ${this.describeLines(...this.lines(other))}`,
+        };
+      }
+    }
+
+    if (reports.some((report) => report.status !== 'applied' && report.status !== 'relocated')) {
+      return { applied: false, edits: reports };
+    }
+
+    // Bottom-up, so earlier line numbers stay valid; a range is replaced before an insert at its first line.
+    const patched = [...lines];
+    const order = [...placements].sort(
+      (a, b) => b.start - a.start || Number(a.edit.action === 'insert') - Number(b.edit.action === 'insert')
+    );
+    for (const placement of order) {
+      this.applyPlacement(patched, placement);
+    }
+    return { applied: true, code: patched.join(eol), edits: reports };
+  }
+
+  private static locate(
+    lines: string[],
+    edit: AICodeEdit,
+    index: number
+  ): Placement | { status: 'stale' | 'invalid'; error: string } {
+    const before = edit.before ?? '';
+    const after = edit.after ?? '';
+
+    if (edit.action === 'insert') {
+      if (!after.trim()) {
+        return { status: 'invalid', error: 'insert has no after text' };
+      }
+      const anchor = edit.lineStart;
+      if (!before.trim()) {
+        return Number.isInteger(anchor) && anchor >= 0 && anchor <= lines.length
+          ? { index, edit, start: anchor, end: anchor - 1, relocated: false }
+          : { status: 'invalid', error: `line ${anchor} is outside the file (${lines.length} lines)` };
+      }
+      if (Number.isInteger(anchor) && anchor >= 1 && anchor <= lines.length) {
+        const stated = this.matchLines(lines, anchor - 1, before);
+        if (stated !== null) {
+          return { index, edit, start: anchor + stated, end: anchor + stated - 1, relocated: false };
+        }
+      }
+      const found = this.findLines(lines, before);
+      if (found.length === 1) {
+        const end = found[0] + this.splitLines(before).length;
+        return { index, edit, start: end, end: end - 1, relocated: true };
+      }
+      return { status: 'stale', error: this.staleMessage(found.length, anchor, anchor) };
+    }
+
+    if (!before.trim()) {
+      return { status: 'invalid', error: `${edit.action} has no before text to check` };
+    }
+    const start = edit.lineStart - 1;
+    const end = edit.lineEnd - 1;
+    if (Number.isInteger(start) && Number.isInteger(end) && start >= 0 && end >= start && end < lines.length) {
+      const range = lines.slice(start, end + 1).join('\n');
+      if (this.normalize(range) === this.normalize(before)) {
+        return { index, edit, start, end, relocated: false };
+      }
+      if (this.occurrences(range, before.trim()) === 1) {
+        return { index, edit, start, end, snippet: before.trim(), relocated: false };
+      }
+    }
+
+    const found = this.findLines(lines, before);
+    if (found.length === 1) {
+      return {
+        index,
+        edit,
+        start: found[0],
+        end: found[0] + this.splitLines(before).length - 1,
+        relocated: true,
+      };
+    }
+    if (found.length === 0) {
+      const snippet = before.trim();
+      const at = lines.flatMap((line, lineIndex) => (line.includes(snippet) ? [lineIndex] : []));
+      if (at.length === 1 && this.occurrences(lines[at[0]], snippet) === 1) {
+        return { index, edit, start: at[0], end: at[0], snippet, relocated: true };
+      }
+    }
+    return { status: 'stale', error: this.staleMessage(found.length, edit.lineStart, edit.lineEnd) };
+  }
+
+  private static applyPlacement(lines: string[], placement: Placement): void {
+    const { edit, start, end, snippet } = placement;
+    const after = edit.action === 'delete' ? '' : edit.after ?? '';
+
+    if (edit.action === 'insert') {
+      const indent = this.indentation(lines[start] ?? lines[start - 1] ?? '');
+      lines.splice(start, 0, ...this.indent(this.splitLines(after), indent));
+      return;
+    }
+    if (snippet !== undefined) {
+      const range = lines.slice(start, end + 1).join('\n').replace(snippet, () => after.trim());
+      // A deleted snippet that was all its lines held leaves no blank lines behind.
+      const replacement = range.split('\n').filter((line) => edit.action !== 'delete' || line.trim() !== '');
+      lines.splice(start, end - start + 1, ...replacement);
+      return;
+    }
+    const replacement = after.trim() ? this.indent(this.splitLines(after), this.indentation(lines[start])) : [];
+    lines.splice(start, end - start + 1, ...replacement);
+  }
+
+  /** 1-based lines a placement covers; an insert reports the line it follows. */
+  private static lines(placement: Placement): [number, number] {
+    return placement.edit.action === 'insert'
+      ? [placement.start, placement.start]
+      : [placement.start + 1, placement.end + 1];
+  }
+
+  /** Pairs of placements touching the same lines; an insert conflicts inside a range or at the same spot. */
+  private static overlapping(placements: Placement[]): Array<[Placement, Placement]> {
+    const pairs: Array<[Placement, Placement]> = [];
+    placements.forEach((first, i) => {
+      for (const second of placements.slice(i + 1)) {
+        const firstInsert = first.edit.action === 'insert';
+        const secondInsert = second.edit.action === 'insert';
+        let overlap: boolean;
+        if (firstInsert && secondInsert) {
+          overlap = first.start === second.start;
+        } else if (firstInsert || secondInsert) {
+          const insert = firstInsert ? first : second;
+          const range = firstInsert ? second : first;
+          overlap = insert.start > range.start && insert.start <= range.end;
+        } else {
+          overlap = first.start <= second.end && second.start <= first.end;
+        }
+        if (overlap) {
+          pairs.push([first, second]);
+        }
+      }
+    });
+    return pairs;
+  }
+
+  /** Offset of `text`'s last line when it matches the lines ending at `line`; null otherwise. */
+  private static matchLines(lines: string[], line: number, text: string): number | null {
+    const count = this.splitLines(text).length;
+    const start = line - count + 1;
+    if (start >= 0 && this.normalize(lines.slice(start, line + 1).join('\n')) === this.normalize(text)) {
+      return 0;
+    }
+    // An anchor that starts at the stated line.
+    if (this.normalize(lines.slice(line, line + count).join('\n')) === this.normalize(text)) {
+      return count - 1;
+    }
+    return null;
+  }
+
+  /** Start lines (0-based) of every window of lines matching `text`, ignoring whitespace. */
+  private static findLines(lines: string[], text: string): number[] {
+    const count = this.splitLines(text).length;
+    const target = this.normalize(text);
+    const starts: number[] = [];
+    for (let start = 0; start + count <= lines.length; start++) {
+      if (this.normalize(lines.slice(start, start + count).join('\n')) === target) {
+        starts.push(start);
+      }
+    }
+    return starts;
+  }
+
+  private static describeLines(lineStart: number, lineEnd: number): string {
+    return lineStart === lineEnd ? `line ${lineStart}` : `lines ${lineStart}-${lineEnd}`;
+  }
+
+  private static staleMessage(matches: number, lineStart: number, lineEnd: number): string {
+    const stated = this.describeLines(lineStart, lineEnd);
+    return matches === 0
+      ? `before text not found at ${stated} or anywhere else`
+      : `before text not at ${stated} and found ${matches} times elsewhere`;
+  }
+
+  private static report(
+    edit: AICodeEdit,
+    index: number,
+    status: EditApplication['status'],
+    lineStart: number,
+    lineEnd: number,
+    message?: string
+  ): EditApplication {
+    return {
+      index,
+      action: edit.action,
+      status,
+      lineStart,
+      lineEnd,
+      ...(message ? { message } : {}),
+      ...(edit.file ? { file: edit.file } : {}),
+    };
+  }
+
+  private static occurrences(text: string, snippet: string): number {
+    return snippet ? text.split(snippet).length - 1 : 0;
+  }
+
+  /** Lines of `text` without leading and trailing blank lines. */
+  private static splitLines(text: string): string[] {
+    return text.replace(/^\s*\n|\n\s*$/g, '').split(/\r?\n/);
+  }
+
+  private static normalize(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private static indentation(line: string): string {
+    return /^\s*/.exec(line)?.[0] ?? '';
+  }
+
+  /** Models often drop indentation; unindented replacement lines take the original's. */
+  private static indent(lines: string[], indentation: string): string[] {
+    if (!indentation || lines.some((line) => /^\s/.test(line))) {
+      return lines;
+    }
+    return lines.map((line) => (line ? `${indentation}${line}` : line));
+  }
+}
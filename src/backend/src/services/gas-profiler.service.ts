@@ -1,17 +1,22 @@
 import { parse, visit } from '@solidity-parser/parser';
 
+/** Raised when the target contract cannot be chosen unambiguously from the source. */
+export class ContractSelectionError extends Error {
+  constructor(message: string, public readonly candidates: string[]) {
+    super(message);
+    this.name = 'ContractSelectionError';
+  }
+}
+
 export class GasProfilerService {
-  public static analyze(code: string) {
+  public static analyze(code: string, requestedContractName?: string) {
     try {
       const ast = parse(code, { tolerant: true });
 
       let functions: any[] = [];
-      let contractName = '';
+      const contractName = this.selectContract(code, requestedContractName);
 
       visit(ast, {
-        ContractDefinition: (node) => {
-          contractName = node.name;
-        },
         FunctionDefinition: (node) => {
           functions.push({
             name: node.name,
@@ -29,8 +34,61 @@ export class GasProfilerService {
         functions,
       };
     } catch (e: any) {
+      if (e instanceof ContractSelectionError) {
+        throw e;
+      }
       console.error('Error parsing contract:', e.message);
       throw new Error('Failed to parse Solidity code.');
     }
   }
+
+  /**
+   * Same rule as the worker: the requested `contractName`, else the only
+   * deployable contract, else the only deployable contract nothing else in the
+   * file inherits from.
+   */
+  public static selectContract(code: string, contractName?: string): string {
+    const ast = parse(code, { tolerant: true });
+    const deployable: string[] = [];
+    const inherited = new Set<string>();
+
+    visit(ast, {
+      ContractDefinition: (node) => {
+        if (node.kind === 'contract') {
+          deployable.push(node.name);
+        }
+        for (const base of node.baseContracts) {
+          inherited.add(base.baseName.namePath);
+        }
+      },
+    });
+
+    if (deployable.length === 0) {
+      throw new ContractSelectionError('No deployable contract definition found in source code.', []);
+    }
+
+    if (contractName) {
+      if (!deployable.includes(contractName)) {
+        throw new ContractSelectionError(
+          `Contract "${contractName}" is not a deployable contract in the source. Candidates: ${deployable.join(', ')}.`,
+          deployable
+        );
+      }
+      return contractName;
+    }
+
+    if (deployable.length === 1) {
+      return deployable[0];
+    }
+
+    const leaves = deployable.filter((name) => !inherited.has(name));
+    if (leaves.length === 1) {
+      return leaves[0];
+    }
+
+    throw new ContractSelectionError(
+      `Source defines several deployable contracts; set contractName to one of: ${deployable.join(', ')}.`,
+      deployable
+    );
+  }
 }
@@ -1,13 +1,110 @@
 type WorkerJobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
+export type MeasurementMode = 'estimate' | 'execute';
+
+export const MEASUREMENT_MODES: MeasurementMode[] = ['estimate', 'execute'];
+
+/** Most signers the worker funds per job. */
+export const MAX_SIGNER_COUNT = 20;
+
+export type GasScenarioCall = {
+  function: string;
+  args?: unknown[];
+  from?: number;
+  value?: string;
+  label?: string;
+};
+
+export type GasScenario = {
+  name: string;
+  setup?: GasScenarioCall[];
+  steps: GasScenarioCall[];
+};
+
+export type CompilerSettings = {
+  version?: string;
+  optimizer?: {
+    enabled: boolean;
+    runs?: number;
+  };
+  viaIR?: boolean;
+  evmVersion?: string;
+};
+
+export type ResolvedCompilerSettings = {
+  version: string;
+  versionSource: 'requested' | 'pragma' | 'default';
+  optimizer: {
+    enabled: boolean;
+    runs: number;
+  };
+  viaIR: boolean;
+  evmVersion?: string;
+};
+
+/** Multi-file project: project-relative `.sol` paths to source, plus the file defining the target contract. */
+export type SourceBundle = {
+  entry: string;
+  sources: Record<string, string>;
+};
+
+export type WorkerProfileOptions = {
+  measurementMode?: MeasurementMode;
+  scenarios?: GasScenario[];
+  signerCount?: number;
+  contractName?: string;
+  constructorArgs?: unknown[] | string;
+  compiler?: CompilerSettings;
+};
+
+/** Call sequences of an equivalence check; see the worker's `POST /jobs/equivalence`. */
+export type EquivalenceOptions = {
+  seed?: number;
+  randomSequences?: number;
+  sequenceLength?: number;
+  fuzzRuns?: number;
+};
+
+type GasScenarioStepResult =
+  | {
+      status: 'measured';
+      label: string;
+      function: string;
+      signerIndex: number;
+      from: string;
+      gasUsed: string;
+      estimatedGas: string;
+    }
+  | {
+      status: 'failed';
+      label: string;
+      function: string;
+      signerIndex: number;
+      reason: string;
+    };
+
+type GasScenarioResult = {
+  name: string;
+  status: 'completed' | 'setup_failed';
+  error?: string;
+  steps: GasScenarioStepResult[];
+};
+
 type WorkerGasProfile = {
   deploymentGas: string;
+  measurementMode?: MeasurementMode;
+  signers?: Array<{ index: number; address: string; roles: string[] }>;
   functions: Record<
     string,
     | {
         status: 'measured';
         gasUsed: string;
+        estimatedGas?: string;
+        executedGas?: string;
+        executionError?: string;
         stateMutability: string;
+        caller?: { signerIndex: number; address: string };
+        scenario?: string;
       }
     | {
         status: 'unmeasured';
@@ -15,6 +112,18 @@ type WorkerGasProfile = {
         stateMutability: string;
       }
   >;
+  scenarios?: GasScenarioResult[];
+};
+
+/** A state variable's position from solc's `storageLayout`; struct `members` have slots relative to the struct. */
+export type StorageVariable = {
+  contract: string;
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  bytes: number;
+  members?: StorageVariable[];
 };
 
 type WorkerResult = {
@@ -22,12 +131,80 @@ type WorkerResult = {
   abi: unknown[];
   bytecode: string;
   contractName: string;
+  compiler?: ResolvedCompilerSettings;
+  /** Missing from workers that predate storage layout output. */
+  storageLayout?: StorageVariable[];
 };
 
-type WorkerJobResponse = {
+export type CompilerSweepEntry =
+  | {
+      status: 'profiled';
+      settings: ResolvedCompilerSettings;
+      deploymentGas: string;
+      runtimeGas: string;
+      score: string;
+      functions: Record<string, string>;
+    }
+  | {
+      status: 'failed';
+      settings: CompilerSettings;
+      error: string;
+    };
+
+export type CompilerSweepResult = {
+  contractName: string;
+  expectedCallsPerFunction: number;
+  comparedFunctions: string[];
+  entries: CompilerSweepEntry[];
+  recommended: {
+    settings: ResolvedCompilerSettings;
+    deploymentGas: string;
+    runtimeGas: string;
+    score: string;
+    savingsVsDefaultPct: number | null;
+  } | null;
+};
+
+export type EquivalenceMismatch = {
+  kind: 'deploy' | 'missing' | 'return' | 'revert' | 'events' | 'state';
+  function?: string;
+  sequence?: string;
+  step?: number;
+  caller?: string;
+  args?: unknown[];
+  observed?: string;
+  original: string;
+  candidate: string;
+};
+
+/** A divergence shrunk to a minimal call sequence from a fresh deployment; the last call differs. */
+export type EquivalenceCounterexample = {
+  sequence: string;
+  calls: Array<{ function: string; caller: string; args: unknown[]; value?: string }>;
+  mismatches: Array<Pick<EquivalenceMismatch, 'kind' | 'observed' | 'original' | 'candidate'>>;
+  shrinkRuns: number;
+};
+
+/** Differences the worker observed replaying the same calls against the original and a candidate. */
+export type EquivalenceReport = {
+  equivalent: boolean;
+  seed: number;
+  sequences: number;
+  fuzzCases: number;
+  callsCompared: number;
+  mismatchCount: number;
+  functions: Record<string, { calls: number; mismatches: number }>;
+  mismatches: EquivalenceMismatch[];
+  counterexamples: EquivalenceCounterexample[];
+  skippedFunctions: string[];
+  contractName: string;
+  candidateContractName: string;
+};
+
+type WorkerJobResponse<T> = {
   id: string;
   status: WorkerJobStatus;
-  result?: WorkerResult;
+  result?: T;
   error?: string;
 };
 
@@ -36,31 +213,172 @@ type CreateJobResponse = {
   status: WorkerJobStatus;
 };
 
+/** Step reported by the worker's `GET /jobs/:id/events` stream. */
+export type WorkerProgressEvent = {
+  step: 'writing_sources' | 'compiling' | 'deploying' | 'measuring' | 'scenario' | 'comparing';
+  message: string;
+  current?: number;
+  total?: number;
+  timestamp: number;
+};
+
+export type WorkerJobHooks = {
+  onProgress?: (event: WorkerProgressEvent) => void;
+  /** Called with the worker's job id as soon as the worker accepts the job. */
+  onJobCreated?: (workerJobId: string) => void;
+  /** Stops waiting for the worker job; cancelling it is up to the caller (`cancelWorkerJob`). */
+  signal?: AbortSignal;
+};
+
 export class HardhatService {
-  public static async getGasProfile(code: string) {
+  public static async getGasProfile(
+    input: string | SourceBundle,
+    options: WorkerProfileOptions = {},
+    hooks: WorkerJobHooks = {}
+  ): Promise<WorkerResult> {
+    const timeoutMs = parseInt(process.env.WORKER_TIMEOUT_MS || '180000', 10);
+    return this.runWorkerJob<WorkerResult>('/jobs/analyze', this.toRequestBody(input, options), timeoutMs, hooks);
+  }
+
+  /** Profiles the unchanged source across the worker's optimizer/viaIR matrix. */
+  public static async getCompilerSweep(
+    input: string | SourceBundle,
+    options: WorkerProfileOptions = {},
+    hooks: WorkerJobHooks = {}
+  ): Promise<CompilerSweepResult> {
+    const timeoutMs = parseInt(process.env.WORKER_SWEEP_TIMEOUT_MS || '1800000', 10);
+    return this.runWorkerJob<CompilerSweepResult>('/jobs/compiler-sweep', this.toRequestBody(input, options), timeoutMs, hooks);
+  }
+
+  /**
+   * Replays the same deterministic and seeded random call sequences against the
+   * original and the candidate, comparing return data, reverts, events and state.
+   */
+  public static async checkEquivalence(
+    original: string | SourceBundle,
+    candidate: SourceBundle,
+    options: WorkerProfileOptions = {},
+    equivalence: EquivalenceOptions = {},
+    hooks: WorkerJobHooks = {}
+  ): Promise<EquivalenceReport> {
+    const timeoutMs = parseInt(process.env.WORKER_EQUIVALENCE_TIMEOUT_MS || '600000', 10);
+    const body = {
+      ...this.toRequestBody(original, options),
+      candidateSources: candidate.sources,
+      candidateEntry: candidate.entry,
+      equivalence,
+    };
+    return this.runWorkerJob<EquivalenceReport>('/jobs/equivalence', body, timeoutMs, hooks);
+  }
+
+  /** Asks the worker to cancel a job; failures are logged, since the job may already be gone. */
+  public static async cancelWorkerJob(workerJobId: string): Promise<void> {
+    const workerUrl = process.env.COMPILATION_WORKER_URL || 'http://127.0.0.1:3010';
+    try {
+      const response = await fetch(`${workerUrl}/jobs/${workerJobId}/cancel`, { method: 'POST' });
+      if (!response.ok && response.status !== 404) {
+        console.warn(`Worker refused to cancel job ${workerJobId}: HTTP ${response.status}`);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown worker error';
+      console.warn(`Failed to cancel worker job ${workerJobId}: ${message}`);
+    }
+  }
+
+  private static toRequestBody(input: string | SourceBundle, options: WorkerProfileOptions) {
+    return {
+      ...(typeof input === 'string' ? { code: input } : { sources: input.sources, entry: input.entry }),
+      measurementMode: options.measurementMode,
+      scenarios: options.scenarios,
+      signerCount: options.signerCount,
+      contractName: options.contractName,
+      constructorArgs: options.constructorArgs,
+      compiler: options.compiler,
+    };
+  }
+
+  /**
+   * Submits a worker job and waits for its result, relaying steps from the
+   * worker's event stream. Falls back to polling `GET /jobs/:id` when the
+   * stream is unavailable or drops. `timeoutMs` counts from when the worker
+   * starts processing the job; time in its queue is limited by
+   * `WORKER_QUEUE_TIMEOUT_MS`. Jobs that time out are cancelled.
+   */
+  private static async runWorkerJob<T>(
+    path: string,
+    body: unknown,
+    timeoutMs: number,
+    hooks: WorkerJobHooks = {}
+  ): Promise<T> {
+    const { onProgress, signal } = hooks;
+    this.throwIfAborted(signal);
     const workerUrl = process.env.COMPILATION_WORKER_URL || 'http://127.0.0.1:3010';
     const pollIntervalMs = parseInt(process.env.WORKER_POLL_INTERVAL_MS || '1000', 10);
-    const timeoutMs = parseInt(process.env.WORKER_TIMEOUT_MS || '180000', 10);
 
-    const createResponse = await fetch(`${workerUrl}/jobs/analyze`, {
+    // Not aborted with `signal`: the worker may already have accepted the job, and only the response carries its id.
+    const createResponse = await fetch(`${workerUrl}${path}`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ code }),
+      body: JSON.stringify(body),
     });
 
     if (!createResponse.ok) {
-      throw new Error(`Worker rejected analysis request: HTTP ${createResponse.status}`);
+      const errorBody = (await createResponse.json().catch(() => ({}))) as { error?: string };
+      throw new Error(
+        `Worker rejected analysis request: HTTP ${createResponse.status}${errorBody.error ? ` (${errorBody.error})` : ''}`
+      );
     }
 
     const createPayload = (await createResponse.json()) as CreateJobResponse;
     if (!createPayload.jobId) {
       throw new Error('Worker response did not include a job id.');
     }
+    hooks.onJobCreated?.(createPayload.jobId);
+    if (signal?.aborted) {
+      await this.cancelWorkerJob(createPayload.jobId);
+      this.throwIfAborted(signal);
+    }
+
+    const jobUrl = `${workerUrl}/jobs/${createPayload.jobId}`;
+    const queueTimeoutMs = parseInt(process.env.WORKER_QUEUE_TIMEOUT_MS || '600000', 10);
+    const createdAt = Date.now();
+    // Set on the first progress event or `processing` status; the worker only reports progress while running a job.
+    let startedAt: number | undefined;
+    const deadline = () => (startedAt === undefined ? createdAt + queueTimeoutMs : startedAt + timeoutMs);
+
+    // Errors thrown by `onProgress` (e.g. cancellation) must not be mistaken for stream failures.
+    let progressError: unknown;
+    const relay = (event: WorkerProgressEvent) => {
+      startedAt ??= Date.now();
+      try {
+        onProgress?.(event);
+      } catch (error: unknown) {
+        progressError = error;
+        throw error;
+      }
+    };
+    const streamed = await this.followWorkerEvents<T>(jobUrl, deadline, relay, signal).catch(
+      (error: unknown) => {
+        if (progressError !== undefined && error === progressError) {
+          throw error;
+        }
+        const message = error instanceof Error ? error.message : 'Unknown stream error';
+        console.warn(`Worker event stream unavailable, polling instead: ${message}`);
+        return undefined;
+      }
+    );
+    this.throwIfAborted(signal);
+    if (streamed) {
+      const result = this.settleWorkerJob(streamed);
+      if (result) {
+        return result;
+      }
+    }
 
-    const startedAt = Date.now();
-    while (Date.now() - startedAt < timeoutMs) {
+    while (Date.now() < deadline()) {
       await this.sleep(pollIntervalMs);
-      const statusResponse = await fetch(`${workerUrl}/jobs/${createPayload.jobId}`);
+      this.throwIfAborted(signal);
+      const statusResponse = await fetch(jobUrl);
 
       if (statusResponse.status === 404) {
         throw new Error('Worker job was not found.');
@@ -70,24 +388,121 @@ export class HardhatService {
         throw new Error(`Worker status request failed: HTTP ${statusResponse.status}`);
       }
 
-      const payload = (await statusResponse.json()) as WorkerJobResponse;
-      if (payload.status === 'completed') {
-        if (!payload.result) {
-          throw new Error('Worker completed without returning result.');
-        }
-        return payload.result;
+      const payload = (await statusResponse.json()) as WorkerJobResponse<T>;
+      if (payload.status === 'processing') {
+        startedAt ??= Date.now();
+      }
+      const result = this.settleWorkerJob(payload);
+      if (result) {
+        return result;
       }
+    }
 
-      if (payload.status === 'failed') {
-        throw new Error(payload.error || 'Worker analysis failed.');
+    await this.cancelWorkerJob(createPayload.jobId);
+    throw new Error(
+      startedAt === undefined
+        ? `Worker job was still queued after ${queueTimeoutMs}ms.`
+        : `Worker analysis timed out after ${timeoutMs}ms.`
+    );
+  }
+
+  /** Returns the result of a completed job, throws for failed/cancelled ones, `undefined` while running. */
+  private static settleWorkerJob<T>(payload: WorkerJobResponse<T>): T | undefined {
+    if (payload.status === 'completed') {
+      if (!payload.result) {
+        throw new Error('Worker completed without returning result.');
       }
+      return payload.result;
+    }
 
-      if (payload.status === 'cancelled') {
-        throw new Error(payload.error || 'Worker analysis cancelled.');
+    if (payload.status === 'failed') {
+      throw new Error(payload.error || 'Worker analysis failed.');
+    }
+
+    if (payload.status === 'cancelled') {
+      throw new Error(payload.error || 'Worker analysis cancelled.');
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Reads `GET /jobs/:id/events` until its `done` event, which carries the
+   * finished job. Returns `undefined` if the stream ends early, `deadline()` passes
+   * or `signal` aborts. `deadline()` is re-read, since it moves once the job starts.
+   */
+  private static async followWorkerEvents<T>(
+    jobUrl: string,
+    deadline: () => number,
+    onProgress?: (event: WorkerProgressEvent) => void,
+    signal?: AbortSignal
+  ): Promise<WorkerJobResponse<T> | undefined> {
+    const controller = new AbortController();
+    let timer: NodeJS.Timeout | undefined;
+    const arm = () => {
+      const remaining = deadline() - Date.now();
+      if (remaining <= 0) {
+        controller.abort();
+        return;
+      }
+      timer = setTimeout(arm, remaining);
+    };
+    arm();
+    const onAbort = () => controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    try {
+      const response = await fetch(`${jobUrl}/events`, {
+        headers: { Accept: 'text/event-stream' },
+        signal: controller.signal,
+      });
+      if (!response.ok || !response.body) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = '';
+      for await (const chunk of response.body as unknown as AsyncIterable<Uint8Array>) {
+        buffer += decoder.decode(chunk, { stream: true });
+        let boundary = buffer.indexOf('\n\n');
+        while (boundary !== -1) {
+          const block = buffer.slice(0, boundary);
+          buffer = buffer.slice(boundary + 2);
+          boundary = buffer.indexOf('\n\n');
+
+          const event = block.match(/^event: (.*)$/m)?.[1];
+          const data = block
+            .split('\n')
+            .filter((line) => line.startsWith('data: '))
+            .map((line) => line.slice('data: '.length))
+            .join('\n');
+          if (event === 'progress') {
+            onProgress?.(JSON.parse(data) as WorkerProgressEvent);
+          } else if (event === 'done') {
+            return JSON.parse(data) as WorkerJobResponse<T>;
+          }
+        }
+      }
+      return undefined;
+    } catch (error: unknown) {
+      if (controller.signal.aborted) {
+        return undefined;
       }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      controller.abort();
     }
+  }
 
-    throw new Error(`Worker analysis timed out after ${timeoutMs}ms.`);
+  private static throwIfAborted(signal?: AbortSignal): void {
+    if (!signal?.aborted) {
+      return;
+    }
+    const error = new Error('Worker job cancelled.');
+    error.name = 'AbortError';
+    throw error;
   }
 
   private static async sleep(ms: number): Promise<void> {
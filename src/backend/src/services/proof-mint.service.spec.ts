@@ -0,0 +1,86 @@
+import { Interface, ethers } from 'ethers';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ProofMintService, ProofPayload } from './proof-mint.service';
+
+const registry = vi.hoisted(() => ({
+  abi: [] as string[],
+  mintProof: vi.fn(),
+}));
+
+vi.mock('ethers', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('ethers')>();
+  return {
+    ...actual,
+    JsonRpcProvider: vi.fn(() => ({ getNetwork: async () => ({ chainId: 97n }) })),
+    Contract: vi.fn((_address: string, abi: string[]) => {
+      registry.abi = abi;
+      return { mintProof: registry.mintProof, interface: new actual.Interface(abi) };
+    }),
+  };
+});
+
+const PAYLOAD: ProofPayload = {
+  originalHash: ethers.keccak256(ethers.toUtf8Bytes('original')),
+  optimizedHash: ethers.keccak256(ethers.toUtf8Bytes('optimized')),
+  contractAddress: ethers.ZeroAddress,
+  contractName: 'Token',
+  originalGas: 100000,
+  optimizedGas: 80000,
+  savingsPercentBps: 2000,
+  acceptancePolicy: 'balanced',
+  acceptancePolicyCustomized: true,
+  acceptancePolicyHash: ethers.keccak256(ethers.toUtf8Bytes('policy')),
+};
+
+describe('ProofMintService.mintProof', () => {
+  beforeEach(() => {
+    process.env.CHAIN_RPC_URL = 'http://localhost:8545';
+    // Hardhat's first default account.
+    process.env.BACKEND_SIGNER_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+    process.env.GAS_OPTIMIZATION_REGISTRY_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+  });
+
+  afterEach(() => {
+    delete process.env.CHAIN_RPC_URL;
+    delete process.env.BACKEND_SIGNER_PRIVATE_KEY;
+    delete process.env.GAS_OPTIMIZATION_REGISTRY_ADDRESS;
+    registry.mintProof.mockReset();
+  });
+
+  it('sends the acceptance policy name and hash to the registry', async () => {
+    registry.mintProof.mockImplementation(async () => ({
+      hash: '0xabc',
+      wait: async () => ({
+        logs: [
+          new Interface(registry.abi).encodeEventLog('OptimizationProofMinted', [7n, ethers.ZeroAddress, 'Token', 2000]),
+        ],
+      }),
+    }));
+
+    const receipt = await ProofMintService.mintProof(PAYLOAD);
+
+    const args = registry.mintProof.mock.calls[0];
+    expect(args).toEqual([
+      PAYLOAD.originalHash,
+      PAYLOAD.optimizedHash,
+      PAYLOAD.contractAddress,
+      'Token',
+      100000,
+      80000,
+      2000,
+      'balanced',
+      PAYLOAD.acceptancePolicyHash,
+    ]);
+    // The arguments must also encode against the registry ABI the service declares.
+    const abi = new Interface(registry.abi);
+    const decoded = abi.decodeFunctionData('mintProof', abi.encodeFunctionData('mintProof', args));
+    expect(decoded[7]).toBe('balanced');
+    expect(decoded[8]).toBe(PAYLOAD.acceptancePolicyHash);
+    expect(receipt).toEqual({
+      txHash: '0xabc',
+      tokenId: '7',
+      registryAddress: process.env.GAS_OPTIMIZATION_REGISTRY_ADDRESS,
+      chainId: 97,
+    });
+  });
+});
@@ -2,7 +2,7 @@ import { Contract, JsonRpcProvider, Wallet, ZeroAddress, ethers } from 'ethers';
 import { AnalysisJobRecord } from './analysis-job.service';
 
 const GAS_OPTIMIZATION_REGISTRY_ABI = [
-  'function mintProof(bytes32 _originalHash, bytes32 _optimizedHash, address _contractAddress, string _contractName, uint32 _originalGas, uint32 _optimizedGas, uint16 _savingsPercent) external returns (uint256)',
+  'function mintProof(bytes32 _originalHash, bytes32 _optimizedHash, address _contractAddress, string _contractName, uint32 _originalGas, uint32 _optimizedGas, uint16 _savingsPercent, string _acceptancePolicy, bytes32 _acceptancePolicyHash) external returns (uint256)',
   'event OptimizationProofMinted(uint256 indexed tokenId, address indexed optimizer, string contractName, uint16 savingsPercent)',
 ];
 
@@ -14,6 +14,14 @@ export type ProofPayload = {
   originalGas: number;
   optimizedGas: number;
   savingsPercentBps: number;
+  /**
+   * Preset the optimization was accepted under, whether the job overrode it, and
+   * the keccak256 of the exact resolved policy (keys sorted) so the claim can be checked.
+   * The preset and hash are stored on-chain with the proof; the hash covers `customized`.
+   */
+  acceptancePolicy: string;
+  acceptancePolicyCustomized: boolean;
+  acceptancePolicyHash: string;
 };
 
 export class ProofMintService {
@@ -27,12 +35,23 @@ export class ProofMintService {
     if (!job.result.optimizationValidation?.accepted) {
       throw new Error('Optimization did not pass final acceptance validation.');
     }
+    // Lenient ABI checks tolerate changed parameter and return types, which a proof must not.
+    if (job.result.optimizationValidation.abiDiff?.mode !== 'strict') {
+      throw new Error('Proofs require an optimization accepted under the strict ABI compatibility check.');
+    }
+    const policy = job.result.optimizationValidation.policy;
+    if (!policy?.preset) {
+      throw new Error('Proofs require an optimization accepted under a named acceptance policy.');
+    }
     if (!job.result.optimizedDynamicProfile) {
       throw new Error('Missing optimized gas profile for accepted optimization.');
     }
 
-    const originalCode = job.code;
-    const optimizedCode = job.result.aiOptimizations.optimizedContract || job.code;
+    // Multi-file projects hash every file so the proof covers the whole tree.
+    const originalCode = job.project ? this.canonicalSources(job.project.sources) : job.code;
+    const optimizedCode = job.project
+      ? this.canonicalSources(job.result.optimizedSources)
+      : job.result.aiOptimizations.optimizedContract || job.code;
     const originalGas = this.coerceGas(job.result.dynamicProfile.gasProfile);
     const optimizedGas = this.coerceGas(job.result.optimizedDynamicProfile.gasProfile);
 
@@ -47,6 +66,9 @@ export class ProofMintService {
       originalGas,
       optimizedGas,
       savingsPercentBps,
+      acceptancePolicy: policy.preset,
+      acceptancePolicyCustomized: policy.customized,
+      acceptancePolicyHash: ethers.keccak256(ethers.toUtf8Bytes(this.canonicalJson(policy))),
     };
   }
 
@@ -81,7 +103,9 @@ export class ProofMintService {
       payload.contractName,
       payload.originalGas,
       payload.optimizedGas,
-      payload.savingsPercentBps
+      payload.savingsPercentBps,
+      payload.acceptancePolicy,
+      payload.acceptancePolicyHash
     );
     const receipt = await tx.wait();
 
@@ -107,6 +131,28 @@ export class ProofMintService {
     };
   }
 
+  /** Files in path order, each prefixed with its path, so the hash does not depend on key order. */
+  private static canonicalSources(sources: Record<string, string>): string {
+    return Object.keys(sources)
+      .sort()
+      .map((file) => `// ${file}\n${sources[file]}`)
+      .join('\n');
+  }
+
+  /** JSON with object keys sorted at every level. */
+  private static canonicalJson(value: unknown): string {
+    if (Array.isArray(value)) {
+      return `[${value.map((item) => this.canonicalJson(item)).join(',')}]`;
+    }
+    if (value && typeof value === 'object') {
+      const entries = Object.keys(value)
+        .sort()
+        .map((key) => `${JSON.stringify(key)}:${this.canonicalJson((value as Record<string, unknown>)[key])}`);
+      return `{${entries.join(',')}}`;
+    }
+    return JSON.stringify(value);
+  }
+
   private static coerceGas(gasProfile: {
     deploymentGas: string;
     functions: Record<
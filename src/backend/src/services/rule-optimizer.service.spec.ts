@@ -0,0 +1,375 @@
+import { describe, expect, it } from 'vitest';
+import { EditPatcherService } from './edit-patcher.service';
+import { RuleOptimizerService, RuleOptions } from './rule-optimizer.service';
+
+const contract = (body: string) => `// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+contract C {
+${body}
+}
+`;
+
+/** Rewritten source and the rule types that fired. */
+const optimize = (code: string, options: RuleOptions = { standalone: true }) => {
+  const result = RuleOptimizerService.optimize(code, options);
+  const patched = EditPatcherService.apply(code, result.edits);
+  expect(patched.applied).toBe(true);
+  return { ...result, types: result.optimizations.map((item) => item.type), code: patched.code as string };
+};
+
+describe('RuleOptimizerService.optimize', () => {
+  describe('constant_state', () => {
+    it('marks a never-written variable with a literal initializer constant', () => {
+      const result = optimize(contract('    uint256 private fee = 5 * 2;'));
+
+      expect(result.types).toEqual(['constant_state']);
+      expect(result.code).toContain('    uint256 private constant fee = 5 * 2;');
+    });
+
+    it('leaves written variables alone', () => {
+      const result = optimize(
+        contract('    uint256 private fee = 5;\n    function set() external {\n        fee = 6;\n    }')
+      );
+
+      expect(result.types).not.toContain('constant_state');
+    });
+
+    it('leaves public variables alone unless the file is the whole project', () => {
+      expect(optimize(contract('    uint256 public fee = 5;'), {}).types).toEqual([]);
+      expect(optimize(contract('    uint256 public fee = 5;')).code).toContain('uint256 public constant fee = 5;');
+    });
+
+    it('skips non-value types', () => {
+      expect(optimize(contract('    string private name = "x";')).types).toEqual([]);
+    });
+  });
+
+  describe('immutable_state', () => {
+    it('marks a variable initialized from the deployment context immutable', () => {
+      const result = optimize(contract('    address private deployer = msg.sender;'));
+
+      expect(result.types).toEqual(['immutable_state']);
+      expect(result.code).toContain('    address private immutable deployer = msg.sender;');
+    });
+
+    it('marks a variable assigned once in the constructor immutable', () => {
+      const result = optimize(
+        contract('    address private owner;\n\n    constructor() {\n        owner = msg.sender;\n    }')
+      );
+
+      expect(result.code).toContain('    address private immutable owner;');
+    });
+
+    it('is blocked by a constructor that calls a function', () => {
+      const result = optimize(
+        contract(
+          [
+            '    address private owner;',
+            '',
+            '    constructor() {',
+            '        owner = msg.sender;',
+            '        init();',
+            '    }',
+            '',
+            '    function init() internal {}',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).not.toContain('immutable_state');
+    });
+
+    it('is blocked by a write outside the constructor', () => {
+      const result = optimize(
+        contract(
+          [
+            '    address private owner;',
+            '',
+            '    constructor() {',
+            '        owner = msg.sender;',
+            '    }',
+            '',
+            '    function transfer(address next) external {',
+            '        owner = next;',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).not.toContain('immutable_state');
+    });
+
+    it('is blocked by a constructor that reads the variable again', () => {
+      const result = optimize(
+        contract(
+          [
+            '    uint256 private start;',
+            '    uint256 private end;',
+            '',
+            '    constructor() {',
+            '        start = block.timestamp;',
+            '        end = start + 1;',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.code).not.toContain('immutable start');
+    });
+  });
+
+  it('disables the state variable rules for upgradeable contracts', () => {
+    const code = contract('    uint256 private fee = 5;\n    address private deployer = msg.sender;');
+
+    expect(optimize(code, { standalone: true, upgradeable: true }).types).toEqual([]);
+  });
+
+  it('disables the state variable rules in files with inline assembly', () => {
+    const code = contract(
+      '    uint256 private fee = 5;\n    function f() external pure {\n        assembly {\n            pop(0)\n        }\n    }'
+    );
+
+    expect(optimize(code).types).not.toContain('constant_state');
+  });
+
+  describe('calldata_params', () => {
+    it('turns read-only memory parameters of external functions into calldata', () => {
+      const result = optimize(
+        contract(
+          [
+            '    event Noted(string note);',
+            '',
+            '    function sum(uint256[] memory xs, string memory note) external returns (bytes32) {',
+            '        uint256 total = xs[0] + xs.length;',
+            '        emit Noted(note);',
+            '        return keccak256(abi.encode(total, bytes(note)));',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).toEqual(['calldata_params']);
+      expect(result.code).toContain('function sum(uint256[] calldata xs, string calldata note) external');
+    });
+
+    it('leaves a parameter written through an index in memory', () => {
+      const result = optimize(
+        contract('    function f(uint256[] memory xs) external pure {\n        xs[0] = 1;\n    }')
+      );
+
+      expect(result.types).toEqual([]);
+    });
+
+    it('leaves a parameter passed to another function in memory', () => {
+      const result = optimize(
+        contract(
+          [
+            '    function f(bytes memory data) external pure returns (uint256) {',
+            '        return g(data);',
+            '    }',
+            '',
+            '    function g(bytes memory data) internal pure returns (uint256) {',
+            '        return data.length;',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).toEqual([]);
+    });
+
+    it('leaves public, virtual and struct-array parameters alone', () => {
+      const result = optimize(
+        contract(
+          [
+            '    struct S {',
+            '        uint256 a;',
+            '    }',
+            '',
+            '    function a(uint256[] memory xs) public pure returns (uint256) {',
+            '        return xs.length;',
+            '    }',
+            '',
+            '    function b(uint256[] memory xs) external pure virtual returns (uint256) {',
+            '        return xs.length;',
+            '    }',
+            '',
+            '    function c(S[] memory xs) external pure returns (uint256) {',
+            '        return xs.length;',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).toEqual([]);
+    });
+  });
+
+  describe('cached_array_length', () => {
+    it('caches the length of a storage array the loop cannot change', () => {
+      const result = optimize(
+        contract(
+          [
+            '    uint256[] private items;',
+            '',
+            '    function total() external view returns (uint256 t) {',
+            '        for (uint256 i; i < items.length; ++i) {',
+            '            t += items[i];',
+            '        }',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).toEqual(['cached_array_length']);
+      expect(result.code).toContain(
+        '        uint256 itemsLength = items.length;\n        for (uint256 i; i < itemsLength; ++i) {'
+      );
+    });
+
+    it('is blocked by a loop that pushes', () => {
+      const result = optimize(
+        contract(
+          [
+            '    uint256[] private items;',
+            '',
+            '    function grow() external {',
+            '        for (uint256 i; i < items.length; ++i) {',
+            '            items.push(i);',
+            '        }',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).toEqual([]);
+    });
+
+    it('is blocked for storage arrays by a call that could change them', () => {
+      const result = optimize(
+        contract(
+          [
+            '    uint256[] private items;',
+            '',
+            '    function run() external {',
+            '        for (uint256 i; i < items.length; ++i) {',
+            '            step(i);',
+            '        }',
+            '    }',
+            '',
+            '    function step(uint256 i) internal {}',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).toEqual([]);
+    });
+
+    it('keeps the cached name unique', () => {
+      const result = optimize(
+        contract(
+          [
+            '    function f(uint256[] memory xs, uint256 xsLength) internal pure returns (uint256 t) {',
+            '        for (uint256 i; i < xs.length; ++i) {',
+            '            t += xs[i] + xsLength;',
+            '        }',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.code).toContain('uint256 xsLength2 = xs.length;');
+    });
+  });
+
+  describe('custom_errors', () => {
+    const code = contract(
+      [
+        '    address private owner;',
+        '',
+        '    function f(uint256 amount) external view {',
+        '        require(msg.sender == owner, "Ownable: caller is not the owner");',
+        '        require(amount > 0 && amount < 10, "bad amount");',
+        '        revert("bad amount");',
+        '    }',
+      ].join('\n')
+    );
+
+    it('only runs when custom errors are allowed', () => {
+      expect(optimize(code, { standalone: true }).types).not.toContain('custom_errors');
+    });
+
+    it('replaces revert strings with declared custom errors', () => {
+      const result = optimize(code, { customErrors: true });
+
+      expect(result.types).toEqual(['custom_errors']);
+      expect(result.code).toContain('contract C {\n    error OwnableCallerIsNotTheOwner();\n    error BadAmount();');
+      expect(result.code).toContain('if (!(msg.sender == owner)) revert OwnableCallerIsNotTheOwner();');
+      expect(result.code).toContain('if (!(amount > 0 && amount < 10)) revert BadAmount();');
+      expect(result.code).toContain('        revert BadAmount();');
+    });
+
+    it('leaves requires that are not statements of a block alone', () => {
+      const result = optimize(
+        contract('    function f(bool ok) external pure {\n        if (ok) require(ok, "nope");\n    }'),
+        { customErrors: true }
+      );
+
+      expect(result.types).toEqual([]);
+    });
+  });
+
+  describe('prefix_increment', () => {
+    it('rewrites increments whose old value is unused', () => {
+      const result = optimize(
+        contract(
+          [
+            '    function f(uint256 n) external pure returns (uint256 count, uint256 last) {',
+            '        for (uint256 i; i < n; i++) {',
+            '            count--;',
+            '        }',
+            '        last = count++;',
+            '    }',
+          ].join('\n')
+        )
+      );
+
+      expect(result.types).toEqual(['prefix_increment']);
+      expect(result.code).toContain('for (uint256 i; i < n; ++i) {');
+      expect(result.code).toContain('            --count;');
+      expect(result.code).toContain('        last = count++;');
+    });
+  });
+
+  it('leaves lines an earlier rule rewrote to a later pass', () => {
+    const result = optimize(
+      contract(
+        [
+          '    function f(uint256[] memory xs) external pure returns (uint256 t) {',
+          '        for (uint256 i; i < xs.length; i++) {',
+          '            t += xs[i];',
+          '        }',
+          '    }',
+        ].join('\n')
+      )
+    );
+
+    expect(result.types).toEqual(['calldata_params', 'cached_array_length']);
+    expect(result.code).toContain('for (uint256 i; i < xsLength; i++) {');
+  });
+
+  it('ties each edit to its optimization', () => {
+    const result = optimize(contract('    uint256 private fee = 5;\n    address private deployer = msg.sender;'));
+
+    expect(result.edits.map((edit) => edit.optimization)).toEqual([0, 1]);
+    expect(result.optimizations[1]).toMatchObject({ type: 'immutable_state', line: 6 });
+  });
+
+  it('returns no edits and a warning for code it cannot parse', () => {
+    const result = RuleOptimizerService.optimize('contract C {', { standalone: true });
+
+    expect(result.edits).toEqual([]);
+    expect(result.warnings[0]).toMatch(/^Rule-based optimizer skipped: /);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { SourceDiffService } from './source-diff.service';
+
+const lines = (count: number) => Array.from({ length: count }, (_, i) => `line ${i + 1}`);
+
+describe('SourceDiffService.unified', () => {
+  it('is empty when no file differs', () => {
+    expect(SourceDiffService.unified({ 'C.sol': 'a\nb' }, { 'C.sol': 'a\nb' })).toBe('');
+  });
+
+  it('shows a change with three lines of context, removals before additions', () => {
+    const before = lines(10);
+    const after = [...before];
+    after[4] = 'changed';
+
+    expect(SourceDiffService.unified({ 'C.sol': before.join('\n') }, { 'C.sol': after.join('\n') })).toBe(
+      [
+        '--- a/C.sol',
+        '+++ b/C.sol',
+        '@@ -2,7 +2,7 @@',
+        ' line 2',
+        ' line 3',
+        ' line 4',
+        '-line 5',
+        '+changed',
+        ' line 6',
+        ' line 7',
+        ' line 8',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('joins changes closer than twice the context into one hunk and splits the rest', () => {
+    const before = lines(30);
+    const near = [...before];
+    near[3] = 'x';
+    near[9] = 'y';
+    const far = [...before];
+    far[3] = 'x';
+    far[20] = 'y';
+
+    const hunks = (after: string[]) =>
+      SourceDiffService.unified({ 'C.sol': before.join('\n') }, { 'C.sol': after.join('\n') })
+        .split('\n')
+        .filter((line) => line.startsWith('@@'));
+    expect(hunks(near)).toEqual(['@@ -1,13 +1,13 @@']);
+    expect(hunks(far)).toEqual(['@@ -1,7 +1,7 @@', '@@ -18,7 +18,7 @@']);
+  });
+
+  it('numbers inserted and deleted lines like diff -u', () => {
+    const inserted = SourceDiffService.unified({ 'C.sol': 'a\nb' }, { 'C.sol': 'a\nnew\nb' });
+    expect(inserted).toBe('--- a/C.sol\n+++ b/C.sol\n@@ -1,2 +1,3 @@\n a\n+new\n b\n');
+
+    const deleted = SourceDiffService.unified({ 'C.sol': 'a\nold\nb' }, { 'C.sol': 'a\nb' });
+    expect(deleted).toBe('--- a/C.sol\n+++ b/C.sol\n@@ -1,3 +1,2 @@\n a\n-old\n b\n');
+  });
+
+  it('diffs added and removed files against an empty side', () => {
+    expect(SourceDiffService.unified({}, { 'New.sol': 'a' })).toBe('--- a/New.sol\n+++ b/New.sol\n@@ -0,0 +1,1 @@\n+a\n');
+    expect(SourceDiffService.unified({ 'Old.sol': 'a' }, {})).toBe('--- a/Old.sol\n+++ b/Old.sol\n@@ -1,1 +0,0 @@\n-a\n');
+  });
+
+  it('lists changed files in path order and ignores CRLF differences', () => {
+    const diff = SourceDiffService.unified(
+      { 'b.sol': 'x', 'a.sol': 'x', 'c.sol': 'same\r\nlines' },
+      { 'b.sol': 'y', 'a.sol': 'y', 'c.sol': 'same\nlines' }
+    );
+
+    expect(diff.split('\n').filter((line) => line.startsWith('---'))).toEqual(['--- a/a.sol', '--- a/b.sol']);
+  });
+});
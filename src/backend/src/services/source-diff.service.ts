@@ -0,0 +1,107 @@
+/** Lines of context around each change in a hunk. */
+const CONTEXT_LINES = 3;
+
+/** Above this many line pairs, a changed region is reported as one removal and one addition. */
+const MAX_DIFF_CELLS = 4_000_000;
+
+type DiffLine = { kind: ' ' | '-' | '+'; text: string; before: number; after: number };
+
+export class SourceDiffService {
+  /** Unified diff (`--- a/file`, `+++ b/file`, `@@` hunks) of every file that differs; empty when none does. */
+  public static unified(before: Record<string, string>, after: Record<string, string>): string {
+    const files = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+    return files
+      .filter((file) => before[file] !== after[file])
+      .map((file) => this.unifiedFile(file, before[file] ?? '', after[file] ?? ''))
+      .join('');
+  }
+
+  /** Empty when the versions only differ in line endings. */
+  private static unifiedFile(file: string, before: string, after: string): string {
+    const lines = this.diffLines(before ? before.split(/\r?\n/) : [], after ? after.split(/\r?\n/) : []);
+    const hunks = this.hunks(lines);
+    return hunks.length > 0 ? `--- a/${file}\n+++ b/${file}\n${hunks.join('')}` : '';
+  }
+
+  /** Every line of both versions, in order, marked kept, removed or added. */
+  private static diffLines(a: string[], b: string[]): DiffLine[] {
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+      prefix++;
+    }
+    let suffix = 0;
+    while (
+      suffix < a.length - prefix &&
+      suffix < b.length - prefix &&
+      a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+    ) {
+      suffix++;
+    }
+
+    const lines: DiffLine[] = [];
+    for (let i = 0; i < prefix; i++) {
+      lines.push({ kind: ' ', text: a[i], before: i, after: i });
+    }
+    lines.push(...this.diffMiddle(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix), prefix));
+    for (let i = suffix; i > 0; i--) {
+      lines.push({ kind: ' ', text: a[a.length - i], before: a.length - i, after: b.length - i });
+    }
+    return lines;
+  }
+
+  /** Longest-common-subsequence diff of the region between the common prefix and suffix. */
+  private static diffMiddle(a: string[], b: string[], offset: number): DiffLine[] {
+    if (a.length * b.length > MAX_DIFF_CELLS) {
+      return [
+        ...a.map((text, i) => ({ kind: '-' as const, text, before: offset + i, after: offset })),
+        ...b.map((text, j) => ({ kind: '+' as const, text, before: offset + a.length, after: offset + j })),
+      ];
+    }
+    // common[i][j]: length of the LCS of a[i..] and b[j..].
+    const common = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        common[i][j] = a[i] === b[j] ? common[i + 1][j + 1] + 1 : Math.max(common[i + 1][j], common[i][j + 1]);
+      }
+    }
+    const lines: DiffLine[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length || j < b.length) {
+      if (i < a.length && j < b.length && a[i] === b[j]) {
+        lines.push({ kind: ' ', text: a[i], before: offset + i++, after: offset + j++ });
+      } else if (i < a.length && (j === b.length || common[i + 1][j] >= common[i][j + 1])) {
+        lines.push({ kind: '-', text: a[i], before: offset + i++, after: offset + j });
+      } else {
+        lines.push({ kind: '+', text: b[j], before: offset + i, after: offset + j++ });
+      }
+    }
+    return lines;
+  }
+
+  /** Changes grouped with their context; changes closer than twice the context share a hunk. */
+  private static hunks(lines: DiffLine[]): string[] {
+    const changed = lines.flatMap((line, index) => (line.kind === ' ' ? [] : [index]));
+    const hunks: string[] = [];
+    let next = 0;
+    while (next < changed.length) {
+      const start = Math.max(changed[next] - CONTEXT_LINES, 0);
+      let end = changed[next];
+      while (next + 1 < changed.length && changed[next + 1] - end <= CONTEXT_LINES * 2) {
+        end = changed[++next];
+      }
+      next++;
+      const body = lines.slice(start, Math.min(end + CONTEXT_LINES, lines.length - 1) + 1);
+      const beforeCount = body.filter((line) => line.kind !== '+').length;
+      const afterCount = body.filter((line) => line.kind !== '-').length;
+      // Unified diff numbers lines from 1; an empty side starts at the line before it.
+      const beforeStart = beforeCount > 0 ? body[0].before + 1 : body[0].before;
+      const afterStart = afterCount > 0 ? body[0].after + 1 : body[0].after;
+      hunks.push(
+        `@@ -${beforeStart},${beforeCount} +${afterStart},${afterCount} @@\n` +
+          body.map((line) => `${line.kind}${line.text}\n`).join('')
+      );
+    }
+    return hunks;
+  }
+}
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import type { StorageVariable } from './hardhat.service';
+import { StorageLayoutService } from './storage-layout.service';
+
+const variable = (
+  label: string,
+  slot: number,
+  offset: number,
+  type: string,
+  bytes: number,
+  members?: StorageVariable[]
+): StorageVariable => ({
+  contract: 'contracts/C.sol:C',
+  label,
+  slot: String(slot),
+  offset,
+  type,
+  bytes,
+  ...(members ? { members } : {}),
+});
+
+const BASELINE = [
+  variable('owner', 0, 0, 'address', 20),
+  variable('paused', 0, 20, 'bool', 1),
+  variable('total', 1, 0, 'uint256', 32),
+];
+
+describe('StorageLayoutService.compare', () => {
+  it('accepts an unchanged layout', () => {
+    const diff = StorageLayoutService.compare(BASELINE, BASELINE);
+
+    expect(diff.compatible).toBe(true);
+    expect(diff.changes).toEqual([]);
+    expect(diff.baseline).toBe(BASELINE);
+  });
+
+  it('reports moved, retyped and removed variables as breaking', () => {
+    const diff = StorageLayoutService.compare(BASELINE, [
+      variable('owner', 1, 0, 'address', 20),
+      variable('paused', 0, 0, 'uint8', 1),
+    ]);
+
+    expect(diff.compatible).toBe(false);
+    expect(diff.changes.map((change) => [change.variable, change.change, change.breaking])).toEqual([
+      ['owner', 'moved', true],
+      ['paused', 'retyped', true],
+      ['total', 'removed', true],
+    ]);
+    expect(StorageLayoutService.describeChanges(diff.changes)).toEqual([
+      'moved owner from slot 0 offset 0 to slot 1 offset 0',
+      'changed paused from bool to uint8',
+      'removed total (uint256 at slot 1 offset 0)',
+    ]);
+  });
+
+  it('accepts variables appended after existing storage only', () => {
+    const appended = StorageLayoutService.compare(BASELINE, [...BASELINE, variable('fee', 2, 0, 'uint256', 32)]);
+    expect(appended.compatible).toBe(true);
+    expect(appended.changes).toEqual([
+      { variable: 'fee', change: 'added', breaking: false, optimized: { slot: '2', offset: 0, type: 'uint256' } },
+    ]);
+
+    // Packed into the free bytes of slot 0, which the proxy's existing data may not expect.
+    const packed = StorageLayoutService.compare(BASELINE, [...BASELINE, variable('flag', 0, 21, 'bool', 1)]);
+    expect(packed.compatible).toBe(false);
+    expect(StorageLayoutService.describeChanges(packed.changes)).toEqual([
+      'added flag at slot 0 offset 21, inside existing storage',
+    ]);
+  });
+
+  it('allows appending fields to structs in mappings but not in arrays', () => {
+    const struct = (fields: StorageVariable[], type: string) => [variable('users', 0, 0, type, 32, fields)];
+    const before = [variable('balance', 0, 0, 'uint256', 32)];
+    const after = [...before, variable('nonce', 1, 0, 'uint256', 32)];
+
+    const mapping = 'mapping(address => struct C.User)';
+    expect(StorageLayoutService.compare(struct(before, mapping), struct(after, mapping)).compatible).toBe(true);
+
+    const array = 'struct C.User[]';
+    const diff = StorageLayoutService.compare(struct(before, array), struct(after, array));
+    expect(diff.compatible).toBe(false);
+    expect(diff.changes).toMatchObject([{ variable: 'users.nonce', change: 'added', breaking: true }]);
+  });
+
+  it('reports reordered struct fields by their path', () => {
+    const type = 'mapping(address => struct C.User)';
+    const diff = StorageLayoutService.compare(
+      [variable('users', 0, 0, type, 32, [variable('a', 0, 0, 'uint256', 32), variable('b', 1, 0, 'uint256', 32)])],
+      [variable('users', 0, 0, type, 32, [variable('b', 0, 0, 'uint256', 32), variable('a', 1, 0, 'uint256', 32)])]
+    );
+
+    expect(diff.changes.map((change) => `${change.change} ${change.variable}`)).toEqual([
+      'moved users.a',
+      'moved users.b',
+    ]);
+  });
+});
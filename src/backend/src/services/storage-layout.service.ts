@@ -0,0 +1,128 @@
+import { StorageVariable } from './hardhat.service';
+
+type StoragePosition = { slot: string; offset: number; type: string };
+
+export type StorageLayoutChange = {
+  /** Variable path, e.g. `owner`, or `users.balance` for a field of the struct `users` maps to. */
+  variable: string;
+  change: 'removed' | 'moved' | 'retyped' | 'added';
+  /** Whether data written by the baseline would be read back differently through a proxy. */
+  breaking: boolean;
+  baseline?: StoragePosition;
+  optimized?: StoragePosition;
+};
+
+/** Where the candidate keeps each baseline variable, with both full layouts for the report. */
+export type StorageLayoutDiff = {
+  compatible: boolean;
+  changes: StorageLayoutChange[];
+  baseline: StorageVariable[];
+  optimized: StorageVariable[];
+};
+
+export class StorageLayoutService {
+  /**
+   * Matches variables (and struct fields) by name. Upgrade-safe candidates keep
+   * each one at the same slot, offset and type; new variables are fine only after
+   * all existing storage, and new struct fields only in structs stored in mappings,
+   * where nothing follows them.
+   */
+  public static compare(baseline: StorageVariable[], optimized: StorageVariable[]): StorageLayoutDiff {
+    const changes = this.diff(baseline, optimized, '', true);
+    return {
+      compatible: changes.every((change) => !change.breaking),
+      changes,
+      baseline,
+      optimized,
+    };
+  }
+
+  /** One line per breaking change, e.g. `moved owner from slot 0 offset 0 to slot 1 offset 0`. */
+  public static describeChanges(changes: StorageLayoutChange[]): string[] {
+    const position = (at: StoragePosition) => `slot ${at.slot} offset ${at.offset}`;
+    return changes
+      .filter((change) => change.breaking)
+      .map((change) => {
+        const { baseline, optimized } = change;
+        switch (change.change) {
+          case 'removed':
+            return `removed ${change.variable} (${baseline?.type} at ${baseline ? position(baseline) : '?'})`;
+          case 'retyped':
+            return `changed ${change.variable} from ${baseline?.type} to ${optimized?.type}`;
+          case 'moved':
+            return `moved ${change.variable} from ${baseline ? position(baseline) : '?'} to ${
+              optimized ? position(optimized) : '?'
+            }`;
+          default:
+            return `added ${change.variable} at ${optimized ? position(optimized) : '?'}, inside existing storage`;
+        }
+      });
+  }
+
+  private static diff(
+    baseline: StorageVariable[],
+    optimized: StorageVariable[],
+    prefix: string,
+    appendable: boolean
+  ): StorageLayoutChange[] {
+    const changes: StorageLayoutChange[] = [];
+    const candidates = new Map(optimized.map((variable) => [variable.label, variable]));
+    const baselineLabels = new Set(baseline.map((variable) => variable.label));
+
+    for (const before of baseline) {
+      const after = candidates.get(before.label);
+      const variable = `${prefix}${before.label}`;
+      if (!after) {
+        changes.push({ variable, change: 'removed', breaking: true, baseline: this.position(before) });
+        continue;
+      }
+      if (before.type !== after.type || before.bytes !== after.bytes) {
+        changes.push({
+          variable,
+          change: 'retyped',
+          breaking: true,
+          baseline: this.position(before),
+          optimized: this.position(after),
+        });
+      } else if (before.slot !== after.slot || before.offset !== after.offset) {
+        changes.push({
+          variable,
+          change: 'moved',
+          breaking: true,
+          baseline: this.position(before),
+          optimized: this.position(after),
+        });
+      }
+      if (before.members && after.members) {
+        // Structs in mappings are hashed to their own slots, so fields can be appended; in arrays they cannot.
+        changes.push(...this.diff(before.members, after.members, `${variable}.`, before.type.startsWith('mapping(')));
+      }
+    }
+
+    const end = this.endSlot(baseline);
+    for (const after of optimized) {
+      if (!baselineLabels.has(after.label)) {
+        changes.push({
+          variable: `${prefix}${after.label}`,
+          change: 'added',
+          breaking: !appendable || BigInt(after.slot) < end,
+          optimized: this.position(after),
+        });
+      }
+    }
+    return changes;
+  }
+
+  /** First slot after every variable of the layout. */
+  private static endSlot(layout: StorageVariable[]): bigint {
+    return layout.reduce((end, variable) => {
+      const slots = BigInt(Math.ceil((variable.offset + Math.max(variable.bytes, 1)) / 32));
+      const variableEnd = BigInt(variable.slot) + slots;
+      return variableEnd > end ? variableEnd : end;
+    }, 0n);
+  }
+
+  private static position(variable: StorageVariable): StoragePosition {
+    return { slot: variable.slot, offset: variable.offset, type: variable.type };
+  }
+}
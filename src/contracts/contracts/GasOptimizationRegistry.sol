@@ -13,6 +13,8 @@ contract GasOptimizationRegistry is ERC721, Ownable {
         uint32 originalGas; // average gas before optimization
         uint32 optimizedGas; // average gas after optimization
         uint16 savingsPercent; // basis points. 1800 = 18.00%
+        string acceptancePolicy; // preset the optimization was accepted under
+        bytes32 acceptancePolicyHash; // keccak256(resolved policy as JSON, keys sorted)
         uint32 timestamp;
         uint16 chainId;
         address optimizer;
@@ -39,7 +41,9 @@ contract GasOptimizationRegistry is ERC721, Ownable {
         string memory _contractName,
         uint32 _originalGas,
         uint32 _optimizedGas,
-        uint16 _savingsPercent
+        uint16 _savingsPercent,
+        string memory _acceptancePolicy,
+        bytes32 _acceptancePolicyHash
     ) external returns (uint256) {
         require(_savingsPercent <= 10_000, "Invalid savings percent");
 
@@ -58,6 +62,8 @@ contract GasOptimizationRegistry is ERC721, Ownable {
             originalGas: _originalGas,
             optimizedGas: _optimizedGas,
             savingsPercent: _savingsPercent,
+            acceptancePolicy: _acceptancePolicy,
+            acceptancePolicyHash: _acceptancePolicyHash,
             timestamp: uint32(block.timestamp),
             chainId: uint16(block.chainid),
             optimizer: msg.sender
@@ -22,7 +22,9 @@ describe("GasOptimizationRegistry", function () {
         "MyContract",
         100000,
         80000,
-        2000
+        2000,
+        "balanced",
+        ethers.keccak256(ethers.toUtf8Bytes("policy"))
       );
 
     await expect(tx).to.emit(registry, "OptimizationProofMinted");
@@ -33,6 +35,8 @@ describe("GasOptimizationRegistry", function () {
     expect(proof.originalGas).to.equal(100000);
     expect(proof.optimizedGas).to.equal(80000);
     expect(proof.savingsPercent).to.equal(2000);
+    expect(proof.acceptancePolicy).to.equal("balanced");
+    expect(proof.acceptancePolicyHash).to.equal(ethers.keccak256(ethers.toUtf8Bytes("policy")));
     expect(proof.optimizer).to.equal(user.address);
   });
 
@@ -49,7 +53,9 @@ describe("GasOptimizationRegistry", function () {
           "BadContract",
           100000,
           100000,
-          10001
+          10001,
+          "balanced",
+          ethers.keccak256(ethers.toUtf8Bytes("policy"))
         )
     ).to.be.revertedWith("Invalid savings percent");
   });
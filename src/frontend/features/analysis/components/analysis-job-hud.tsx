@@ -4,13 +4,16 @@ import Link from "next/link";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import gsap from "gsap";
 import { Button } from "@/components/ui/button";
+import { CandidateLeaderboard } from "@/features/analysis/components/candidate-leaderboard";
 import { FunctionGasTable } from "@/features/analysis/components/function-gas-table";
 import { GasChartPanel } from "@/features/analysis/components/gas-chart-panel";
 import { MonacoDiffPanel } from "@/features/analysis/components/monaco-diff-panel";
 import { OptimizationCards } from "@/features/analysis/components/optimization-cards";
 import { ProofActions } from "@/features/analysis/components/proof-actions";
+import { RefinementRounds } from "@/features/analysis/components/refinement-rounds";
 import { ResultsBento } from "@/features/analysis/components/results-bento";
 import { SavingsCalculator } from "@/features/analysis/components/savings-calculator";
+import { StorageLayoutPanel } from "@/features/analysis/components/storage-layout-panel";
 import { playAnalysisCompleteCue } from "@/lib/sound/ui-sound";
 import { useCinematicStore } from "@/store/cinematic";
 import {
@@ -50,6 +53,7 @@ export function AnalysisJobHud({ jobId }: Props) {
   const [isCancelling, setIsCancelling] = useState(false);
   const [focusedLine, setFocusedLine] = useState<number | null>(null);
   const [focusNonce, setFocusNonce] = useState(0);
+  const [focusedFile, setFocusedFile] = useState<string | null>(null);
   const setGlowIntensity = useCinematicStore((s) => s.setGlowIntensity);
 
   const eventSourceRef = useRef<EventSource | null>(null);
@@ -236,8 +240,9 @@ export function AnalysisJobHud({ jobId }: Props) {
     }
   }
 
-  function jumpToDiffLine(line: number) {
+  function jumpToDiffLine(line: number, file?: string) {
     if (!Number.isFinite(line) || line < 1) return;
+    setFocusedFile(file || null);
     setFocusedLine(Math.floor(line));
     setFocusNonce((v) => v + 1);
   }
@@ -318,14 +323,67 @@ export function AnalysisJobHud({ jobId }: Props) {
               </span>
             </p>
             <p className="mt-1 text-sm text-muted">{job.result.optimizationValidation.reason}</p>
+            {job.result.optimizationValidation.policy && (
+              <p className="mt-1 text-sm text-muted">
+                Policy: {job.result.optimizationValidation.policy.preset}
+                {job.result.optimizationValidation.policy.customized ? " (customized)" : ""}
+              </p>
+            )}
             {typeof job.result.optimizationAttempts === "number" && (
               <p className="mt-1 text-sm text-muted">Attempts: {job.result.optimizationAttempts}</p>
             )}
+            {job.result.optimizationValidation.abiDiff && job.result.optimizationValidation.abiDiff.changes.length > 0 && (
+              <div className="mt-3 rounded-lg border border-line bg-surface p-3">
+                <p className="text-xs font-semibold uppercase tracking-wider text-muted">
+                  ABI changes ({job.result.optimizationValidation.abiDiff.mode})
+                </p>
+                <ul className="mt-2 font-mono text-xs text-muted">
+                  {job.result.optimizationValidation.abiDiff.changes.map((change, index) => (
+                    <li key={index}>
+                      {change.change === "changed"
+                        ? `changed ${change.baseline} → ${change.optimized}`
+                        : `${change.change} ${change.baseline || change.optimized}`}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {job.result.optimizationValidation.equivalence?.counterexamples?.map((counterexample, index) => (
+              <div key={index} className="mt-3 rounded-lg border border-line bg-surface p-3">
+                <p className="text-xs font-semibold uppercase tracking-wider text-danger">Counterexample</p>
+                <ol className="mt-2 list-decimal pl-5 font-mono text-xs text-muted">
+                  {counterexample.calls.map((call, step) => (
+                    <li key={step}>
+                      {call.function} from {call.caller} with {JSON.stringify(call.args)}
+                      {call.value ? ` and ${call.value} wei` : ""}
+                    </li>
+                  ))}
+                </ol>
+                {counterexample.mismatches.map((mismatch, i) => (
+                  <p key={i} className="mt-1 text-xs text-muted">
+                    {mismatch.observed ? `${mismatch.kind} of ${mismatch.observed}` : mismatch.kind}: original{" "}
+                    {mismatch.original}, optimized {mismatch.candidate}
+                  </p>
+                ))}
+              </div>
+            ))}
             {job.result.aiOptimizations?.meta && (
               <p className="mt-1 text-sm text-muted">
                 AI model: {job.result.aiOptimizations.meta.provider}/{job.result.aiOptimizations.meta.model}
               </p>
             )}
+            {job.result.aiOptimizations?.meta?.patch && (
+              <p className="mt-1 text-sm text-muted">
+                Edits:{" "}
+                {job.result.aiOptimizations.meta.patch.method === "patch"
+                  ? `${job.result.aiOptimizations.meta.patch.edits.length} applied directly`
+                  : `regenerated by the model (${
+                      job.result.aiOptimizations.meta.patch.edits.filter(
+                        (edit) => edit.status !== "applied" && edit.status !== "relocated"
+                      ).length
+                    } could not be applied)`}
+              </p>
+            )}
           </div>
         )}
 
@@ -334,6 +392,9 @@ export function AnalysisJobHud({ jobId }: Props) {
             <ResultsBento result={job.result} />
             <GasChartPanel result={job.result} />
             <FunctionGasTable result={job.result} />
+            <StorageLayoutPanel result={job.result} />
+            <CandidateLeaderboard result={job.result} />
+            <RefinementRounds result={job.result} />
             <SavingsCalculator result={job.result} />
             {job.result.optimizationValidation?.accepted ? (
               <>
@@ -343,6 +404,7 @@ export function AnalysisJobHud({ jobId }: Props) {
                   originalCode={job.result.originalContract}
                   result={job.result}
                   focusLine={focusedLine}
+                  focusFile={focusedFile}
                   focusNonce={focusNonce}
                 />
               </>
@@ -0,0 +1,64 @@
+"use client";
+
+import { AnalysisResult, CandidateRanking } from "@/lib/api/analysis";
+
+function formatPct(value: number | undefined): string {
+  if (value === undefined) return "—";
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+function statusClass(status: CandidateRanking["status"]): string {
+  if (status === "accepted") return "text-success";
+  if (status === "rejected" || status === "failed") return "text-danger";
+  return "text-muted";
+}
+
+export function CandidateLeaderboard({ result }: { result: AnalysisResult }) {
+  const leaderboard = result.candidateLeaderboard;
+  if (!leaderboard || leaderboard.length === 0) return null;
+
+  return (
+    <section className="mt-6 rounded-xl border border-line bg-surface-2 p-4">
+      <p className="text-sm font-semibold">Candidate Leaderboard</p>
+      <p className="mt-1 text-sm text-muted">
+        {leaderboard.length} candidates generated and ranked under the job&apos;s acceptance policy.
+      </p>
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full min-w-[640px] text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-muted">
+              <th className="pb-2 pr-3">#</th>
+              <th className="pb-2 pr-3">Strategy</th>
+              <th className="pb-2 pr-3">Model</th>
+              <th className="pb-2 pr-3">Functions</th>
+              <th className="pb-2 pr-3">Deployment</th>
+              <th className="pb-2">Status</th>
+            </tr>
+          </thead>
+          <tbody>
+            {leaderboard.map((entry) => (
+              <tr key={entry.candidate} className="border-t border-line/70">
+                <td className="py-2 pr-3">{entry.rank}</td>
+                <td className="py-2 pr-3">
+                  {entry.strategy}
+                  <span className="ml-1 text-xs text-muted">t={entry.temperature}</span>
+                </td>
+                <td className="py-2 pr-3 font-mono text-xs text-muted">
+                  {entry.provider}/{entry.model}
+                </td>
+                <td className="py-2 pr-3">{formatPct(entry.weightedFunctionRegressionPct)}</td>
+                <td className="py-2 pr-3">{formatPct(entry.deploymentGasRegressionPct)}</td>
+                <td
+                  className={`py-2 text-xs uppercase tracking-wide ${statusClass(entry.status)}`}
+                  title={entry.reason}
+                >
+                  {entry.status}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -1,6 +1,6 @@
 "use client";
 
-import { AnalysisResult } from "@/lib/api/analysis";
+import { AnalysisResult, FunctionAcceptance } from "@/lib/api/analysis";
 
 type Row = {
   name: string;
@@ -9,6 +9,7 @@ type Row = {
   optimizedGas: number | null;
   deltaPct: number | null;
   reason?: string;
+  acceptance?: FunctionAcceptance;
 };
 
 function parseGasValue(value: string | undefined): number | null {
@@ -45,6 +46,9 @@ function toRows(result: AnalysisResult): Row[] {
   const baseline = result.dynamicProfile?.gasProfile?.functions || {};
   const optimized = result.optimizedDynamicProfile?.gasProfile?.functions || {};
   const names = new Set([...Object.keys(baseline), ...Object.keys(optimized)]);
+  const verdicts = new Map(
+    (result.optimizationValidation?.functions || []).map((verdict) => [verdict.function, verdict])
+  );
 
   return [...names]
     .map((name) => {
@@ -64,7 +68,8 @@ function toRows(result: AnalysisResult): Row[] {
         originalGas,
         optimizedGas,
         deltaPct,
-        reason: optimizedEntry.reason || original.reason
+        reason: optimizedEntry.reason || original.reason,
+        acceptance: verdicts.get(name)
       };
     })
     .sort((a, b) => (b.originalGas ?? -1) - (a.originalGas ?? -1));
@@ -73,6 +78,7 @@ function toRows(result: AnalysisResult): Row[] {
 export function FunctionGasTable({ result }: { result: AnalysisResult }) {
   const rows = toRows(result);
   if (!rows.length) return null;
+  const showPolicy = rows.some((row) => row.acceptance);
 
   return (
     <section className="mt-6 rounded-xl border border-line bg-surface-2 p-4">
@@ -85,7 +91,8 @@ export function FunctionGasTable({ result }: { result: AnalysisResult }) {
               <th className="pb-2 pr-3">Type</th>
               <th className="pb-2 pr-3">Original</th>
               <th className="pb-2 pr-3">Optimized</th>
-              <th className="pb-2">Delta</th>
+              <th className={`pb-2${showPolicy ? " pr-3" : ""}`}>Delta</th>
+              {showPolicy && <th className="pb-2">Policy</th>}
             </tr>
           </thead>
           <tbody>
@@ -96,7 +103,7 @@ export function FunctionGasTable({ result }: { result: AnalysisResult }) {
                 <td className="py-2 pr-3">{row.originalGas != null ? row.originalGas.toLocaleString() : "—"}</td>
                 <td className="py-2 pr-3">{row.optimizedGas != null ? row.optimizedGas.toLocaleString() : "—"}</td>
                 <td
-                  className={`py-2 ${
+                  className={`py-2 ${showPolicy ? "pr-3 " : ""}${
                     row.deltaPct == null
                       ? "text-muted"
                       : row.deltaPct <= 0
@@ -106,6 +113,22 @@ export function FunctionGasTable({ result }: { result: AnalysisResult }) {
                 >
                   {row.deltaPct == null ? row.reason ? "Unmeasured" : "—" : `${row.deltaPct.toFixed(2)}%`}
                 </td>
+                {showPolicy && (
+                  <td
+                    title={row.acceptance?.reason}
+                    className={`py-2 text-xs uppercase tracking-wide ${
+                      row.acceptance?.status === "failed"
+                        ? "text-danger"
+                        : row.acceptance?.status === "passed"
+                        ? "text-success"
+                        : "text-muted"
+                    }`}
+                  >
+                    {row.acceptance
+                      ? `${row.acceptance.status}${row.acceptance.status === "skipped" ? "" : ` · ×${row.acceptance.weight}`}`
+                      : "—"}
+                  </td>
+                )}
               </tr>
             ))}
           </tbody>
@@ -17,18 +17,32 @@ export function MonacoDiffPanel({
   originalCode,
   result,
   focusLine,
+  focusFile,
   focusNonce
 }: {
   jobId: string;
   originalCode?: string;
   result: AnalysisResult;
   focusLine?: number | null;
+  focusFile?: string | null;
   focusNonce?: number;
 }) {
-  const rawOptimized = normalizeSoliditySource(result.aiOptimizations?.optimizedContract || "");
-  const original = normalizeSoliditySource(originalCode || "");
+  const files = useMemo(() => projectFiles(result), [result]);
+  const [selectedFile, setSelectedFile] = useState<string | null>(result.entry || null);
+  const activeFile = selectedFile && files.includes(selectedFile) ? selectedFile : files[0] || null;
+  const multiFile = files.length > 1;
+
+  const rawOptimized = normalizeSoliditySource(
+    (activeFile && result.optimizedSources?.[activeFile]) || result.aiOptimizations?.optimizedContract || ""
+  );
+  const original = normalizeSoliditySource((activeFile && result.originalSources?.[activeFile]) || originalCode || "");
   const optimized = looksLikeSoliditySource(rawOptimized) ? rawOptimized : original;
-  const optimizations = result.aiOptimizations?.optimizations || [];
+  const allOptimizations = result.aiOptimizations?.optimizations || [];
+  const optimizations = useMemo(
+    () =>
+      multiFile ? allOptimizations.filter((item) => (item.file || result.entry) === activeFile) : allOptimizations,
+    [activeFile, allOptimizations, multiFile, result.entry]
+  );
   const [tab, setTab] = useState<"diff" | "optimized" | "original">("diff");
   const [accepted, setAccepted] = useState(false);
   const editorRef = useRef<{
@@ -107,13 +121,19 @@ export function MonacoDiffPanel({
     decorationIdsRef.current = modified.deltaDecorations(decorationIdsRef.current, nextDecorations);
   }, [focusLine, focusNonce, markers]);
 
+  useEffect(() => {
+    if (focusFile && files.includes(focusFile)) {
+      setSelectedFile(focusFile);
+    }
+  }, [files, focusFile, focusNonce]);
+
   useEffect(() => {
     if (!focusLine || focusLine < 1 || !editorRef.current) return;
     const modified = editorRef.current.getModifiedEditor();
     modified.revealLineInCenter(focusLine);
     modified.setPosition({ lineNumber: focusLine, column: 1 });
     modified.focus();
-  }, [focusLine, focusNonce]);
+  }, [focusLine, focusNonce, activeFile]);
 
   if (!optimized || !original) {
     return (
@@ -168,6 +188,30 @@ export function MonacoDiffPanel({
         </div>
       </div>
 
+      {multiFile && (
+        <div className="mt-3 flex flex-wrap items-center gap-2">
+          <span className="text-xs text-muted">File:</span>
+          {files.map((file) => {
+            const changed = result.originalSources?.[file] !== result.optimizedSources?.[file];
+            return (
+              <button
+                key={file}
+                type="button"
+                onClick={() => setSelectedFile(file)}
+                className={`rounded-lg border px-3 py-1.5 font-mono text-xs ${
+                  file === activeFile
+                    ? "border-accent bg-accent/15 text-accent"
+                    : "border-line text-muted hover:text-text"
+                }`}
+              >
+                {file}
+                {changed ? " •" : ""}
+              </button>
+            );
+          })}
+        </div>
+      )}
+
       <div className="mt-3 flex flex-wrap items-center gap-2">
         <Button
           onClick={() => {
@@ -183,9 +227,9 @@ export function MonacoDiffPanel({
         <Button
           variant="secondary"
           disabled={!accepted}
-          onClick={() => downloadOptimizedCode(optimized)}
+          onClick={() => downloadOptimizedCode(optimized, multiFile ? activeFile : null)}
         >
-          Download Optimized .sol
+          {multiFile ? `Download Optimized ${fileBaseName(activeFile || "")}` : "Download Optimized .sol"}
         </Button>
         <span className="text-xs text-muted">
           {accepted ? "Accepted for export." : "Accept changes to enable download."}
@@ -273,11 +317,24 @@ function looksLikeSoliditySource(input: string): boolean {
   return lowered.includes("pragma solidity") || lowered.includes("contract ");
 }
 
-function downloadOptimizedCode(code: string): void {
+/** Project files with the entry first; empty for single-file results. */
+function projectFiles(result: AnalysisResult): string[] {
+  const files = Object.keys(result.originalSources || {}).sort();
+  if (result.entry && files.includes(result.entry)) {
+    return [result.entry, ...files.filter((file) => file !== result.entry)];
+  }
+  return files;
+}
+
+function fileBaseName(file: string): string {
+  return file.split("/").pop() || file;
+}
+
+function downloadOptimizedCode(code: string, file: string | null): void {
   if (typeof window === "undefined") return;
   const blob = new Blob([code], { type: "text/plain;charset=utf-8" });
   const url = URL.createObjectURL(blob);
-  const name = inferContractName(code) || "OptimizedContract";
+  const name = file ? fileBaseName(file).replace(/\.sol$/, "") : inferContractName(code) || "OptimizedContract";
   const a = document.createElement("a");
   a.href = url;
   a.download = `${name}.optimized.sol`;
@@ -1,11 +1,11 @@
 "use client";
 
-import { AnalysisResult } from "@/lib/api/analysis";
+import { AnalysisResult, OptimizationMeasurement } from "@/lib/api/analysis";
 import { Button } from "@/components/ui/button";
 
 type Props = {
   result: AnalysisResult;
-  onJumpToLine: (line: number) => void;
+  onJumpToLine: (line: number, file?: string) => void;
 };
 
 export function OptimizationCards({ result, onJumpToLine }: Props) {
@@ -20,30 +20,37 @@ export function OptimizationCards({ result, onJumpToLine }: Props) {
       <div className="mt-3 grid gap-3 md:grid-cols-2">
         {optimizations.map((item, index) => {
           const line = Number(item.line || 0);
+          // Later refinement rounds number lines in their own input, not in the original.
+          const jumpLine = (item.round ?? 1) > 1 ? 0 : line;
           return (
             <div
               key={`${item.type}-${index}-${line}`}
-              role={line > 0 ? "button" : undefined}
-              tabIndex={line > 0 ? 0 : -1}
-              onClick={() => line > 0 && onJumpToLine(line)}
+              role={jumpLine > 0 ? "button" : undefined}
+              tabIndex={jumpLine > 0 ? 0 : -1}
+              onClick={() => jumpLine > 0 && onJumpToLine(line, item.file)}
               onKeyDown={(event) => {
-                if (line <= 0) return;
+                if (jumpLine <= 0) return;
                 if (event.key === "Enter" || event.key === " ") {
                   event.preventDefault();
-                  onJumpToLine(line);
+                  onJumpToLine(line, item.file);
                 }
               }}
               className="rounded-lg border border-line/70 bg-surface p-3 text-left transition hover:border-accent/60 hover:bg-surface/80"
             >
               <div className="flex items-start justify-between gap-3">
                 <p className="text-xs uppercase tracking-wider text-accent">{item.type.replaceAll("_", " ")}</p>
-                <span className="text-xs text-muted">{line > 0 ? `Line ${line}` : "Line n/a"}</span>
+                <span className="text-xs text-muted">
+                  {item.round ? `Round ${item.round} · ` : ""}
+                  {item.file ? `${item.file} · ` : ""}
+                  {line > 0 ? `Line ${line}` : "Line n/a"}
+                </span>
               </div>
 
               <p className="mt-2 text-sm text-text">{item.description}</p>
               <p className="mt-2 text-xs text-success">Estimated saving: {item.estimatedSaving || "N/A"}</p>
+              {item.measurement && <MeasuredResult measurement={item.measurement} />}
 
-              {line > 0 && (
+              {jumpLine > 0 && (
                 <div className="mt-3">
                   <Button
                     type="button"
@@ -51,7 +58,7 @@ export function OptimizationCards({ result, onJumpToLine }: Props) {
                     className="text-xs"
                     onClick={(event) => {
                       event.stopPropagation();
-                      onJumpToLine(line);
+                      onJumpToLine(line, item.file);
                     }}
                   >
                     Jump to line {line}
@@ -65,3 +72,30 @@ export function OptimizationCards({ result, onJumpToLine }: Props) {
     </section>
   );
 }
+
+function MeasuredResult({ measurement }: { measurement: OptimizationMeasurement }) {
+  const deltas = Object.entries(measurement.functionGasDeltas || {}).filter(([, delta]) => delta !== 0);
+  const tone =
+    measurement.status === "kept" ? "text-success" : measurement.status === "dropped" ? "text-danger" : "text-muted";
+
+  return (
+    <div className="mt-2 text-xs">
+      <p className={tone} title={measurement.reason}>
+        Measured alone: {measurement.status === "kept" ? "Kept" : measurement.status === "dropped" ? "Dropped" : "Not measured"}
+        {measurement.status !== "kept" ? ` · ${measurement.reason}` : ""}
+      </p>
+      {typeof measurement.deploymentGasDelta === "number" && measurement.deploymentGasDelta !== 0 && (
+        <p className="mt-1 text-muted">Deployment: {formatDelta(measurement.deploymentGasDelta)}</p>
+      )}
+      {deltas.map(([name, delta]) => (
+        <p key={name} className="mt-1 font-mono text-muted">
+          {name}: <span className={delta < 0 ? "text-success" : "text-danger"}>{formatDelta(delta)}</span>
+        </p>
+      ))}
+    </div>
+  );
+}
+
+function formatDelta(delta: number): string {
+  return `${delta > 0 ? "+" : ""}${delta.toLocaleString()} gas`;
+}
@@ -15,6 +15,7 @@ type MintHistoryEntry = {
   originalHash: string;
   optimizedHash: string;
   savingsPercentBps: number;
+  acceptancePolicy?: string;
   source: "backend" | "wallet";
 };
 
@@ -86,6 +87,7 @@ export function ProofActions({ jobId, defaultContractName }: Props) {
         originalHash: receipt.payload.originalHash,
         optimizedHash: receipt.payload.optimizedHash,
         savingsPercentBps: receipt.payload.savingsPercentBps,
+        acceptancePolicy: policyLabel(receipt.payload),
         source: "backend"
       };
       setHistory((prev) => {
@@ -238,6 +240,7 @@ export function ProofActions({ jobId, defaultContractName }: Props) {
         originalHash: payloadToMint.originalHash,
         optimizedHash: payloadToMint.optimizedHash,
         savingsPercentBps: payloadToMint.savingsPercentBps,
+        acceptancePolicy: policyLabel(payloadToMint),
         source: "wallet"
       };
       setHistory((prev) => {
@@ -413,6 +416,7 @@ export function ProofActions({ jobId, defaultContractName }: Props) {
                   <span>Chain {entry.chainId}</span>
                   <span>Token {entry.tokenId || "—"}</span>
                   <span>Save {(entry.savingsPercentBps / 100).toFixed(2)}%</span>
+                  {entry.acceptancePolicy && <span>Policy {entry.acceptancePolicy}</span>}
                 </div>
               </div>
             ))}
@@ -445,6 +449,10 @@ function getEthereum(): EthereumProvider | null {
   return value ?? null;
 }
 
+function policyLabel(payload: ProofPayloadResponse): string {
+  return payload.acceptancePolicyCustomized ? `${payload.acceptancePolicy} (customized)` : payload.acceptancePolicy;
+}
+
 function shortAddress(address: string): string {
   if (address.length < 12) return address;
   return `${address.slice(0, 6)}...${address.slice(-4)}`;
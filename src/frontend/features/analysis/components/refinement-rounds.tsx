@@ -0,0 +1,65 @@
+"use client";
+
+import { AnalysisResult, RefinementRound } from "@/lib/api/analysis";
+
+function formatPct(value: number | undefined): string {
+  if (value === undefined) return "—";
+  return `${value > 0 ? "+" : ""}${value.toFixed(1)}%`;
+}
+
+function statusClass(round: RefinementRound): string {
+  if (round.status === "rejected") return "text-danger";
+  return round.kept ? "text-success" : "text-muted";
+}
+
+export function RefinementRounds({ result }: { result: AnalysisResult }) {
+  const rounds = result.refinementRounds;
+  if (!rounds || rounds.length === 0) return null;
+  const kept = rounds.filter((round) => round.kept).length;
+
+  return (
+    <section className="mt-6 rounded-xl border border-line bg-surface-2 p-4">
+      <p className="text-sm font-semibold">Refinement Rounds</p>
+      <p className="mt-1 text-sm text-muted">
+        {kept} of {rounds.length} rounds kept. Each round optimized the previous round&apos;s accepted contract; gas
+        changes are against that input.
+      </p>
+      <div className="mt-3 space-y-2">
+        {rounds.map((round) => (
+          <details key={round.round} className="rounded-lg border border-line/70 bg-surface p-3">
+            <summary className="flex cursor-pointer flex-wrap items-center gap-x-4 gap-y-1 text-sm">
+              <span className="font-semibold">Round {round.round}</span>
+              <span className={`text-xs uppercase tracking-wide ${statusClass(round)}`}>
+                {round.status}
+                {round.status !== "rejected" && !round.kept ? " · not kept" : ""}
+              </span>
+              <span>Functions {formatPct(round.weightedFunctionRegressionPct)}</span>
+              <span>Deployment {formatPct(round.deploymentGasRegressionPct)}</span>
+              <span className="text-xs text-muted">{round.reason}</span>
+            </summary>
+            {round.diff ? (
+              <pre className="mt-3 max-h-80 overflow-auto rounded-md bg-surface-2 p-3 font-mono text-xs">
+                {round.diff.split("\n").map((line, index) => (
+                  <span
+                    key={index}
+                    className={
+                      line.startsWith("+") && !line.startsWith("+++")
+                        ? "block text-success"
+                        : line.startsWith("-") && !line.startsWith("---")
+                          ? "block text-danger"
+                          : "block"
+                    }
+                  >
+                    {line || " "}
+                  </span>
+                ))}
+              </pre>
+            ) : (
+              <p className="mt-3 text-xs text-muted">No candidate was accepted in this round.</p>
+            )}
+          </details>
+        ))}
+      </div>
+    </section>
+  );
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { AnalysisResult, StorageLayoutChange, StorageVariable } from "@/lib/api/analysis";
+
+type Row = {
+  variable: string;
+  type: string;
+  before: string | null;
+  after: string | null;
+  change?: StorageLayoutChange;
+};
+
+function flatten(layout: StorageVariable[], prefix = ""): Map<string, StorageVariable> {
+  const variables = new Map<string, StorageVariable>();
+  for (const variable of layout) {
+    const path = `${prefix}${variable.label}`;
+    variables.set(path, variable);
+    if (variable.members) {
+      flatten(variable.members, `${path}.`).forEach((member, memberPath) => variables.set(memberPath, member));
+    }
+  }
+  return variables;
+}
+
+function position(variable: StorageVariable | undefined): string | null {
+  return variable ? `slot ${variable.slot} · offset ${variable.offset}` : null;
+}
+
+function toRows(result: AnalysisResult): Row[] {
+  const diff = result.optimizationValidation?.storageLayout;
+  if (!diff) return [];
+  const baseline = flatten(diff.baseline);
+  const optimized = flatten(diff.optimized);
+  const changes = new Map(diff.changes.map((change) => [change.variable, change]));
+  const paths = [...baseline.keys(), ...[...optimized.keys()].filter((path) => !baseline.has(path))];
+
+  return paths.map((path) => ({
+    variable: path,
+    type: (optimized.get(path) || baseline.get(path))?.type || "",
+    before: position(baseline.get(path)),
+    after: position(optimized.get(path)),
+    change: changes.get(path)
+  }));
+}
+
+export function StorageLayoutPanel({ result }: { result: AnalysisResult }) {
+  const diff = result.optimizationValidation?.storageLayout;
+  if (!diff || diff.changes.length === 0) return null;
+  const rows = toRows(result);
+
+  return (
+    <section className="mt-6 rounded-xl border border-line bg-surface-2 p-4">
+      <p className="text-sm font-semibold">Storage Layout</p>
+      <p className={`mt-1 text-sm ${diff.compatible ? "text-muted" : "text-danger"}`}>
+        {diff.compatible
+          ? "Only new variables were appended; existing storage is unchanged."
+          : "Existing variables moved or changed. Unsafe for upgradeable contracts."}
+      </p>
+      <div className="mt-3 overflow-x-auto">
+        <table className="w-full min-w-[560px] text-sm">
+          <thead>
+            <tr className="text-left text-xs uppercase tracking-wider text-muted">
+              <th className="pb-2 pr-3">Variable</th>
+              <th className="pb-2 pr-3">Type</th>
+              <th className="pb-2 pr-3">Original</th>
+              <th className="pb-2 pr-3">Optimized</th>
+              <th className="pb-2">Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row) => (
+              <tr key={row.variable} className="border-t border-line/70">
+                <td className="py-2 pr-3 font-mono">{row.variable}</td>
+                <td className="py-2 pr-3 font-mono text-xs text-muted">{row.type}</td>
+                <td className="py-2 pr-3">{row.before ?? "—"}</td>
+                <td className="py-2 pr-3">{row.after ?? "—"}</td>
+                <td
+                  className={`py-2 text-xs uppercase tracking-wide ${
+                    !row.change ? "text-muted" : row.change.breaking ? "text-danger" : "text-success"
+                  }`}
+                >
+                  {row.change ? row.change.change : "—"}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </section>
+  );
+}
@@ -20,12 +20,19 @@ export type AnalysisProgressEvent = {
 
 export type GasProfile = {
   deploymentGas: string;
+  measurementMode?: "estimate" | "execute";
+  signers?: Array<{ index: number; address: string; roles: string[] }>;
   functions: Record<
     string,
     | {
         status: "measured";
         gasUsed: string;
+        estimatedGas?: string;
+        executedGas?: string;
+        executionError?: string;
         stateMutability: string;
+        caller?: { signerIndex: number; address: string };
+        scenario?: string;
       }
     | {
         status: "unmeasured";
@@ -33,6 +40,37 @@ export type GasProfile = {
         stateMutability: string;
       }
   >;
+  scenarios?: Array<{
+    name: string;
+    status: "completed" | "setup_failed";
+    error?: string;
+    steps: Array<
+      | {
+          status: "measured";
+          label: string;
+          function: string;
+          signerIndex: number;
+          from: string;
+          gasUsed: string;
+          estimatedGas: string;
+        }
+      | {
+          status: "failed";
+          label: string;
+          function: string;
+          signerIndex: number;
+          reason: string;
+        }
+    >;
+  }>;
+};
+
+export type CompilerSettings = {
+  version: string;
+  versionSource: "requested" | "pragma" | "default";
+  optimizer: { enabled: boolean; runs: number };
+  viaIR: boolean;
+  evmVersion?: string;
 };
 
 export type DynamicProfile = {
@@ -40,6 +78,7 @@ export type DynamicProfile = {
   abi: unknown[];
   bytecode: string;
   contractName: string;
+  compiler?: CompilerSettings;
 };
 
 export type AIEdit = {
@@ -49,6 +88,17 @@ export type AIEdit = {
   before: string;
   after: string;
   rationale: string;
+  file?: string;
+  optimization?: number;
+  round?: number;
+};
+
+export type OptimizationMeasurement = {
+  status: "kept" | "dropped" | "unmeasured";
+  reason: string;
+  edits: number[];
+  deploymentGasDelta?: number;
+  functionGasDeltas?: Record<string, number>;
 };
 
 export type AIOptimization = {
@@ -58,6 +108,9 @@ export type AIOptimization = {
   line: number;
   before: string;
   after: string;
+  file?: string;
+  measurement?: OptimizationMeasurement;
+  round?: number;
 };
 
 export type AIOptimizationsResult = {
@@ -76,9 +129,24 @@ export type AIOptimizationsResult = {
       riskFlags?: string[];
     };
     warnings?: string[];
+    patch?: {
+      method: "patch" | "llm";
+      edits: EditApplication[];
+    };
+    isolation?: Array<OptimizationMeasurement & { optimization?: number; file?: string }>;
   };
 };
 
+export type EditApplication = {
+  index: number;
+  action: "replace" | "insert" | "delete";
+  status: "applied" | "relocated" | "stale" | "conflict" | "invalid";
+  lineStart: number;
+  lineEnd: number;
+  message?: string;
+  file?: string;
+};
+
 export type OptimizationValidation = {
   accepted: boolean;
   reason: string;
@@ -86,13 +154,134 @@ export type OptimizationValidation = {
     compiled: boolean;
     abiCompatible: boolean;
     deploymentGasRegressionPct: number;
-    averageMutableFunctionRegressionPct: number;
+    weightedFunctionRegressionPct: number;
     improved: boolean;
+    behaviourEquivalent?: boolean;
+    storageLayoutCompatible?: boolean;
   };
+  policy?: AcceptancePolicy & { preset: string; customized: boolean };
+  functions?: FunctionAcceptance[];
+  abiDiff?: AbiDiff;
+  storageLayout?: StorageLayoutDiff;
+  equivalence?: EquivalenceReport;
+};
+
+export type AcceptancePolicy = {
+  preset?: string;
+  weights?: Record<string, number>;
+  defaultWeight?: number;
+  maxRegressionPct?: Record<string, number>;
+  defaultMaxRegressionPct?: number;
+  maxWeightedRegressionPct?: number;
+  includeViewFunctions?: boolean;
+  includeDeployment?: boolean;
+  maxDeploymentRegressionPct?: number;
+};
+
+export type FunctionAcceptance = {
+  function: string;
+  stateMutability: string;
+  status: "passed" | "failed" | "skipped";
+  reason: string;
+  weight: number;
+  baselineGas: string | null;
+  optimizedGas: string | null;
+  regressionPct: number | null;
+  maxRegressionPct: number | null;
+};
+
+export type AbiChange = {
+  kind: "function" | "event" | "error" | "constructor" | "fallback" | "receive";
+  change: "added" | "removed" | "changed";
+  signature: string;
+  selector?: string;
+  baseline?: string;
+  optimized?: string;
+};
+
+export type StorageVariable = {
+  contract: string;
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  bytes: number;
+  members?: StorageVariable[];
+};
+
+export type StorageLayoutChange = {
+  variable: string;
+  change: "removed" | "moved" | "retyped" | "added";
+  breaking: boolean;
+  baseline?: { slot: string; offset: number; type: string };
+  optimized?: { slot: string; offset: number; type: string };
+};
+
+export type StorageLayoutDiff = {
+  compatible: boolean;
+  changes: StorageLayoutChange[];
+  baseline: StorageVariable[];
+  optimized: StorageVariable[];
+};
+
+export type AbiDiff = {
+  mode: "strict" | "lenient";
+  compatible: boolean;
+  changes: AbiChange[];
+};
+
+export type EquivalenceCounterexample = {
+  sequence: string;
+  calls: Array<{ function: string; caller: string; args: unknown[]; value?: string }>;
+  mismatches: Array<{ kind: string; observed?: string; original: string; candidate: string }>;
+  shrinkRuns: number;
+};
+
+export type EquivalenceReport = {
+  equivalent: boolean;
+  seed: number;
+  sequences: number;
+  fuzzCases?: number;
+  callsCompared: number;
+  mismatchCount: number;
+  counterexamples?: EquivalenceCounterexample[];
+};
+
+export type CandidateRanking = {
+  rank: number;
+  candidate: number;
+  strategy: "general" | "storage" | "calldata" | "loops" | "arithmetic";
+  temperature: number;
+  provider: string;
+  model: string;
+  status: "accepted" | "unchecked" | "rejected" | "failed" | "duplicate" | "unchanged";
+  reason: string;
+  deploymentGasRegressionPct?: number;
+  weightedFunctionRegressionPct?: number;
+  improved?: boolean;
+  behaviourEquivalent?: boolean;
+};
+
+export type RefinementRound = {
+  round: number;
+  status: "accepted" | "plateau" | "rejected";
+  kept: boolean;
+  reason: string;
+  attempts: number;
+  diff: string;
+  deploymentGas?: string;
+  deploymentGasDelta?: number;
+  functionGasDeltas?: Record<string, number>;
+  deploymentGasRegressionPct?: number;
+  weightedFunctionRegressionPct?: number;
+  leaderboard?: CandidateRanking[];
 };
 
 export type AnalysisResult = {
   originalContract?: string;
+  entry?: string;
+  originalSources?: Record<string, string>;
+  optimizedSources?: Record<string, string>;
   staticProfile?: {
     contractName?: string;
     functions?: Array<{
@@ -106,6 +295,8 @@ export type AnalysisResult = {
   aiOptimizations?: AIOptimizationsResult;
   optimizationValidation?: OptimizationValidation;
   optimizationAttempts?: number;
+  candidateLeaderboard?: CandidateRanking[];
+  refinementRounds?: RefinementRound[];
 };
 
 export type AnalysisJobResponse = {
@@ -127,6 +318,9 @@ export type ProofPayloadResponse = {
   originalGas: number;
   optimizedGas: number;
   savingsPercentBps: number;
+  acceptancePolicy: string;
+  acceptancePolicyCustomized: boolean;
+  acceptancePolicyHash: string;
 };
 
 export type MintProofResponse = {
@@ -1,14 +1,53 @@
-import { HardhatUserConfig } from 'hardhat/config';
+import fs from 'fs';
+import path from 'path';
+import { HardhatUserConfig, subtask } from 'hardhat/config';
+import { TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD } from 'hardhat/builtin-tasks/task-names';
 import '@nomicfoundation/hardhat-toolbox';
 
+type CompilerSettings = {
+  version?: string;
+  optimizer?: {
+    enabled: boolean;
+    runs: number;
+  };
+  viaIR?: boolean;
+  evmVersion?: string;
+};
+
+// The worker passes the resolved per-job settings; running Hardhat by hand keeps the old defaults.
+const compilerSettings = JSON.parse(process.env.COMPILER_SETTINGS || '{}') as CompilerSettings;
+
+// Serve compilers from a local directory (e.g. a pre-seeded image layer) instead of downloading them.
+// Files follow solc's release naming: soljson-v<version>+commit.<hash>.js or solc-<platform>-v<version>+commit.<hash>.
+subtask(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, async (args: { solcVersion: string }, _hre, runSuper) => {
+  const cacheDir = process.env.SOLC_COMPILER_CACHE_DIR;
+  if (cacheDir && fs.existsSync(cacheDir)) {
+    const file = fs.readdirSync(cacheDir).find((name) => name.includes(`v${args.solcVersion}+commit.`));
+    if (file) {
+      const longVersion = file.match(/v(\d+\.\d+\.\d+\+commit\.[0-9a-f]+)/)?.[1] || args.solcVersion;
+      return {
+        version: args.solcVersion,
+        longVersion,
+        compilerPath: path.join(cacheDir, file),
+        isSolcJs: file.startsWith('soljson'),
+      };
+    }
+  }
+  return runSuper();
+});
+
 const config: HardhatUserConfig = {
   solidity: {
-    version: '0.8.24',
+    version: compilerSettings.version || '0.8.24',
     settings: {
-      optimizer: {
+      optimizer: compilerSettings.optimizer || {
         enabled: true,
         runs: 200,
       },
+      // Hardhat merges its own outputs in; the layout lets the backend diff candidates' storage.
+      outputSelection: { '*': { '*': ['storageLayout'] } },
+      ...(compilerSettings.viaIR ? { viaIR: true } : {}),
+      ...(compilerSettings.evmVersion ? { evmVersion: compilerSettings.evmVersion } : {}),
     },
   },
   networks: {
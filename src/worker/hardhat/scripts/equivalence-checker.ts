@@ -0,0 +1,707 @@
+import { config as hardhatConfig, ethers, network } from 'hardhat';
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  createRandom,
+  generateDeterministicInputs,
+  generateEdgeInputs,
+  generateRandomInputs,
+  InputContext,
+  RandomSource,
+  resolveConstructorArgs,
+  simplerValues,
+} from './lib/inputs';
+import { functionDisplayName, isStateChanging, reportProgress, sanitizeReason } from './lib/reporting';
+
+type Artifact = {
+  abi: any[];
+  bytecode: string;
+  contractName: string;
+};
+
+type CheckerConfig = {
+  /** Paths of the entry files under `contracts/`, e.g. `original/Contract.sol`. */
+  originalSource: string;
+  candidateSource: string;
+  contractName: string;
+  candidateContractName: string;
+  constructorArgs?: unknown[] | string;
+  signerCount?: number;
+  seed?: number;
+  randomSequences?: number;
+  sequenceLength?: number;
+  fuzzRuns?: number;
+};
+
+type PlannedCall = {
+  fragment: any;
+  signature: string;
+  signerIndex: number;
+  args: any[];
+  value: bigint;
+};
+
+type Sequence = {
+  name: string;
+  calls: PlannedCall[];
+};
+
+type CallOutcome = { ok: boolean; data: string };
+
+type LogEntry = { address: string; topics: string[]; data: string };
+
+type StepObservation = {
+  outcome: CallOutcome;
+  logs: LogEntry[];
+  state: Record<string, string>;
+};
+
+/** Observations of each sequence of a batch, all run from the same fresh deployment. */
+type Replay = { deployError?: string; runs: StepObservation[][] };
+
+type Divergence = {
+  /** 0-based index of the first step whose observations differ. */
+  step: number;
+  mismatches: Array<Pick<Mismatch, 'kind' | 'observed' | 'original' | 'candidate'>>;
+};
+
+type MismatchKind = 'deploy' | 'missing' | 'return' | 'revert' | 'events' | 'state';
+
+type Mismatch = {
+  kind: MismatchKind;
+  function?: string;
+  sequence?: string;
+  step?: number;
+  caller?: string;
+  args?: unknown[];
+  /** View (or `$balance`) whose result differed, for `state` mismatches. */
+  observed?: string;
+  original: string;
+  candidate: string;
+};
+
+/**
+ * The shortest, simplest call sequence found that still makes the two contracts
+ * diverge, starting from a fresh deployment; the last call is where they differ.
+ */
+type Counterexample = {
+  sequence: string;
+  calls: Array<{ function: string; caller: string; args: unknown[]; value?: string }>;
+  mismatches: Divergence['mismatches'];
+  shrinkRuns: number;
+};
+
+const DEFAULT_SIGNER_COUNT = 4;
+const SIGNER_BALANCE_WEI = 10n ** 24n;
+const DEFAULT_RANDOM_SEQUENCES = 4;
+const DEFAULT_SEQUENCE_LENGTH = 12;
+const DEFAULT_FUZZ_RUNS = 32;
+const MAX_REPORTED_MISMATCHES = 50;
+const MAX_COUNTEREXAMPLES = 3;
+const MAX_SHRINK_RUNS = 100;
+const CALL_GAS_LIMIT = 15_000_000n;
+const PAYABLE_VALUES = [0n, 1n, 10n ** 15n];
+
+// Both contracts are deployed from the same snapshot by the same deployer nonce, so
+// they share an address, and every block timestamp is pinned. Gas is free (zero base
+// fee and tip) so signer balances do not depend on how much gas each version burns.
+// Storage is compared through the contract's own views rather than raw slots, since
+// an optimized layout (e.g. packed variables) legitimately moves values between slots.
+async function main() {
+  const config = await loadConfig();
+  const original = await loadArtifact(config.originalSource, config.contractName);
+  const candidate = await loadArtifact(config.candidateSource, config.candidateContractName);
+  const iface = new ethers.Interface(original.abi);
+  const candidateIface = new ethers.Interface(candidate.abi);
+
+  const allSigners = await ethers.getSigners();
+  const signerCount = Math.max(2, Math.min(config.signerCount || DEFAULT_SIGNER_COUNT, allSigners.length));
+  const signers = allSigners.slice(0, signerCount);
+  const accounts = signers.map((signer) => signer.address);
+  for (const address of accounts) {
+    await network.provider.send('hardhat_setBalance', [address, ethers.toQuantity(SIGNER_BALANCE_WEI)]);
+  }
+
+  const constructorInputs = original.abi.find((item) => item.type === 'constructor')?.inputs || [];
+  const constructorArgs = resolveConstructorArgs(
+    config.constructorArgs,
+    iface.deploy.inputs,
+    () => generateDeterministicInputs(constructorInputs, { caller: accounts[0], accounts }),
+    allSigners
+  );
+
+  const seed = config.seed ?? Math.floor(Math.random() * 2 ** 31);
+  const random = createRandom(seed);
+  const skipped = new Set<string>();
+  const sequences = [
+    deterministicSequence(original.abi, accounts, skipped),
+    ...randomSequences(original.abi, accounts, random, config, skipped),
+  ];
+  const fuzzRuns = config.fuzzRuns ?? DEFAULT_FUZZ_RUNS;
+  const fuzzBatches = fuzzRuns > 0 ? fuzzCases(original.abi, accounts, random, fuzzRuns, skipped) : [];
+  const views = observedViews(original.abi, accounts);
+
+  const latest = await ethers.provider.getBlock('latest');
+  const baseTimestamp = latest ? latest.timestamp : Math.floor(Date.now() / 1000);
+  let snapshot: string = await network.provider.send('evm_snapshot', []);
+  let clock = baseTimestamp;
+  const nextBlock = async () => {
+    clock += 1;
+    await network.provider.send('evm_setNextBlockTimestamp', [clock]);
+    await network.provider.send('hardhat_setNextBlockBaseFeePerGas', ['0x0']);
+  };
+
+  // Deploys `artifact` at the common starting point, then runs each sequence from
+  // that fresh deployment (same state, same block times).
+  const replay = async (artifact: Artifact, batch: Sequence[]): Promise<Replay> => {
+    await network.provider.send('evm_revert', [snapshot]);
+    snapshot = await network.provider.send('evm_snapshot', []);
+    clock = baseTimestamp;
+
+    let address: string;
+    try {
+      await nextBlock();
+      const factory = new ethers.ContractFactory(artifact.abi, artifact.bytecode, signers[0]);
+      const contract = await factory.deploy(...constructorArgs, { maxFeePerGas: 0n, maxPriorityFeePerGas: 0n });
+      await contract.waitForDeployment();
+      address = await contract.getAddress();
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return { deployError: sanitizeReason(message), runs: [] };
+    }
+
+    const deployedAt = clock;
+    let deployment: string = await network.provider.send('evm_snapshot', []);
+    const runs: StepObservation[][] = [];
+    for (const sequence of batch) {
+      const steps: StepObservation[] = [];
+      for (const call of sequence.calls) {
+        steps.push(await executeCall(iface, address, call, signers, nextBlock, views));
+      }
+      runs.push(steps);
+      await network.provider.send('evm_revert', [deployment]);
+      deployment = await network.provider.send('evm_snapshot', []);
+      clock = deployedAt;
+    }
+    return { runs };
+  };
+
+  const functions: Record<string, { calls: number; mismatches: number }> = {};
+  const mismatches: Mismatch[] = [];
+  const divergences: Array<{ sequence: string; calls: PlannedCall[] }> = [];
+  let mismatchCount = 0;
+  let callsCompared = 0;
+  const record = (mismatch: Mismatch) => {
+    mismatchCount += 1;
+    if (mismatch.function && functions[mismatch.function]) {
+      functions[mismatch.function].mismatches += 1;
+    }
+    if (mismatches.length < MAX_REPORTED_MISMATCHES) {
+      mismatches.push(mismatch);
+    }
+  };
+
+  for (const fragment of original.abi.filter((item) => item.type === 'function')) {
+    const signature = functionDisplayName(fragment);
+    functions[signature] = { calls: 0, mismatches: 0 };
+    if (!candidateIface.getFunction(signature)) {
+      record({ kind: 'missing', function: signature, original: 'present', candidate: 'missing from the ABI' });
+    }
+  }
+
+  const batches = [
+    ...sequences.map((sequence) => ({
+      message: `Replaying ${sequence.name} sequence (${sequence.calls.length} calls)...`,
+      sequences: [sequence],
+    })),
+    ...fuzzBatches.map((batch) => ({
+      message: `Fuzzing ${batch.signature} with ${batch.sequences.length} inputs...`,
+      sequences: batch.sequences,
+    })),
+  ];
+  for (const [index, batch] of batches.entries()) {
+    reportProgress('comparing', batch.message, index + 1, batches.length);
+    const originalReplay = await replay(original, batch.sequences);
+    if (originalReplay.deployError) {
+      throw new Error(`Original contract failed to deploy: ${originalReplay.deployError}`);
+    }
+    const candidateReplay = await replay(candidate, batch.sequences);
+    if (candidateReplay.deployError) {
+      record({ kind: 'deploy', original: 'deployed', candidate: candidateReplay.deployError });
+      break;
+    }
+
+    for (const [i, sequence] of batch.sequences.entries()) {
+      const { compared, divergence } = firstDivergence(
+        iface,
+        sequence.calls,
+        originalReplay.runs[i],
+        candidateReplay.runs[i]
+      );
+      callsCompared += compared.length;
+      compared.forEach((call) => (functions[call.signature].calls += 1));
+      if (!divergence) {
+        continue;
+      }
+      const call = sequence.calls[divergence.step];
+      for (const mismatch of divergence.mismatches) {
+        record({
+          ...mismatch,
+          function: call.signature,
+          sequence: sequence.name,
+          step: divergence.step + 1,
+          caller: `$signer:${call.signerIndex}`,
+          args: formatValue(call.args) as unknown[],
+        });
+      }
+      divergences.push({ sequence: sequence.name, calls: sequence.calls.slice(0, divergence.step + 1) });
+    }
+  }
+
+  // One counterexample per diverging function, shrunk to the fewest and simplest calls
+  // that still reproduce a difference.
+  const check = async (calls: PlannedCall[]) => {
+    const originalReplay = await replay(original, [{ name: 'shrink', calls }]);
+    const candidateReplay = await replay(candidate, [{ name: 'shrink', calls }]);
+    return firstDivergence(iface, calls, originalReplay.runs[0] || [], candidateReplay.runs[0] || []).divergence;
+  };
+  const counterexamples: Counterexample[] = [];
+  const shrunkFunctions = new Set<string>();
+  for (const divergence of divergences) {
+    const target = divergence.calls[divergence.calls.length - 1].signature;
+    if (counterexamples.length >= MAX_COUNTEREXAMPLES || shrunkFunctions.has(target)) {
+      continue;
+    }
+    shrunkFunctions.add(target);
+    reportProgress('comparing', `Shrinking counterexample for ${target}...`);
+    const shrunk = await shrink(divergence.calls, check, accounts);
+    if (shrunk) {
+      counterexamples.push({
+        sequence: divergence.sequence,
+        calls: shrunk.calls.map((call) => ({
+          function: call.signature,
+          caller: `$signer:${call.signerIndex}`,
+          args: formatValue(call.args) as unknown[],
+          ...(call.value > 0n ? { value: call.value.toString() } : {}),
+        })),
+        mismatches: shrunk.divergence.mismatches,
+        shrinkRuns: shrunk.runs,
+      });
+    }
+  }
+
+  console.log(
+    JSON.stringify(
+      {
+        equivalent: mismatchCount === 0,
+        seed,
+        sequences: sequences.length,
+        fuzzCases: fuzzBatches.reduce((total, batch) => total + batch.sequences.length, 0),
+        callsCompared,
+        mismatchCount,
+        functions,
+        mismatches,
+        counterexamples,
+        skippedFunctions: [...skipped].sort(),
+      },
+      null,
+      2
+    )
+  );
+}
+
+/** Every function once from the deployer, then state-changing ones again from a second signer. */
+function deterministicSequence(abi: any[], accounts: string[], skipped: Set<string>): Sequence {
+  const fragments = abi.filter((item) => item.type === 'function');
+  const calls: PlannedCall[] = [];
+  const plan = (fragment: any, signerIndex: number) => {
+    const signature = functionDisplayName(fragment);
+    try {
+      const args = generateDeterministicInputs(fragment.inputs || [], { caller: accounts[signerIndex], accounts });
+      calls.push({ fragment, signature, signerIndex, args, value: 0n });
+    } catch {
+      skipped.add(signature);
+    }
+  };
+  fragments.forEach((fragment) => plan(fragment, 0));
+  fragments.filter((fragment) => isStateChanging(fragment.stateMutability)).forEach((fragment) => plan(fragment, 1));
+  return { name: 'deterministic', calls };
+}
+
+/** Seeded sequences of random functions, callers, arguments and (for payable functions) values. */
+function randomSequences(
+  abi: any[],
+  accounts: string[],
+  random: RandomSource,
+  config: CheckerConfig,
+  skipped: Set<string>
+): Sequence[] {
+  const fragments = abi.filter((item) => item.type === 'function');
+  const count = config.randomSequences ?? DEFAULT_RANDOM_SEQUENCES;
+  const length = config.sequenceLength ?? DEFAULT_SEQUENCE_LENGTH;
+  if (fragments.length === 0) {
+    return [];
+  }
+
+  return Array.from({ length: count }, (_, index) => {
+    const calls: PlannedCall[] = [];
+    for (let i = 0; i < length; i += 1) {
+      const fragment = fragments[Math.floor(random() * fragments.length)];
+      const signature = functionDisplayName(fragment);
+      const signerIndex = Math.floor(random() * accounts.length);
+      const ctx: InputContext = { caller: accounts[signerIndex], accounts };
+      try {
+        const args = generateRandomInputs(fragment.inputs || [], ctx, random);
+        const value =
+          fragment.stateMutability === 'payable' ? PAYABLE_VALUES[Math.floor(random() * PAYABLE_VALUES.length)] : 0n;
+        calls.push({ fragment, signature, signerIndex, args, value });
+      } catch {
+        skipped.add(signature);
+      }
+    }
+    return { name: `random_${index + 1}`, calls };
+  });
+}
+
+/**
+ * Single calls to each function from a fresh deployment: all-zero and all-max edge
+ * inputs from the deployer, then `runs` random inputs from random signers.
+ */
+function fuzzCases(
+  abi: any[],
+  accounts: string[],
+  random: RandomSource,
+  runs: number,
+  skipped: Set<string>
+): Array<{ signature: string; sequences: Sequence[] }> {
+  const batches: Array<{ signature: string; sequences: Sequence[] }> = [];
+  for (const fragment of abi.filter((item) => item.type === 'function')) {
+    const signature = functionDisplayName(fragment);
+    const inputs = fragment.inputs || [];
+    const payable = fragment.stateMutability === 'payable';
+    const calls: PlannedCall[] = [];
+    try {
+      const ctx: InputContext = { caller: accounts[0], accounts };
+      if (inputs.length > 0) {
+        calls.push({ fragment, signature, signerIndex: 0, args: generateEdgeInputs(inputs, ctx, 'zero'), value: 0n });
+        calls.push({ fragment, signature, signerIndex: 0, args: generateEdgeInputs(inputs, ctx, 'max'), value: 0n });
+      }
+      for (let i = 0; i < runs; i += 1) {
+        const signerIndex = Math.floor(random() * accounts.length);
+        const args = generateRandomInputs(inputs, { caller: accounts[signerIndex], accounts }, random);
+        const value = payable ? PAYABLE_VALUES[Math.floor(random() * PAYABLE_VALUES.length)] : 0n;
+        calls.push({ fragment, signature, signerIndex, args, value });
+      }
+    } catch {
+      skipped.add(signature);
+      continue;
+    }
+    batches.push({ signature, sequences: calls.map((call) => ({ name: 'fuzz', calls: [call] })) });
+  }
+  return batches;
+}
+
+/**
+ * Views read after every step to observe storage: those without inputs, and those
+ * taking a single address, queried for each signer and the contract itself.
+ */
+function observedViews(abi: any[], accounts: string[]): Array<{ key: string; fragment: any; args: string[] | null }> {
+  const views: Array<{ key: string; fragment: any; args: string[] | null }> = [];
+  for (const fragment of abi) {
+    if (fragment.type !== 'function' || (fragment.stateMutability !== 'view' && fragment.stateMutability !== 'pure')) {
+      continue;
+    }
+    const inputs = fragment.inputs || [];
+    const signature = functionDisplayName(fragment);
+    if (inputs.length === 0) {
+      views.push({ key: signature, fragment, args: [] });
+    } else if (inputs.length === 1 && inputs[0].type === 'address') {
+      accounts.forEach((account, index) =>
+        views.push({ key: `${signature}[$signer:${index}]`, fragment, args: [account] })
+      );
+      views.push({ key: `${signature}[$contract]`, fragment, args: null });
+    }
+  }
+  return views;
+}
+
+async function executeCall(
+  iface: any,
+  address: string,
+  call: PlannedCall,
+  signers: any[],
+  nextBlock: () => Promise<void>,
+  views: Array<{ key: string; fragment: any; args: string[] | null }>
+): Promise<StepObservation> {
+  const signer = signers[call.signerIndex];
+  const data = iface.encodeFunctionData(ethers.FunctionFragment.from(call.fragment), call.args);
+  let outcome = await staticCall({ to: address, from: signer.address, data, value: call.value });
+  let logs: LogEntry[] = [];
+
+  // Calls that revert are still mined so both replays keep the same nonces and block times.
+  if (isStateChanging(call.fragment.stateMutability)) {
+    await nextBlock();
+    try {
+      const tx = await signer.sendTransaction({
+        to: address,
+        data,
+        value: call.value,
+        gasLimit: CALL_GAS_LIMIT,
+        maxFeePerGas: 0n,
+        maxPriorityFeePerGas: 0n,
+      });
+      const receipt = await tx.wait();
+      logs = (receipt?.logs || []).map((log: any) => ({
+        address: log.address,
+        topics: [...log.topics],
+        data: log.data,
+      }));
+    } catch (error: unknown) {
+      if (outcome.ok) {
+        outcome = { ok: false, data: revertData(error) };
+      }
+    }
+  }
+
+  const state: Record<string, string> = {
+    $balance: (await ethers.provider.getBalance(address)).toString(),
+  };
+  for (const view of views) {
+    const viewData = iface.encodeFunctionData(ethers.FunctionFragment.from(view.fragment), view.args || [address]);
+    const result = await staticCall({ to: address, data: viewData });
+    state[view.key] = result.ok
+      ? describeReturn(iface, view.fragment, result.data)
+      : `reverted ${describeRevert(iface, result.data)}`;
+  }
+
+  return { outcome, logs, state };
+}
+
+async function staticCall(tx: { to: string; from?: string; data: string; value?: bigint }): Promise<CallOutcome> {
+  try {
+    return { ok: true, data: await ethers.provider.call(tx) };
+  } catch (error: unknown) {
+    return { ok: false, data: revertData(error) };
+  }
+}
+
+function compareStep(
+  iface: any,
+  call: PlannedCall,
+  original: StepObservation,
+  candidate: StepObservation
+): Divergence['mismatches'] {
+  const found: Divergence['mismatches'] = [];
+  const describe = (outcome: CallOutcome) =>
+    outcome.ok ? `returned ${describeReturn(iface, call.fragment, outcome.data)}` : `reverted ${describeRevert(iface, outcome.data)}`;
+
+  if (original.outcome.ok !== candidate.outcome.ok || original.outcome.data !== candidate.outcome.data) {
+    found.push({
+      kind: original.outcome.ok && candidate.outcome.ok ? 'return' : 'revert',
+      original: describe(original.outcome),
+      candidate: describe(candidate.outcome),
+    });
+  }
+
+  if (JSON.stringify(original.logs) !== JSON.stringify(candidate.logs)) {
+    found.push({
+      kind: 'events',
+      original: describeLogs(iface, original.logs),
+      candidate: describeLogs(iface, candidate.logs),
+    });
+  }
+
+  for (const key of new Set([...Object.keys(original.state), ...Object.keys(candidate.state)])) {
+    if (original.state[key] !== candidate.state[key]) {
+      found.push({
+        kind: 'state',
+        observed: key,
+        original: original.state[key] ?? 'missing',
+        candidate: candidate.state[key] ?? 'missing',
+      });
+    }
+  }
+  return found;
+}
+
+/** Compares two replays of `calls` up to (and including) the first step that differs. */
+function firstDivergence(
+  iface: any,
+  calls: PlannedCall[],
+  original: StepObservation[],
+  candidate: StepObservation[]
+): { compared: PlannedCall[]; divergence?: Divergence } {
+  for (const [step, call] of calls.entries()) {
+    if (!original[step] || !candidate[step]) {
+      break;
+    }
+    const found = compareStep(iface, call, original[step], candidate[step]);
+    if (found.length > 0) {
+      return { compared: calls.slice(0, step + 1), divergence: { step, mismatches: found } };
+    }
+  }
+  return { compared: calls.slice(0, Math.min(original.length, candidate.length)) };
+}
+
+/**
+ * Greedily shrinks a diverging call sequence: drops calls that are not needed, then
+ * simplifies callers, values and arguments one at a time, keeping each change that
+ * still reproduces a divergence. Each attempt replays both contracts from scratch.
+ */
+async function shrink(
+  calls: PlannedCall[],
+  check: (calls: PlannedCall[]) => Promise<Divergence | undefined>,
+  accounts: string[]
+): Promise<{ calls: PlannedCall[]; divergence: Divergence; runs: number } | undefined> {
+  let runs = 1;
+  let divergence = await check(calls);
+  if (!divergence) {
+    return undefined;
+  }
+  let best = calls.slice(0, divergence.step + 1);
+
+  const attempt = async (trial: PlannedCall[]): Promise<boolean> => {
+    if (runs >= MAX_SHRINK_RUNS) {
+      return false;
+    }
+    runs += 1;
+    const found = await check(trial);
+    if (!found) {
+      return false;
+    }
+    best = trial.slice(0, found.step + 1);
+    divergence = found;
+    return true;
+  };
+
+  for (let index = 0; index < best.length - 1 && runs < MAX_SHRINK_RUNS; ) {
+    if (!(await attempt([...best.slice(0, index), ...best.slice(index + 1)]))) {
+      index += 1;
+    }
+  }
+
+  let improved = true;
+  while (improved && runs < MAX_SHRINK_RUNS) {
+    improved = false;
+    for (const [index, call] of best.entries()) {
+      for (const simpler of simplerCalls(call, accounts)) {
+        if (await attempt(best.map((other, i) => (i === index ? simpler : other)))) {
+          improved = true;
+          break;
+        }
+      }
+      if (improved) {
+        break;
+      }
+    }
+  }
+  return { calls: best, divergence, runs };
+}
+
+function simplerCalls(call: PlannedCall, accounts: string[]): PlannedCall[] {
+  const simpler: PlannedCall[] = [];
+  if (call.signerIndex > 0) {
+    simpler.push({ ...call, signerIndex: 0 });
+  }
+  if (call.value > 0n) {
+    simpler.push({ ...call, value: 0n });
+  }
+  const inputs = call.fragment.inputs || [];
+  call.args.forEach((arg, index) => {
+    for (const value of simplerValues(arg, inputs[index], accounts)) {
+      simpler.push({ ...call, args: call.args.map((other, i) => (i === index ? value : other)) });
+    }
+  });
+  return simpler;
+}
+
+function revertData(error: any): string {
+  const data = error?.data ?? error?.info?.error?.data ?? error?.error?.data;
+  if (typeof data === 'string') {
+    return data;
+  }
+  if (data && typeof data.data === 'string') {
+    return data.data;
+  }
+  return `error:${sanitizeReason(error?.shortMessage || error?.message || 'Unknown error')}`;
+}
+
+function describeReturn(iface: any, fragment: any, data: string): string {
+  try {
+    return JSON.stringify(formatValue(iface.decodeFunctionResult(ethers.FunctionFragment.from(fragment), data).toArray()));
+  } catch {
+    return data;
+  }
+}
+
+function describeRevert(iface: any, data: string): string {
+  if (!data.startsWith('0x')) {
+    return `(${data})`;
+  }
+  if (data === '0x') {
+    return 'without data';
+  }
+  try {
+    const coder = ethers.AbiCoder.defaultAbiCoder();
+    if (data.startsWith('0x08c379a0')) {
+      return `with "${coder.decode(['string'], `0x${data.slice(10)}`)[0]}"`;
+    }
+    if (data.startsWith('0x4e487b71')) {
+      return `with panic 0x${(coder.decode(['uint256'], `0x${data.slice(10)}`)[0] as bigint).toString(16)}`;
+    }
+    const parsed = iface.parseError(data);
+    if (parsed) {
+      return `with ${parsed.name}${JSON.stringify(formatValue(parsed.args.toArray()))}`;
+    }
+  } catch {
+    // Fall through to the raw data.
+  }
+  return `with ${data}`;
+}
+
+function describeLogs(iface: any, logs: LogEntry[]): string {
+  if (logs.length === 0) {
+    return 'no events';
+  }
+  return logs
+    .map((log) => {
+      try {
+        const parsed = iface.parseLog(log);
+        if (parsed) {
+          return `${parsed.name}${JSON.stringify(formatValue(parsed.args.toArray()))}`;
+        }
+      } catch {
+        // Not an event of the original ABI.
+      }
+      return `log(${log.topics.join(',')}; ${log.data})`;
+    })
+    .join(', ');
+}
+
+function formatValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(formatValue);
+  }
+  return value;
+}
+
+async function loadConfig(): Promise<CheckerConfig> {
+  const configFile = process.env.EQUIVALENCE_CONFIG_FILE;
+  if (!configFile) {
+    throw new Error('Missing EQUIVALENCE_CONFIG_FILE environment variable.');
+  }
+  return JSON.parse(await fs.readFile(configFile, 'utf8')) as CheckerConfig;
+}
+
+async function loadArtifact(sourceFile: string, contractName: string): Promise<Artifact> {
+  const artifactPath = path.join(hardhatConfig.paths.artifacts, 'contracts', sourceFile, `${contractName}.json`);
+  return JSON.parse(await fs.readFile(artifactPath, 'utf8')) as Artifact;
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
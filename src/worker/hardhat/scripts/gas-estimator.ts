@@ -1,6 +1,8 @@
-import { ethers } from 'hardhat';
+import { config as hardhatConfig, ethers, network } from 'hardhat';
 import fs from 'fs/promises';
 import path from 'path';
+import { generateDeterministicInputs, resolveConstructorArgs, resolvePlaceholders } from './lib/inputs';
+import { functionDisplayName, isStateChanging, reportProgress, sanitizeReason } from './lib/reporting';
 
 type Artifact = {
   abi: any[];
@@ -8,11 +10,81 @@ type Artifact = {
   contractName: string;
 };
 
+type MeasurementMode = 'estimate' | 'execute';
+
+type ScenarioCall = {
+  function: string;
+  args?: unknown[];
+  from?: number;
+  value?: string;
+  label?: string;
+};
+
+type Scenario = {
+  name: string;
+  setup?: ScenarioCall[];
+  steps: ScenarioCall[];
+};
+
+type EstimatorConfig = {
+  measurementMode?: MeasurementMode;
+  scenarios?: Scenario[];
+  signerCount?: number;
+  contractName?: string;
+  constructorArgs?: unknown[] | string;
+};
+
+type SignerInfo = {
+  index: number;
+  address: string;
+  roles: string[];
+};
+
+type RoleInfo = {
+  name: string;
+  id: string;
+};
+
+type CallerInfo = {
+  signerIndex: number;
+  address: string;
+};
+
+type ScenarioStepResult =
+  | {
+      status: 'measured';
+      label: string;
+      function: string;
+      signerIndex: number;
+      from: string;
+      gasUsed: string;
+      estimatedGas: string;
+    }
+  | {
+      status: 'failed';
+      label: string;
+      function: string;
+      signerIndex: number;
+      reason: string;
+    };
+
+type ScenarioResult = {
+  name: string;
+  status: 'completed' | 'setup_failed';
+  error?: string;
+  steps: ScenarioStepResult[];
+};
+
 type GasFunctionEntry =
   | {
       status: 'measured';
       gasUsed: string;
+      estimatedGas: string;
+      executedGas?: string;
+      executionError?: string;
       stateMutability: string;
+      caller?: CallerInfo;
+      scenario?: string;
     }
   | {
       status: 'unmeasured';
@@ -20,14 +92,20 @@ type GasFunctionEntry =
       stateMutability: string;
     };
 
+const DEFAULT_SIGNER_COUNT = 4;
+const SIGNER_BALANCE_WEI = 10n ** 24n;
+
 async function main() {
   const sourceFile = process.env.SOURCE_FILE;
   if (!sourceFile) {
     throw new Error('Missing SOURCE_FILE environment variable.');
   }
 
-  const artifactDir = path.join(__dirname, '..', 'artifacts', 'contracts', sourceFile);
-  const artifactFileName = await findArtifactFile(artifactDir);
+  const config = await loadConfig();
+  const measurementMode: MeasurementMode = config.measurementMode === 'execute' ? 'execute' : 'estimate';
+
+  const artifactDir = path.join(hardhatConfig.paths.artifacts, 'contracts', sourceFile);
+  const artifactFileName = config.contractName ? `${config.contractName}.json` : await findArtifactFile(artifactDir);
   if (!artifactFileName) {
     throw new Error(`No artifact found for ${sourceFile} in ${artifactDir}`);
   }
@@ -40,14 +118,28 @@ async function main() {
   // - Flattened contracts  
   // - Contracts with same names in different files
   // This avoids Hardhat artifact lookup conflicts entirely
-  const Contract = await ethers.getContractFactory(artifact.abi, artifact.bytecode);
+  const allSigners = await ethers.getSigners();
+  const signerCount = Math.max(2, Math.min(config.signerCount || DEFAULT_SIGNER_COUNT, allSigners.length));
+  const signers = allSigners.slice(0, signerCount);
+  const accounts = signers.map((signer) => signer.address);
+  for (const address of accounts) {
+    await network.provider.send('hardhat_setBalance', [address, ethers.toQuantity(SIGNER_BALANCE_WEI)]);
+  }
+
+  const deployer = signers[0];
+  const Contract = await ethers.getContractFactory(artifact.abi, artifact.bytecode, deployer);
 
   // Find constructor inputs and generate deterministic arguments
   const constructorFragment = artifact.abi.find((item) => item.type === 'constructor');
   const constructorInputs = constructorFragment?.inputs || [];
-  const constructorArgs = generateDeterministicInputs(constructorInputs);
+  const constructorArgs = resolveConstructorArgs(
+    config.constructorArgs,
+    Contract.interface.deploy.inputs,
+    () => generateDeterministicInputs(constructorInputs, { caller: deployer.address, accounts }),
+    allSigners
+  );
 
-  console.error(`Deploying ${artifact.contractName} with ${constructorArgs.length} constructor args...`);
+  reportProgress('deploying', `Deploying ${artifact.contractName} with ${constructorArgs.length} constructor args...`);
   
   const contract = await Contract.deploy(...constructorArgs);
   await contract.waitForDeployment();
@@ -55,36 +147,90 @@ async function main() {
   const deployTx = contract.deploymentTransaction();
   const deployGas = deployTx ? (await deployTx.wait())?.gasUsed.toString() || '0' : '0';
 
+  const { signers: signerInfo, roles } = await detectRoles(contract, artifact.abi, signers);
+
+  // Every scenario starts from this snapshot of the freshly deployed contract, taken before any role grants.
+  let deploymentSnapshot: string = await network.provider.send('evm_snapshot', []);
+
+  // Functions are measured one by one from the deployer first, so it holds every role it may grant for this pass.
+  const deployerGrants = await grantRoles(contract, roles, signers, [0]);
+  const isPrivileged = (info: SignerInfo) =>
+    info.roles.some((role) => role !== 'deployer') || (info.index === 0 && deployerGrants > 0);
+  const callerOrder = [...signerInfo]
+    .sort((a, b) => Number(isPrivileged(b)) - Number(isPrivileged(a)) || a.index - b.index)
+    .map((info) => info.index);
+
+  // In execute mode, state-changing calls are mined one after another in ABI order,
+  // so receipts reflect refunds and warm/cold storage effects left by earlier calls.
   const functionGasEstimates: Record<string, GasFunctionEntry> = {};
-  for (const fragment of artifact.abi) {
-    if (fragment.type === 'function') {
-      const funcName = functionDisplayName(fragment);
-      const stateMutability = fragment.stateMutability || 'nonpayable';
-      try {
-        const args = generateDeterministicInputs(fragment.inputs || []);
-        const fn = contract.getFunction(funcName);
-        const estimate = await fn.estimateGas(...args);
-        functionGasEstimates[funcName] = {
-          status: 'measured',
-          gasUsed: estimate.toString(),
-          stateMutability,
-        };
-      } catch (error: unknown) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        functionGasEstimates[funcName] = {
-          status: 'unmeasured',
-          reason: sanitizeReason(message),
-          stateMutability,
-        };
+  const functionFragments = artifact.abi.filter((fragment) => fragment.type === 'function');
+  for (const [index, fragment] of functionFragments.entries()) {
+    const funcName = functionDisplayName(fragment);
+    const stateMutability = fragment.stateMutability || 'nonpayable';
+    const position = `${index + 1}/${functionFragments.length}`;
+    reportProgress('measuring', `Measuring ${funcName} (${position})...`, index + 1, functionFragments.length);
+    try {
+      const { signerIndex, args, estimate } = await estimateWithCallers(
+        contract,
+        funcName,
+        fragment.inputs || [],
+        signers,
+        callerOrder
+      );
+      const fn = contract.connect(signers[signerIndex]).getFunction(funcName);
+      const entry: GasFunctionEntry = {
+        status: 'measured',
+        gasUsed: estimate.toString(),
+        estimatedGas: estimate.toString(),
+        stateMutability,
+        caller: { signerIndex, address: accounts[signerIndex] },
+      };
+
+      if (measurementMode === 'execute' && isStateChanging(stateMutability)) {
+        try {
+          const tx = await fn.send(...args);
+          const receipt = await tx.wait();
+          if (receipt) {
+            entry.executedGas = receipt.gasUsed.toString();
+            entry.gasUsed = entry.executedGas;
+          }
+        } catch (executionError: unknown) {
+          const message = executionError instanceof Error ? executionError.message : 'Unknown error';
+          entry.executionError = sanitizeReason(message);
+        }
       }
+
+      functionGasEstimates[funcName] = entry;
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      functionGasEstimates[funcName] = {
+        status: 'unmeasured',
+        reason: sanitizeReason(message),
+        stateMutability,
+      };
     }
   }
 
+  const scenarioResults: ScenarioResult[] = [];
+  if (config.scenarios?.length) {
+    for (const [index, scenario] of config.scenarios.entries()) {
+      await network.provider.send('evm_revert', [deploymentSnapshot]);
+      deploymentSnapshot = await network.provider.send('evm_snapshot', []);
+      reportProgress('scenario', `Running scenario ${scenario.name}...`, index + 1, config.scenarios.length);
+      await grantRoles(contract, roles, allSigners, scenarioCallers(scenario, allSigners.length));
+      scenarioResults.push(await runScenario(contract, scenario, allSigners));
+    }
+    backfillFromScenarios(functionGasEstimates, scenarioResults);
+  }
+
   console.log(
     JSON.stringify(
       {
         deploymentGas: deployGas,
+        measurementMode,
+        signers: signerInfo,
         functions: functionGasEstimates,
+        ...(config.scenarios?.length ? { scenarios: scenarioResults } : {}),
       },
       null,
       2
@@ -92,6 +238,221 @@ async function main() {
   );
 }
 
+// Privileged signers (owner / role holders) are tried first so access-controlled
+// functions measure their real path; everyone else falls back in index order.
+async function estimateWithCallers(
+  contract: any,
+  funcName: string,
+  inputs: any[],
+  signers: any[],
+  callerOrder: number[]
+): Promise<{ signerIndex: number; args: any[]; estimate: bigint }> {
+  const accounts = signers.map((signer) => signer.address as string);
+  let firstError: unknown;
+  for (const signerIndex of callerOrder) {
+    try {
+      const args = generateDeterministicInputs(inputs, { caller: accounts[signerIndex], accounts });
+      const estimate: bigint = await contract.connect(signers[signerIndex]).getFunction(funcName).estimateGas(...args);
+      return { signerIndex, args, estimate };
+    } catch (error: unknown) {
+      firstError = firstError ?? error;
+    }
+  }
+  throw firstError instanceof Error ? firstError : new Error('No signer could call this function.');
+}
+
+// Reads roles without changing state; `roles` are the AccessControl roles the ABI exposes.
+async function detectRoles(
+  contract: any,
+  abi: any[],
+  signers: any[]
+): Promise<{ signers: SignerInfo[]; roles: RoleInfo[] }> {
+  const info: SignerInfo[] = signers.map((signer, index) => ({
+    index,
+    address: signer.address,
+    roles: index === 0 ? ['deployer'] : [],
+  }));
+  const indexOf = (address: string) =>
+    info.findIndex((entry) => entry.address.toLowerCase() === String(address).toLowerCase());
+
+  const hasFunction = (name: string, inputCount: number) =>
+    abi.some((item) => item.type === 'function' && item.name === name && (item.inputs || []).length === inputCount);
+
+  if (hasFunction('owner', 0)) {
+    try {
+      const ownerIndex = indexOf(await contract.getFunction('owner')());
+      if (ownerIndex >= 0) {
+        info[ownerIndex].roles.push('owner');
+      }
+    } catch {
+      // owner() may revert or return a non-address; treat as not Ownable.
+    }
+  }
+
+  const roles: RoleInfo[] = [];
+  if (hasFunction('hasRole', 2) && hasFunction('grantRole', 2)) {
+    const roleGetters = abi.filter(
+      (item) =>
+        item.type === 'function' &&
+        (item.inputs || []).length === 0 &&
+        (item.name === 'DEFAULT_ADMIN_ROLE' || /_ROLE$/.test(item.name)) &&
+        item.outputs?.length === 1 &&
+        item.outputs[0].type === 'bytes32'
+    );
+    for (const getter of roleGetters) {
+      try {
+        const role = await contract.getFunction(getter.name)();
+        for (const entry of info) {
+          if (await contract.getFunction('hasRole')(role, entry.address)) {
+            entry.roles.push(getter.name);
+          }
+        }
+        roles.push({ name: getter.name, id: role });
+      } catch {
+        // The getter or hasRole reverted; not a usable role.
+      }
+    }
+  }
+
+  return { signers: info, roles };
+}
+
+// Grants the given signers every role the deployer is allowed to grant, so role-gated calls are
+// reachable from them; returns how many grants were made.
+async function grantRoles(contract: any, roles: RoleInfo[], signers: any[], grantees: number[]): Promise<number> {
+  let granted = 0;
+  for (const role of roles) {
+    for (const index of grantees) {
+      try {
+        if (await contract.getFunction('hasRole')(role.id, signers[index].address)) {
+          continue;
+        }
+        await (await contract.connect(signers[0]).getFunction('grantRole')(role.id, signers[index].address)).wait();
+        granted += 1;
+      } catch {
+        // Role is not grantable by the deployer; leave it unassigned.
+      }
+    }
+  }
+  return granted;
+}
+
+// Signers that send a scenario's setup calls or steps; out-of-range indexes fail in the scenario itself.
+function scenarioCallers(scenario: Scenario, signerCount: number): number[] {
+  const indexes = [...(scenario.setup || []), ...scenario.steps].map((call) => call.from ?? 0);
+  return [...new Set(indexes)].filter((index) => index < signerCount);
+}
+
+async function runScenario(contract: any, scenario: Scenario, signers: any[]): Promise<ScenarioResult> {
+  for (const [index, call] of (scenario.setup || []).entries()) {
+    try {
+      await sendScenarioCall(contract, call, signers);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        name: scenario.name,
+        status: 'setup_failed',
+        error: sanitizeReason(`Setup call ${index + 1} (${call.function}) failed: ${message}`),
+        steps: [],
+      };
+    }
+  }
+
+  const steps: ScenarioStepResult[] = [];
+  for (const [index, call] of scenario.steps.entries()) {
+    const label = call.label || `${index + 1}:${call.function}`;
+    const signerIndex = call.from ?? 0;
+    try {
+      const measured = await sendScenarioCall(contract, call, signers);
+      steps.push({
+        status: 'measured',
+        label,
+        function: measured.functionName,
+        signerIndex,
+        from: measured.from,
+        gasUsed: measured.gasUsed,
+        estimatedGas: measured.estimatedGas,
+      });
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      steps.push({
+        status: 'failed',
+        label,
+        function: call.function,
+        signerIndex,
+        reason: sanitizeReason(message),
+      });
+    }
+  }
+
+  return { name: scenario.name, status: 'completed', steps };
+}
+
+async function sendScenarioCall(
+  contract: any,
+  call: ScenarioCall,
+  signers: any[]
+): Promise<{ functionName: string; from: string; gasUsed: string; estimatedGas: string }> {
+  const signerIndex = call.from ?? 0;
+  const signer = signers[signerIndex];
+  if (!signer) {
+    throw new Error(`Signer index ${signerIndex} is out of range (${signers.length} signers available).`);
+  }
+
+  const fragment = contract.interface.getFunction(call.function);
+  if (!fragment) {
+    throw new Error(`Function ${call.function} not found in contract ABI.`);
+  }
+
+  const contractAddress = await contract.getAddress();
+  const args = (call.args || []).map((arg) => resolvePlaceholders(arg, signers, contractAddress));
+  const overrides = call.value ? { value: BigInt(call.value) } : {};
+  const fn = contract.connect(signer).getFunction(fragment.format('sighash'));
+
+  const estimate = await fn.estimateGas(...args, overrides);
+  const tx = await fn.send(...args, overrides);
+  const receipt = await tx.wait();
+
+  return {
+    functionName: functionDisplayName(fragment),
+    from: signer.address,
+    gasUsed: receipt ? receipt.gasUsed.toString() : estimate.toString(),
+    estimatedGas: estimate.toString(),
+  };
+}
+
+// Functions that could not be measured in isolation take their gas from the first
+// scenario step that exercised them.
+function backfillFromScenarios(
+  functions: Record<string, GasFunctionEntry>,
+  scenarios: ScenarioResult[]
+): void {
+  for (const scenario of scenarios) {
+    for (const step of scenario.steps) {
+      const existing = functions[step.function];
+      if (step.status !== 'measured' || !existing || existing.status !== 'unmeasured') {
+        continue;
+      }
+      functions[step.function] = {
+        status: 'measured',
+        gasUsed: step.gasUsed,
+        estimatedGas: step.estimatedGas,
+        executedGas: step.gasUsed,
+        stateMutability: existing.stateMutability,
+        scenario: scenario.name,
+      };
+    }
+  }
+}
+
+async function loadConfig(): Promise<EstimatorConfig> {
+  const configFile = process.env.ESTIMATOR_CONFIG_FILE;
+  if (!configFile) {
+    return {};
+  }
+  return JSON.parse(await fs.readFile(configFile, 'utf8')) as EstimatorConfig;
+}
+
 async function findArtifactFile(artifactDir: string): Promise<string | undefined> {
   const files = await fs.readdir(artifactDir);
   const jsonFiles = files.filter((file) => file.endsWith('.json') && !file.endsWith('.dbg.json'));
@@ -125,85 +486,6 @@ async function findArtifactFile(artifactDir: string): Promise<string | undefined
   return mainContract || jsonFiles[jsonFiles.length - 1];
 }
 
-function functionDisplayName(fragment: any): string {
-  const inputTypes = (fragment.inputs || []).map((input: any) => input.type).join(',');
-  return `${fragment.name}(${inputTypes})`;
-}
-
-function sanitizeReason(message: string): string {
-  const collapsed = message.replace(/\s+/g, ' ').trim();
-  if (collapsed.length <= 220) {
-    return collapsed;
-  }
-  return `${collapsed.slice(0, 217)}...`;
-}
-
-function generateDeterministicInputs(inputs: any[]): any[] {
-  return inputs.map((input, index) => generateValueByInput(input, index, 0));
-}
-
-function generateValueByInput(input: any, index: number, depth: number): any {
-  if (depth > 4) {
-    throw new Error(`Unsupported nested type depth for ${input.type}`);
-  }
-  return generateValue(input.type, input.components || [], index, depth);
-}
-
-function generateValue(type: string, components: any[], index: number, depth: number): any {
-  const dynamicArrayMatch = type.match(/^(.*)\[\]$/);
-  if (dynamicArrayMatch) {
-    const base = dynamicArrayMatch[1];
-    return [
-      generateValue(base, components, index, depth + 1),
-      generateValue(base, components, index + 1, depth + 1),
-    ];
-  }
-
-  const fixedArrayMatch = type.match(/^(.*)\[(\d+)\]$/);
-  if (fixedArrayMatch) {
-    const base = fixedArrayMatch[1];
-    const length = parseInt(fixedArrayMatch[2], 10);
-    return Array.from({ length }, (_, i) => generateValue(base, components, index + i, depth + 1));
-  }
-
-  if (type === 'tuple') {
-    return components.map((component: any, i: number) => generateValueByInput(component, index + i, depth + 1));
-  }
-
-  if (type.startsWith('uint') || type === 'uint') {
-    return BigInt(index + 1);
-  }
-
-  if (type.startsWith('int') || type === 'int') {
-    return BigInt(index + 1);
-  }
-
-  if (type === 'address') {
-    const hex = (index + 1).toString(16).padStart(40, '0');
-    return `0x${hex}`;
-  }
-
-  if (type === 'bool') {
-    return index % 2 === 0;
-  }
-
-  if (type === 'string') {
-    return `gweizero_${index}`;
-  }
-
-  if (type === 'bytes') {
-    return '0x1234';
-  }
-
-  const fixedBytesMatch = type.match(/^bytes(\d+)$/);
-  if (fixedBytesMatch) {
-    const size = parseInt(fixedBytesMatch[1], 10);
-    return `0x${'11'.repeat(size)}`;
-  }
-
-  throw new Error(`Unsupported ABI type: ${type}`);
-}
-
 main().catch((error) => {
   console.error(error);
   process.exitCode = 1;
@@ -0,0 +1,382 @@
+import { ethers } from 'hardhat';
+
+export type InputContext = {
+  caller: string;
+  accounts: string[];
+};
+
+/** Returns floats in [0, 1); the same seed always yields the same sequence. */
+export type RandomSource = () => number;
+
+const PRIVILEGED_PARAM_PATTERN = /owner|admin|governor|manager|minter|treasury/i;
+const CALLER_PARAM_PATTERN = /^_?(from|sender|owner|account)$/i;
+const MAX_TYPE_DEPTH = 4;
+
+// mulberry32: tiny, fast and good enough to pick fuzz inputs reproducibly.
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Explicit args are either a JSON list (with the same placeholders as scenarios) or
+// an ABI-encoded hex blob; without them the deterministic generator is used.
+export function resolveConstructorArgs(
+  explicit: unknown[] | string | undefined,
+  inputs: readonly any[],
+  generate: () => any[],
+  signers: any[]
+): any[] {
+  if (explicit === undefined) {
+    return generate();
+  }
+  if (typeof explicit === 'string') {
+    const encoded = explicit.startsWith('0x') ? explicit : `0x${explicit}`;
+    return [...ethers.AbiCoder.defaultAbiCoder().decode(inputs, encoded)];
+  }
+  if (explicit.length !== inputs.length) {
+    throw new Error(`Constructor expects ${inputs.length} args but ${explicit.length} were provided.`);
+  }
+  return explicit.map((arg) => resolvePlaceholders(arg, signers));
+}
+
+// Scenario args may reference runtime addresses: "$signer:N" and "$contract".
+export function resolvePlaceholders(value: unknown, signers: any[], contractAddress?: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((item) => resolvePlaceholders(item, signers, contractAddress));
+  }
+  if (typeof value !== 'string') {
+    return value;
+  }
+  if (value === '$contract') {
+    if (!contractAddress) {
+      throw new Error('$contract is not available before the contract is deployed.');
+    }
+    return contractAddress;
+  }
+  const signerMatch = value.match(/^\$signer:(\d+)$/);
+  if (signerMatch) {
+    const signer = signers[parseInt(signerMatch[1], 10)];
+    if (!signer) {
+      throw new Error(`Placeholder ${value} references an unknown signer.`);
+    }
+    return signer.address;
+  }
+  return value;
+}
+
+export function generateDeterministicInputs(inputs: any[], ctx: InputContext): any[] {
+  return inputs.map((input, index) => generateValueByInput(input, index, 0, ctx));
+}
+
+/**
+ * Random arguments for fuzzed call sequences. Integers favour boundary values,
+ * addresses come from the funded signer set (occasionally the zero address) and
+ * dynamic arrays hold zero to three items.
+ */
+export function generateRandomInputs(inputs: any[], ctx: InputContext, random: RandomSource): any[] {
+  return inputs.map((input) => generateRandomValue(input.type, input.components || [], 0, ctx, random));
+}
+
+/**
+ * Boundary arguments: `zero` gives 0, the zero address, false and empty values;
+ * `max` gives the largest integers, the last signer, true and three-item arrays.
+ */
+export function generateEdgeInputs(inputs: any[], ctx: InputContext, edge: 'zero' | 'max'): any[] {
+  return inputs.map((input) => generateEdgeValue(input.type, input.components || [], 0, ctx, edge));
+}
+
+/**
+ * Simpler values of the same ABI type, simplest first, for shrinking a
+ * counterexample: integers move towards 0, addresses towards the zero address
+ * and then lower signers, arrays lose items, strings and bytes get shorter.
+ * Every candidate is strictly simpler, so repeated shrinking terminates.
+ */
+export function simplerValues(value: any, input: { type: string; components?: any[] }, accounts: string[]): any[] {
+  const { type } = input;
+  const components = input.components || [];
+
+  const arrayMatch = type.match(/^(.*)\[(\d*)\]$/);
+  if (arrayMatch) {
+    const element = { type: arrayMatch[1], components };
+    const items = value as any[];
+    const dynamic = arrayMatch[2] === '';
+    const shorter =
+      !dynamic || items.length === 0 ? [] : items.length === 1 ? [[]] : [[], items.slice(1), items.slice(0, -1)];
+    const simplerItems = items.flatMap((item, index) =>
+      simplerValues(item, element, accounts).map((simpler) => items.map((other, i) => (i === index ? simpler : other)))
+    );
+    return [...shorter, ...simplerItems];
+  }
+
+  if (type === 'tuple') {
+    const fields = value as any[];
+    return components.flatMap((component: any, index: number) =>
+      simplerValues(fields[index], component, accounts).map((simpler) =>
+        fields.map((other, i) => (i === index ? simpler : other))
+      )
+    );
+  }
+
+  if (/^u?int\d*$/.test(type)) {
+    // Round numbers first (the largest power of two or ten below the value), since
+    // thresholds such as overflows tend to sit on them, then halving and stepping.
+    const n = value as bigint;
+    const sign = n < 0n ? -1n : 1n;
+    const magnitude = n * sign;
+    const powerOfTwo = magnitude > 0n ? 1n << BigInt(magnitude.toString(2).length - 1) : 0n;
+    const powerOfTen = magnitude > 0n ? 10n ** BigInt(magnitude.toString().length - 1) : 0n;
+    const candidates = [0n, 1n, powerOfTwo, powerOfTen, magnitude / 2n, magnitude - 1n].filter(
+      (candidate) => candidate >= 0n && candidate < magnitude
+    );
+    return [...new Set(candidates)].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0)).map((candidate) => candidate * sign);
+  }
+
+  if (type === 'address') {
+    const ranked = [ethers.ZeroAddress, ...accounts].map((address) => address.toLowerCase());
+    const rank = ranked.indexOf(String(value).toLowerCase());
+    return [ethers.ZeroAddress, ...accounts].slice(0, rank === -1 ? ranked.length : rank);
+  }
+
+  if (type === 'bool') {
+    return value ? [false] : [];
+  }
+
+  if (type === 'string') {
+    const text = value as string;
+    return text.length === 0 ? [] : [...new Set(['', text.slice(0, Math.floor(text.length / 2))])];
+  }
+
+  if (type === 'bytes') {
+    const size = ((value as string).length - 2) / 2;
+    return size === 0 ? [] : [...new Set(['0x', (value as string).slice(0, 2 + Math.floor(size / 2) * 2)])];
+  }
+
+  const fixedBytesMatch = type.match(/^bytes(\d+)$/);
+  if (fixedBytesMatch) {
+    const zero = `0x${'00'.repeat(parseInt(fixedBytesMatch[1], 10))}`;
+    return String(value).toLowerCase() === zero ? [] : [zero];
+  }
+
+  return [];
+}
+
+function generateValueByInput(input: any, index: number, depth: number, ctx: InputContext): any {
+  if (depth > MAX_TYPE_DEPTH) {
+    throw new Error(`Unsupported nested type depth for ${input.type}`);
+  }
+  return generateValue(input.type, input.components || [], index, depth, ctx, input.name || '');
+}
+
+function generateValue(
+  type: string,
+  components: any[],
+  index: number,
+  depth: number,
+  ctx: InputContext,
+  name: string
+): any {
+  const dynamicArrayMatch = type.match(/^(.*)\[\]$/);
+  if (dynamicArrayMatch) {
+    const base = dynamicArrayMatch[1];
+    return [
+      generateValue(base, components, index, depth + 1, ctx, name),
+      generateValue(base, components, index + 1, depth + 1, ctx, name),
+    ];
+  }
+
+  const fixedArrayMatch = type.match(/^(.*)\[(\d+)\]$/);
+  if (fixedArrayMatch) {
+    const base = fixedArrayMatch[1];
+    const length = parseInt(fixedArrayMatch[2], 10);
+    return Array.from({ length }, (_, i) => generateValue(base, components, index + i, depth + 1, ctx, name));
+  }
+
+  if (type === 'tuple') {
+    return components.map((component: any, i: number) => generateValueByInput(component, index + i, depth + 1, ctx));
+  }
+
+  if (type.startsWith('uint') || type === 'uint') {
+    return BigInt(index + 1);
+  }
+
+  if (type.startsWith('int') || type === 'int') {
+    return BigInt(index + 1);
+  }
+
+  if (type === 'address') {
+    return generateAddress(index, ctx, name);
+  }
+
+  if (type === 'bool') {
+    return index % 2 === 0;
+  }
+
+  if (type === 'string') {
+    return `gweizero_${index}`;
+  }
+
+  if (type === 'bytes') {
+    return '0x1234';
+  }
+
+  const fixedBytesMatch = type.match(/^bytes(\d+)$/);
+  if (fixedBytesMatch) {
+    const size = parseInt(fixedBytesMatch[1], 10);
+    return `0x${'11'.repeat(size)}`;
+  }
+
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+// Addresses come from the funded signer set: the caller for "from"-style params,
+// the deployer for owner/admin-style constructor params, another signer otherwise.
+function generateAddress(index: number, ctx: InputContext, name: string): string {
+  if (CALLER_PARAM_PATTERN.test(name) || PRIVILEGED_PARAM_PATTERN.test(name)) {
+    return ctx.caller;
+  }
+  const others = ctx.accounts.filter((address) => address !== ctx.caller);
+  return others[index % others.length];
+}
+
+function generateRandomValue(
+  type: string,
+  components: any[],
+  depth: number,
+  ctx: InputContext,
+  random: RandomSource
+): any {
+  if (depth > MAX_TYPE_DEPTH) {
+    throw new Error(`Unsupported nested type depth for ${type}`);
+  }
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+
+  const dynamicArrayMatch = type.match(/^(.*)\[\]$/);
+  if (dynamicArrayMatch) {
+    const length = Math.floor(random() * 4);
+    return Array.from({ length }, () => generateRandomValue(dynamicArrayMatch[1], components, depth + 1, ctx, random));
+  }
+
+  const fixedArrayMatch = type.match(/^(.*)\[(\d+)\]$/);
+  if (fixedArrayMatch) {
+    const length = parseInt(fixedArrayMatch[2], 10);
+    return Array.from({ length }, () => generateRandomValue(fixedArrayMatch[1], components, depth + 1, ctx, random));
+  }
+
+  if (type === 'tuple') {
+    return components.map((component: any) =>
+      generateRandomValue(component.type, component.components || [], depth + 1, ctx, random)
+    );
+  }
+
+  const intMatch = type.match(/^(u?)int(\d*)$/);
+  if (intMatch) {
+    const bits = BigInt(intMatch[2] || '256');
+    const signed = intMatch[1] === '';
+    const max = signed ? (1n << (bits - 1n)) - 1n : (1n << bits) - 1n;
+    const min = signed ? -(1n << (bits - 1n)) : 0n;
+    const small = BigInt(Math.floor(random() * 1000));
+    const wide = randomBigInt(bits - (signed ? 1n : 0n), random);
+    const value = pick([0n, 1n, small, small, wide, max, max - 1n, min]);
+    return signed && value !== min && random() < 0.3 ? -value : value;
+  }
+
+  if (type === 'address') {
+    return random() < 0.1 ? ethers.ZeroAddress : pick(ctx.accounts);
+  }
+
+  if (type === 'bool') {
+    return random() < 0.5;
+  }
+
+  if (type === 'string') {
+    return pick(['', 'gweizero', `gweizero_${Math.floor(random() * 1e6)}`, 'x'.repeat(40)]);
+  }
+
+  if (type === 'bytes') {
+    return randomHex(Math.floor(random() * 40), random);
+  }
+
+  const fixedBytesMatch = type.match(/^bytes(\d+)$/);
+  if (fixedBytesMatch) {
+    return randomHex(parseInt(fixedBytesMatch[1], 10), random);
+  }
+
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function generateEdgeValue(
+  type: string,
+  components: any[],
+  depth: number,
+  ctx: InputContext,
+  edge: 'zero' | 'max'
+): any {
+  if (depth > MAX_TYPE_DEPTH) {
+    throw new Error(`Unsupported nested type depth for ${type}`);
+  }
+
+  const dynamicArrayMatch = type.match(/^(.*)\[\]$/);
+  if (dynamicArrayMatch) {
+    const length = edge === 'zero' ? 0 : 3;
+    return Array.from({ length }, () => generateEdgeValue(dynamicArrayMatch[1], components, depth + 1, ctx, edge));
+  }
+
+  const fixedArrayMatch = type.match(/^(.*)\[(\d+)\]$/);
+  if (fixedArrayMatch) {
+    const length = parseInt(fixedArrayMatch[2], 10);
+    return Array.from({ length }, () => generateEdgeValue(fixedArrayMatch[1], components, depth + 1, ctx, edge));
+  }
+
+  if (type === 'tuple') {
+    return components.map((component: any) =>
+      generateEdgeValue(component.type, component.components || [], depth + 1, ctx, edge)
+    );
+  }
+
+  const intMatch = type.match(/^(u?)int(\d*)$/);
+  if (intMatch) {
+    const bits = BigInt(intMatch[2] || '256');
+    return edge === 'zero' ? 0n : intMatch[1] === 'u' ? (1n << bits) - 1n : (1n << (bits - 1n)) - 1n;
+  }
+
+  if (type === 'address') {
+    return edge === 'zero' ? ethers.ZeroAddress : ctx.accounts[ctx.accounts.length - 1];
+  }
+
+  if (type === 'bool') {
+    return edge === 'max';
+  }
+
+  if (type === 'string') {
+    return edge === 'zero' ? '' : 'x'.repeat(64);
+  }
+
+  if (type === 'bytes') {
+    return edge === 'zero' ? '0x' : `0x${'ff'.repeat(64)}`;
+  }
+
+  const fixedBytesMatch = type.match(/^bytes(\d+)$/);
+  if (fixedBytesMatch) {
+    return `0x${(edge === 'zero' ? '00' : 'ff').repeat(parseInt(fixedBytesMatch[1], 10))}`;
+  }
+
+  throw new Error(`Unsupported ABI type: ${type}`);
+}
+
+function randomBigInt(bits: bigint, random: RandomSource): bigint {
+  let value = 0n;
+  for (let filled = 0n; filled < bits; filled += 16n) {
+    value = (value << 16n) | BigInt(Math.floor(random() * 65536));
+  }
+  return value & ((1n << bits) - 1n);
+}
+
+function randomHex(size: number, random: RandomSource): string {
+  return `0x${Array.from({ length: size }, () => Math.floor(random() * 256).toString(16).padStart(2, '0')).join('')}`;
+}
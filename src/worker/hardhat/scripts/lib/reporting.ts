@@ -0,0 +1,25 @@
+// stdout carries only the final JSON result; the worker reads these stderr lines as live progress.
+const PROGRESS_PREFIX = 'GWEIZERO_PROGRESS ';
+
+export type ProgressStep = 'deploying' | 'measuring' | 'scenario' | 'comparing';
+
+export function reportProgress(step: ProgressStep, message: string, current?: number, total?: number) {
+  process.stderr.write(`${PROGRESS_PREFIX}${JSON.stringify({ step, message, current, total })}\n`);
+}
+
+export function functionDisplayName(fragment: any): string {
+  const inputTypes = (fragment.inputs || []).map((input: any) => input.type).join(',');
+  return `${fragment.name}(${inputTypes})`;
+}
+
+export function isStateChanging(stateMutability: string): boolean {
+  return stateMutability === 'nonpayable' || stateMutability === 'payable';
+}
+
+export function sanitizeReason(message: string): string {
+  const collapsed = message.replace(/\s+/g, ' ').trim();
+  if (collapsed.length <= 220) {
+    return collapsed;
+  }
+  return `${collapsed.slice(0, 217)}...`;
+}
@@ -1,14 +1,310 @@
 import { Request, Response } from 'express';
-import { JobStoreService } from '../../services/job-store.service';
+import { CompilerSettings, CompilerSettingsService, EVM_VERSIONS } from '../../services/compiler-settings.service';
+import { AnalysisJob, JOB_PRIORITIES, JobPriority, JobStoreService } from '../../services/job-store.service';
+import {
+  ContractSelectionError,
+  EquivalenceOptions,
+  GasScenario,
+  MAX_SIGNER_COUNT,
+  MEASUREMENT_MODES,
+  MeasurementMode,
+  SourceBundle,
+  WorkerAnalysisOptions,
+  WorkerAnalysisService,
+  WorkerProgressEvent,
+} from '../../services/worker-analysis.service';
+
+const MAX_RANDOM_SEQUENCES = 50;
+const MAX_SEQUENCE_LENGTH = 200;
+const MAX_FUZZ_RUNS = 500;
+
+const validateScenarioCall = (call: unknown, path: string): string | undefined => {
+  if (typeof call !== 'object' || call === null) {
+    return `${path} must be an object`;
+  }
+  const c = call as Record<string, unknown>;
+  if (typeof c.function !== 'string' || !c.function) {
+    return `${path}.function must be a non-empty string`;
+  }
+  if (c.args !== undefined && !Array.isArray(c.args)) {
+    return `${path}.args must be an array`;
+  }
+  if (c.from !== undefined && (!Number.isInteger(c.from) || (c.from as number) < 0)) {
+    return `${path}.from must be a non-negative signer index`;
+  }
+  if (c.value !== undefined && (typeof c.value !== 'string' || !/^\d+$/.test(c.value))) {
+    return `${path}.value must be a decimal wei string`;
+  }
+  if (c.label !== undefined && typeof c.label !== 'string') {
+    return `${path}.label must be a string`;
+  }
+  return undefined;
+};
+
+const validateScenarios = (scenarios: unknown): string | undefined => {
+  if (!Array.isArray(scenarios)) {
+    return 'scenarios must be an array';
+  }
+  for (const [index, scenario] of scenarios.entries()) {
+    const s = scenario as Record<string, unknown>;
+    if (typeof s !== 'object' || s === null || typeof s.name !== 'string' || !s.name) {
+      return `scenarios[${index}].name must be a non-empty string`;
+    }
+    if (s.setup !== undefined && !Array.isArray(s.setup)) {
+      return `scenarios[${index}].setup must be an array`;
+    }
+    if (!Array.isArray(s.steps) || s.steps.length === 0) {
+      return `scenarios[${index}].steps must be a non-empty array`;
+    }
+    const calls = [
+      ...((s.setup as unknown[] | undefined) || []).map((call, i) => ({ call, path: `scenarios[${index}].setup[${i}]` })),
+      ...(s.steps as unknown[]).map((call, i) => ({ call, path: `scenarios[${index}].steps[${i}]` })),
+    ];
+    for (const { call, path } of calls) {
+      const error = validateScenarioCall(call, path);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  return undefined;
+};
+
+const validateCompilerSettings = (compiler: unknown): string | undefined => {
+  if (typeof compiler !== 'object' || compiler === null || Array.isArray(compiler)) {
+    return 'compiler must be an object';
+  }
+  const c = compiler as Record<string, unknown>;
+  if (c.version !== undefined && (typeof c.version !== 'string' || !CompilerSettingsService.isValidVersion(c.version))) {
+    return 'compiler.version must be an exact solc version such as 0.8.19';
+  }
+  if (c.optimizer !== undefined) {
+    const optimizer = c.optimizer as Record<string, unknown> | null;
+    if (typeof optimizer !== 'object' || optimizer === null || typeof optimizer.enabled !== 'boolean') {
+      return 'compiler.optimizer.enabled must be a boolean';
+    }
+    if (optimizer.runs !== undefined && (!Number.isInteger(optimizer.runs) || (optimizer.runs as number) < 1)) {
+      return 'compiler.optimizer.runs must be a positive integer';
+    }
+  }
+  if (c.viaIR !== undefined && typeof c.viaIR !== 'boolean') {
+    return 'compiler.viaIR must be a boolean';
+  }
+  if (c.evmVersion !== undefined && !EVM_VERSIONS.includes(c.evmVersion as string)) {
+    return `compiler.evmVersion must be one of: ${EVM_VERSIONS.join(', ')}`;
+  }
+  return undefined;
+};
+
+const validateEquivalenceOptions = (equivalence: unknown): string | undefined => {
+  if (typeof equivalence !== 'object' || equivalence === null || Array.isArray(equivalence)) {
+    return 'equivalence must be an object';
+  }
+  const e = equivalence as Record<string, unknown>;
+  if (e.seed !== undefined && (!Number.isInteger(e.seed) || (e.seed as number) < 0 || (e.seed as number) >= 2 ** 32)) {
+    return 'equivalence.seed must be an unsigned 32-bit integer';
+  }
+  const limits = {
+    randomSequences: MAX_RANDOM_SEQUENCES,
+    sequenceLength: MAX_SEQUENCE_LENGTH,
+    fuzzRuns: MAX_FUZZ_RUNS,
+  };
+  for (const [field, max] of Object.entries(limits)) {
+    const value = e[field];
+    if (value !== undefined && (!Number.isInteger(value) || (value as number) < 0 || (value as number) > max)) {
+      return `equivalence.${field} must be an integer between 0 and ${max}`;
+    }
+  }
+  return undefined;
+};
+
+const parseCandidate = (
+  body: Record<string, unknown>
+): { candidate: SourceBundle; error?: undefined } | { error: string } => {
+  const { candidateCode, candidateSources, candidateEntry } = body;
+
+  let candidate: SourceBundle;
+  if (candidateSources !== undefined) {
+    const sourcesError = WorkerAnalysisService.validateSourceBundle(candidateSources, candidateEntry);
+    if (sourcesError) {
+      return { error: `candidate: ${sourcesError}` };
+    }
+    candidate = { entry: candidateEntry as string, sources: candidateSources as Record<string, string> };
+  } else if (candidateCode && typeof candidateCode === 'string') {
+    candidate = WorkerAnalysisService.toSourceBundle(candidateCode);
+  } else {
+    return { error: 'Candidate code or sources is required' };
+  }
+
+  const sizeError = JobStoreService.sourceSizeError(candidate);
+  if (sizeError) {
+    return { error: `candidate: ${sizeError}` };
+  }
+
+  // The candidate's contract is chosen when the job runs, which also accepts a renamed contract.
+  return { candidate };
+};
+
+type ParsedJobRequest =
+  | { input: string | SourceBundle; options: WorkerAnalysisOptions; priority: JobPriority; error?: undefined }
+  | { error: string; candidates?: string[] };
+
+const parseJobRequest = (body: Record<string, unknown>): ParsedJobRequest => {
+  const {
+    code,
+    sources,
+    entry,
+    priority,
+    measurementMode,
+    scenarios,
+    signerCount,
+    contractName,
+    constructorArgs,
+    compiler,
+  } = body;
+
+  let input: string | SourceBundle;
+  if (sources !== undefined) {
+    const sourcesError = WorkerAnalysisService.validateSourceBundle(sources, entry);
+    if (sourcesError) {
+      return { error: sourcesError };
+    }
+    input = { entry: entry as string, sources: sources as Record<string, string> };
+  } else if (code && typeof code === 'string') {
+    input = code;
+  } else {
+    return { error: 'Contract code or sources is required' };
+  }
+
+  const sizeError = JobStoreService.sourceSizeError(input);
+  if (sizeError) {
+    return { error: sizeError };
+  }
+
+  if (priority !== undefined && !JOB_PRIORITIES.includes(priority as JobPriority)) {
+    return { error: `priority must be one of: ${JOB_PRIORITIES.join(', ')}` };
+  }
+
+  if (measurementMode !== undefined && !MEASUREMENT_MODES.includes(measurementMode as MeasurementMode)) {
+    return { error: `measurementMode must be one of: ${MEASUREMENT_MODES.join(', ')}` };
+  }
+
+  if (scenarios !== undefined) {
+    const scenarioError = validateScenarios(scenarios);
+    if (scenarioError) {
+      return { error: scenarioError };
+    }
+  }
+
+  if (
+    signerCount !== undefined &&
+    (!Number.isInteger(signerCount) || (signerCount as number) < 2 || (signerCount as number) > MAX_SIGNER_COUNT)
+  ) {
+    return { error: `signerCount must be an integer between 2 and ${MAX_SIGNER_COUNT}` };
+  }
+
+  if (contractName !== undefined && (typeof contractName !== 'string' || !contractName)) {
+    return { error: 'contractName must be a non-empty string' };
+  }
+
+  if (
+    constructorArgs !== undefined &&
+    !Array.isArray(constructorArgs) &&
+    (typeof constructorArgs !== 'string' || !/^(0x)?([0-9a-fA-F]{2})*$/.test(constructorArgs))
+  ) {
+    return { error: 'constructorArgs must be a JSON array or an ABI-encoded hex string' };
+  }
+
+  if (compiler !== undefined) {
+    const compilerError = validateCompilerSettings(compiler);
+    if (compilerError) {
+      return { error: compilerError };
+    }
+  }
+
+  try {
+    const entrySource = typeof input === 'string' ? input : input.sources[input.entry];
+    WorkerAnalysisService.selectContract(entrySource, contractName as string | undefined);
+  } catch (error: unknown) {
+    if (error instanceof ContractSelectionError) {
+      return { error: error.message, candidates: error.candidates };
+    }
+    const message = error instanceof Error ? error.message : 'Unknown parse error';
+    return { error: `Failed to parse Solidity source: ${message}` };
+  }
+
+  return {
+    input,
+    priority: (priority as JobPriority | undefined) || 'normal',
+    options: {
+      measurementMode: measurementMode as MeasurementMode | undefined,
+      scenarios: scenarios as GasScenario[] | undefined,
+      signerCount: signerCount as number | undefined,
+      contractName: contractName as string | undefined,
+      constructorArgs: constructorArgs as unknown[] | string | undefined,
+      compiler: compiler as CompilerSettings | undefined,
+    },
+  };
+};
 
 export const createAnalysisJob = async (req: Request, res: Response) => {
-  const { code } = req.body as { code?: string };
+  const parsed = parseJobRequest(req.body);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error, ...(parsed.candidates ? { candidates: parsed.candidates } : {}) });
+  }
+
+  const job = await JobStoreService.createAnalysisJob(parsed.input, parsed.options, 'profile', parsed.priority);
+
+  return res.status(202).json({
+    jobId: job.id,
+    status: job.status,
+  });
+};
+
+export const createCompilerSweepJob = async (req: Request, res: Response) => {
+  const parsed = parseJobRequest(req.body);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error, ...(parsed.candidates ? { candidates: parsed.candidates } : {}) });
+  }
 
-  if (!code || typeof code !== 'string') {
-    return res.status(400).json({ error: 'Contract code is required' });
+  const job = await JobStoreService.createAnalysisJob(parsed.input, parsed.options, 'compiler_sweep', parsed.priority);
+
+  return res.status(202).json({
+    jobId: job.id,
+    status: job.status,
+  });
+};
+
+/**
+ * Replays the same call sequences against `code`/`sources` and the optimized
+ * `candidateCode`/`candidateSources` and reports where their behaviour differs.
+ */
+export const createEquivalenceJob = async (req: Request, res: Response) => {
+  const parsed = parseJobRequest(req.body);
+  if (parsed.error !== undefined) {
+    return res.status(400).json({ error: parsed.error, ...(parsed.candidates ? { candidates: parsed.candidates } : {}) });
+  }
+
+  const parsedCandidate = parseCandidate(req.body);
+  if (parsedCandidate.error !== undefined) {
+    return res.status(400).json({ error: parsedCandidate.error });
+  }
+
+  const { equivalence } = req.body as Record<string, unknown>;
+  if (equivalence !== undefined) {
+    const equivalenceError = validateEquivalenceOptions(equivalence);
+    if (equivalenceError) {
+      return res.status(400).json({ error: equivalenceError });
+    }
   }
 
-  const job = await JobStoreService.createAnalysisJob(code);
+  const job = await JobStoreService.createAnalysisJob(
+    parsed.input,
+    { ...parsed.options, equivalence: equivalence as EquivalenceOptions | undefined },
+    'equivalence',
+    parsed.priority,
+    parsedCandidate.candidate
+  );
 
   return res.status(202).json({
     jobId: job.id,
@@ -26,6 +322,68 @@ export const getAnalysisJob = async (req: Request, res: Response) => {
   return res.json(job);
 };
 
+/**
+ * SSE stream of `progress` events (step, message, current/total) and a final
+ * `done` event with the job. Steps of jobs running on this replica arrive as they
+ * happen; for jobs on other replicas the latest stored step is polled.
+ */
+export const streamAnalysisJob = async (req: Request, res: Response) => {
+  const job = await JobStoreService.getJob(req.params.id);
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders?.();
+
+  let lastProgressAt = 0;
+  let closed = false;
+  const sendProgress = (event: WorkerProgressEvent) => {
+    if (closed || event.timestamp <= lastProgressAt) {
+      return;
+    }
+    lastProgressAt = event.timestamp;
+    res.write(`event: progress\n`);
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const unsubscribe = JobStoreService.subscribe(job.id, sendProgress);
+  const close = () => {
+    closed = true;
+    unsubscribe();
+    clearInterval(poll);
+  };
+  const sendStatus = (latest: AnalysisJob) => {
+    if (latest.progress) {
+      sendProgress(latest.progress);
+    }
+    if (latest.status === 'completed' || latest.status === 'failed' || latest.status === 'cancelled') {
+      res.write(`event: done\n`);
+      res.write(`data: ${JSON.stringify(latest)}\n\n`);
+      close();
+      res.end();
+    }
+  };
+
+  const poll = setInterval(() => {
+    JobStoreService.getJob(job.id)
+      .then((latest) => {
+        if (!closed && latest) {
+          sendStatus(latest);
+        }
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Unknown persistence error';
+        console.error(`Failed to poll job ${job.id} for its event stream: ${message}`);
+      });
+  }, parseInt(process.env.WORKER_EVENTS_POLL_MS || '1000', 10));
+
+  req.on('close', close);
+  sendStatus(job);
+};
+
 export const cancelAnalysisJob = async (req: Request, res: Response) => {
   const job = await JobStoreService.cancelJob(req.params.id);
   if (!job) {
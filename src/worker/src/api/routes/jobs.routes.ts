@@ -2,16 +2,22 @@ import { Router } from 'express';
 import {
   cancelAnalysisJob,
   createAnalysisJob,
+  createCompilerSweepJob,
+  createEquivalenceJob,
   getAnalysisJob,
   health,
   retryAnalysisJob,
+  streamAnalysisJob,
 } from '../controllers/jobs.controller';
 
 const router = Router();
 
 router.get('/health', health);
 router.post('/analyze', createAnalysisJob);
+router.post('/compiler-sweep', createCompilerSweepJob);
+router.post('/equivalence', createEquivalenceJob);
 router.get('/:id', getAnalysisJob);
+router.get('/:id/events', streamAnalysisJob);
 router.post('/:id/cancel', cancelAnalysisJob);
 router.post('/:id/retry', retryAnalysisJob);
 
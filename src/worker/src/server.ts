@@ -1,5 +1,6 @@
 import dotenv from 'dotenv';
 import app from './app';
+import { JobStoreService } from './services/job-store.service';
 
 dotenv.config();
 
@@ -7,4 +8,5 @@ const PORT = process.env.WORKER_PORT || 3010;
 
 app.listen(PORT, () => {
   console.log(`Worker server is running on port ${PORT}`);
+  void JobStoreService.start();
 });
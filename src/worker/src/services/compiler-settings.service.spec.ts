@@ -0,0 +1,41 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CompilerSettingsService } from './compiler-settings.service';
+
+const contract = (pragma: string) => `pragma solidity ${pragma};\ncontract C {}\n`;
+
+describe('CompilerSettingsService.resolve', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    // No cached compilers, so versions come from the known release list.
+    process.env.XDG_CACHE_HOME = '/nonexistent';
+    delete process.env.SOLC_COMPILER_CACHE_DIR;
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('resolves exact pragmas of older releases', async () => {
+    for (const version of ['0.4.24', '0.5.16', '0.6.6', '0.7.6', '0.8.19']) {
+      const resolved = await CompilerSettingsService.resolve(contract(version));
+      expect(resolved).toMatchObject({ version, versionSource: 'pragma' });
+    }
+  });
+
+  it('picks the newest known release within a range', async () => {
+    const resolved = await CompilerSettingsService.resolve([contract('^0.5.0'), contract('>=0.5.10 <0.6.0')]);
+    expect(resolved.version).toBe('0.5.17');
+  });
+
+  it('uses a pinned version newer than the known releases', async () => {
+    const resolved = await CompilerSettingsService.resolve(contract('0.8.99'));
+    expect(resolved.version).toBe('0.8.99');
+  });
+
+  it('rejects ranges no release satisfies', async () => {
+    await expect(CompilerSettingsService.resolve(contract('^0.3.0'))).rejects.toThrow(
+      'No known solc release satisfies pragma solidity ^0.3.0.'
+    );
+  });
+});
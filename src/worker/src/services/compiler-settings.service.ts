@@ -0,0 +1,154 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import semver from 'semver';
+import { parse, visit } from '@solidity-parser/parser';
+
+export type CompilerSettings = {
+  version?: string;
+  optimizer?: {
+    enabled: boolean;
+    runs?: number;
+  };
+  viaIR?: boolean;
+  evmVersion?: string;
+};
+
+export type ResolvedCompilerSettings = {
+  version: string;
+  versionSource: 'requested' | 'pragma' | 'default';
+  optimizer: {
+    enabled: boolean;
+    runs: number;
+  };
+  viaIR: boolean;
+  evmVersion?: string;
+};
+
+export const EVM_VERSIONS = [
+  'homestead',
+  'tangerineWhistle',
+  'spuriousDragon',
+  'byzantium',
+  'constantinople',
+  'petersburg',
+  'istanbul',
+  'berlin',
+  'london',
+  'paris',
+  'shanghai',
+  'cancun',
+  'prague',
+];
+
+const DEFAULT_SOLC_VERSION = '0.8.24';
+const DEFAULT_OPTIMIZER_RUNS = 200;
+
+const releases = (minor: string, first: number, last: number) =>
+  Array.from({ length: last - first + 1 }, (_, i) => `${minor}.${first + i}`);
+
+// Used when no compiler is cached locally; the newest match is downloaded by Hardhat.
+const KNOWN_SOLC_VERSIONS = [
+  ...releases('0.4', 11, 26),
+  ...releases('0.5', 0, 17),
+  ...releases('0.6', 0, 12),
+  ...releases('0.7', 0, 6),
+  ...releases('0.8', 0, 28),
+];
+
+export class CompilerSettingsService {
+  /**
+   * Fills in every setting the job left open. The compiler version defaults to
+   * the newest locally cached release satisfying all `pragma solidity` ranges
+   * across the given sources, else the newest known release, else a version the
+   * sources pin exactly (e.g. a release newer than this list); sources without a
+   * pragma use `SOLC_DEFAULT_VERSION`.
+   */
+  public static async resolve(
+    sources: string | string[],
+    requested: CompilerSettings = {}
+  ): Promise<ResolvedCompilerSettings> {
+    const optimizer = {
+      enabled: requested.optimizer?.enabled ?? true,
+      runs: requested.optimizer?.runs ?? DEFAULT_OPTIMIZER_RUNS,
+    };
+    const base = {
+      optimizer,
+      viaIR: requested.viaIR ?? false,
+      ...(requested.evmVersion ? { evmVersion: requested.evmVersion } : {}),
+    };
+
+    if (requested.version) {
+      return { ...base, version: requested.version, versionSource: 'requested' };
+    }
+
+    const ranges = (Array.isArray(sources) ? sources : [sources]).flatMap((code) => this.pragmaRanges(code));
+    if (ranges.length > 0) {
+      const cached = await this.cachedVersions();
+      const pinned = ranges.flatMap((range) => semver.valid(range) || []);
+      const version =
+        this.newestSatisfying(cached, ranges) ||
+        this.newestSatisfying(KNOWN_SOLC_VERSIONS, ranges) ||
+        this.newestSatisfying(pinned, ranges);
+      if (!version) {
+        throw new Error(`No known solc release satisfies pragma solidity ${ranges.join(' and ')}.`);
+      }
+      return { ...base, version, versionSource: 'pragma' };
+    }
+
+    return { ...base, version: process.env.SOLC_DEFAULT_VERSION || DEFAULT_SOLC_VERSION, versionSource: 'default' };
+  }
+
+  public static isValidVersion(version: string): boolean {
+    return semver.valid(version) !== null;
+  }
+
+  private static pragmaRanges(code: string): string[] {
+    const ranges: string[] = [];
+    try {
+      visit(parse(code, { tolerant: true }), {
+        PragmaDirective: (node) => {
+          if (node.name === 'solidity' && semver.validRange(node.value)) {
+            ranges.push(node.value);
+          }
+        },
+      });
+    } catch {
+      // Unparseable source: fall back to the default version and let solc report the error.
+    }
+    return ranges;
+  }
+
+  private static newestSatisfying(versions: string[], ranges: string[]): string | undefined {
+    const matching = versions.filter((version) => ranges.every((range) => semver.satisfies(version, range)));
+    return semver.rsort([...matching])[0];
+  }
+
+  /** Versions found in `SOLC_COMPILER_CACHE_DIR` and Hardhat's own compiler download cache. */
+  private static async cachedVersions(): Promise<string[]> {
+    const hardhatCache = path.join(
+      process.env.XDG_CACHE_HOME || path.join(os.homedir(), '.cache'),
+      'hardhat-nodejs',
+      'compilers-v2'
+    );
+    const dirs = [process.env.SOLC_COMPILER_CACHE_DIR, hardhatCache].filter((dir): dir is string => !!dir);
+    const versions = new Set<string>();
+
+    for (const dir of dirs) {
+      const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+      for (const entry of entries) {
+        const names = entry.isDirectory()
+          ? await fs.readdir(path.join(dir, entry.name)).catch(() => [] as string[])
+          : [entry.name];
+        for (const name of names) {
+          const match = name.match(/v(\d+\.\d+\.\d+)\+commit/);
+          if (match) {
+            versions.add(match[1]);
+          }
+        }
+      }
+    }
+
+    return [...versions];
+  }
+}
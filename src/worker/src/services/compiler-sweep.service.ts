@@ -0,0 +1,185 @@
+import semver from 'semver';
+import { CompilerSettings, CompilerSettingsService, ResolvedCompilerSettings } from './compiler-settings.service';
+import {
+  SourceBundle,
+  WorkerAnalysisOptions,
+  WorkerAnalysisService,
+  WorkerGasProfile,
+  WorkerProgressEvent,
+} from './worker-analysis.service';
+
+export type CompilerSweepEntry =
+  | {
+      status: 'profiled';
+      settings: ResolvedCompilerSettings;
+      deploymentGas: string;
+      /** Sum of the functions measured under every profiled setting, so entries compare like for like. */
+      runtimeGas: string;
+      score: string;
+      functions: Record<string, string>;
+    }
+  | {
+      status: 'failed';
+      settings: CompilerSettings;
+      error: string;
+    };
+
+export type CompilerSweepResult = {
+  contractName: string;
+  expectedCallsPerFunction: number;
+  comparedFunctions: string[];
+  entries: CompilerSweepEntry[];
+  recommended: {
+    settings: ResolvedCompilerSettings;
+    deploymentGas: string;
+    runtimeGas: string;
+    score: string;
+    /** Score saving vs. the worker default (optimizer on, 200 runs, no viaIR). */
+    savingsVsDefaultPct: number | null;
+  } | null;
+};
+
+const OPTIMIZER_RUNS = [1, 200, 1000, 10000];
+const VIA_IR_MIN_VERSION = '0.8.13';
+const DEFAULT_EXPECTED_CALLS = 100;
+
+export class CompilerSweepService {
+  /**
+   * Profiles the unchanged source under each optimizer/viaIR combination and
+   * recommends the one with the lowest `deploymentGas + expectedCalls * runtimeGas`.
+   */
+  public static async run(
+    input: string | SourceBundle,
+    jobId: string,
+    signal?: AbortSignal,
+    options: WorkerAnalysisOptions = {},
+    onProgress?: (event: WorkerProgressEvent) => void
+  ): Promise<CompilerSweepResult> {
+    const project = WorkerAnalysisService.toSourceBundle(input);
+    const base = await CompilerSettingsService.resolve(Object.values(project.sources), options.compiler);
+    const expectedCalls = this.envInt('SWEEP_EXPECTED_CALLS_PER_FUNCTION', DEFAULT_EXPECTED_CALLS);
+    const matrix = this.buildMatrix(base);
+
+    const profiled: Array<{ settings: ResolvedCompilerSettings; gasProfile: WorkerGasProfile }> = [];
+    const failed: CompilerSweepEntry[] = [];
+    let contractName = '';
+
+    for (const [index, settings] of matrix.entries()) {
+      const label = `[${index + 1}/${matrix.length} ${this.describeSettings(settings)}]`;
+      try {
+        const result = await WorkerAnalysisService.getGasProfile(
+          project,
+          `${jobId}_sweep_${index}`,
+          signal,
+          { ...options, compiler: settings },
+          (event) => onProgress?.({ ...event, message: `${label} ${event.message}` })
+        );
+        contractName = result.contractName;
+        profiled.push({ settings: result.compiler, gasProfile: result.gasProfile });
+      } catch (error: unknown) {
+        if (signal?.aborted) {
+          throw error;
+        }
+        failed.push({
+          status: 'failed',
+          settings,
+          error: error instanceof Error ? error.message : 'Unknown sweep error',
+        });
+      }
+    }
+
+    const comparedFunctions = this.commonMutableFunctions(profiled.map((entry) => entry.gasProfile));
+    const entries: CompilerSweepEntry[] = profiled.map(({ settings, gasProfile }) => {
+      const functions: Record<string, string> = {};
+      let runtimeGas = 0n;
+      for (const name of comparedFunctions) {
+        const entry = gasProfile.functions[name];
+        if (entry.status === 'measured') {
+          functions[name] = entry.gasUsed;
+          runtimeGas += BigInt(entry.gasUsed);
+        }
+      }
+      const deploymentGas = BigInt(gasProfile.deploymentGas || '0');
+      return {
+        status: 'profiled',
+        settings,
+        deploymentGas: deploymentGas.toString(),
+        runtimeGas: runtimeGas.toString(),
+        score: (deploymentGas + BigInt(expectedCalls) * runtimeGas).toString(),
+        functions,
+      };
+    });
+
+    return {
+      contractName,
+      expectedCallsPerFunction: expectedCalls,
+      comparedFunctions,
+      entries: [...entries, ...failed],
+      recommended: this.recommend(entries),
+    };
+  }
+
+  private static buildMatrix(base: ResolvedCompilerSettings): CompilerSettings[] {
+    const viaIROptions = semver.gte(base.version, VIA_IR_MIN_VERSION) ? [false, true] : [false];
+    const optimizers = [
+      { enabled: false, runs: 200 },
+      ...OPTIMIZER_RUNS.map((runs) => ({ enabled: true, runs })),
+    ];
+    return optimizers.flatMap((optimizer) =>
+      viaIROptions.map((viaIR) => ({
+        version: base.version,
+        optimizer,
+        viaIR,
+        ...(base.evmVersion ? { evmVersion: base.evmVersion } : {}),
+      }))
+    );
+  }
+
+  private static describeSettings(settings: CompilerSettings): string {
+    const optimizer = settings.optimizer?.enabled ? `runs=${settings.optimizer.runs}` : 'optimizer off';
+    return settings.viaIR ? `${optimizer}, viaIR` : optimizer;
+  }
+
+  private static commonMutableFunctions(profiles: WorkerGasProfile[]): string[] {
+    if (profiles.length === 0) {
+      return [];
+    }
+    return Object.entries(profiles[0].functions)
+      .filter(([, entry]) => entry.stateMutability === 'nonpayable' || entry.stateMutability === 'payable')
+      .map(([name]) => name)
+      .filter((name) => profiles.every((profile) => profile.functions[name]?.status === 'measured'))
+      .sort();
+  }
+
+  private static recommend(entries: CompilerSweepEntry[]): CompilerSweepResult['recommended'] {
+    const profiled = entries.filter(
+      (entry): entry is Extract<CompilerSweepEntry, { status: 'profiled' }> => entry.status === 'profiled'
+    );
+    if (profiled.length === 0) {
+      return null;
+    }
+
+    const best = profiled.reduce((a, b) => (BigInt(b.score) < BigInt(a.score) ? b : a));
+    const defaultEntry = profiled.find(
+      (entry) => entry.settings.optimizer.enabled && entry.settings.optimizer.runs === 200 && !entry.settings.viaIR
+    );
+    const defaultScore = defaultEntry ? Number(defaultEntry.score) : 0;
+
+    return {
+      settings: best.settings,
+      deploymentGas: best.deploymentGas,
+      runtimeGas: best.runtimeGas,
+      score: best.score,
+      savingsVsDefaultPct: defaultScore > 0 ? ((defaultScore - Number(best.score)) / defaultScore) * 100 : null,
+    };
+  }
+
+  private static envInt(envName: string, fallback: number): number {
+    const raw = process.env[envName];
+    if (!raw) {
+      return fallback;
+    }
+    const n = parseInt(raw, 10);
+    return Number.isFinite(n) ? n : fallback;
+  }
+}
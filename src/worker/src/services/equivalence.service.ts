@@ -0,0 +1,156 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { CompilerSettingsService, ResolvedCompilerSettings } from './compiler-settings.service';
+import {
+  ContractSelectionError,
+  SourceBundle,
+  WorkerAnalysisOptions,
+  WorkerAnalysisService,
+  WorkerProgressEvent,
+} from './worker-analysis.service';
+
+const EQUIVALENCE_SCRIPT_PATH = path.join(__dirname, '../../hardhat/scripts/equivalence-checker.ts');
+const ORIGINAL_DIR = 'original';
+const CANDIDATE_DIR = 'candidate';
+
+/**
+ * One observed difference. `deploy` and `missing` concern the whole contract;
+ * the other kinds name the sequence (`fuzz` for single fuzzed calls) and step
+ * (1-based) where the two contracts first diverged, with the caller as a `$signer:N` placeholder. `state` mismatches name
+ * the view (or `$balance`) whose result differed after that step.
+ */
+export type EquivalenceMismatch = {
+  kind: 'deploy' | 'missing' | 'return' | 'revert' | 'events' | 'state';
+  function?: string;
+  sequence?: string;
+  step?: number;
+  caller?: string;
+  args?: unknown[];
+  observed?: string;
+  original: string;
+  candidate: string;
+};
+
+/**
+ * A divergence shrunk to the fewest and simplest calls that still reproduce it,
+ * replayed from a fresh deployment; the contracts differ on the last call.
+ */
+export type EquivalenceCounterexample = {
+  sequence: string;
+  calls: Array<{ function: string; caller: string; args: unknown[]; value?: string }>;
+  mismatches: Array<Pick<EquivalenceMismatch, 'kind' | 'observed' | 'original' | 'candidate'>>;
+  /** Replays spent shrinking, including the one confirming the original divergence. */
+  shrinkRuns: number;
+};
+
+export type EquivalenceReport = {
+  equivalent: boolean;
+  seed: number;
+  sequences: number;
+  fuzzCases: number;
+  callsCompared: number;
+  mismatchCount: number;
+  /** Calls compared and mismatches found, per function signature. */
+  functions: Record<string, { calls: number; mismatches: number }>;
+  /** The first mismatches found; `mismatchCount` counts them all. */
+  mismatches: EquivalenceMismatch[];
+  /** At most one per diverging function, for the first few of them. */
+  counterexamples: EquivalenceCounterexample[];
+  /** Functions whose argument types the input generators cannot produce. */
+  skippedFunctions: string[];
+};
+
+export type EquivalenceResult = EquivalenceReport & {
+  contractName: string;
+  candidateContractName: string;
+  compiler: ResolvedCompilerSettings;
+};
+
+export class EquivalenceService {
+  /**
+   * Compiles the original and candidate projects side by side (under `original/`
+   * and `candidate/`) with the same settings, then replays identical call
+   * sequences against each and compares return data, reverts, events and the
+   * state visible through views.
+   */
+  public static async check(
+    original: string | SourceBundle,
+    candidate: SourceBundle,
+    jobId: string,
+    signal?: AbortSignal,
+    options: WorkerAnalysisOptions = {},
+    onProgress?: (event: WorkerProgressEvent) => void
+  ): Promise<EquivalenceResult> {
+    const originalProject = WorkerAnalysisService.toSourceBundle(original);
+    const contractName = WorkerAnalysisService.selectContract(
+      originalProject.sources[originalProject.entry],
+      options.contractName
+    );
+    const candidateContractName = this.selectCandidateContract(candidate, contractName);
+    const compiler = await CompilerSettingsService.resolve(
+      [...Object.values(originalProject.sources), ...Object.values(candidate.sources)],
+      options.compiler
+    );
+    const report = (step: 'writing_sources' | 'compiling', message: string) =>
+      onProgress?.({ step, message, timestamp: Date.now() });
+    const hardhatEnv: NodeJS.ProcessEnv = {
+      ...process.env,
+      COMPILER_SETTINGS: JSON.stringify(compiler),
+    };
+
+    report('writing_sources', 'Writing original and candidate sources...');
+    const workspacePath = await WorkerAnalysisService.createWorkspace(jobId, {
+      entry: `${ORIGINAL_DIR}/${originalProject.entry}`,
+      sources: {
+        ...this.prefixSources(ORIGINAL_DIR, originalProject.sources),
+        ...this.prefixSources(CANDIDATE_DIR, candidate.sources),
+      },
+    });
+    const configPath = path.join(workspacePath, 'equivalence.config.json');
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        originalSource: `${ORIGINAL_DIR}/${originalProject.entry}`,
+        candidateSource: `${CANDIDATE_DIR}/${candidate.entry}`,
+        contractName,
+        candidateContractName,
+        constructorArgs: options.constructorArgs,
+        signerCount: options.signerCount,
+        ...options.equivalence,
+      })
+    );
+
+    try {
+      report('compiling', `Compiling both versions with solc ${compiler.version}...`);
+      await WorkerAnalysisService.compileWorkspace(workspacePath, hardhatEnv, signal);
+
+      const result = await WorkerAnalysisService.runScript<EquivalenceReport>(
+        workspacePath,
+        EQUIVALENCE_SCRIPT_PATH,
+        { ...hardhatEnv, EQUIVALENCE_CONFIG_FILE: configPath },
+        signal,
+        onProgress
+      );
+      return { ...result, contractName, candidateContractName, compiler };
+    } finally {
+      await fs.rm(workspacePath, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  /** The candidate's contract of the same name, or its own unambiguous choice if it was renamed. */
+  private static selectCandidateContract(candidate: SourceBundle, contractName: string): string {
+    const source = candidate.sources[candidate.entry];
+    try {
+      return WorkerAnalysisService.selectContract(source, contractName);
+    } catch (error: unknown) {
+      if (error instanceof ContractSelectionError) {
+        return WorkerAnalysisService.selectContract(source);
+      }
+      throw error;
+    }
+  }
+
+  private static prefixSources(directory: string, sources: Record<string, string>): Record<string, string> {
+    return Object.fromEntries(Object.entries(sources).map(([file, content]) => [`${directory}/${file}`, content]));
+  }
+}
@@ -1,9 +1,45 @@
-import { AnalysisJobRecord } from './job-store.service';
+import { AnalysisJobRecord, JobHistoryEntry, JobPriority, JobStatus } from './job-store.service';
+import { WorkerProgressEvent } from './worker-analysis.service';
 
 type Queryable = {
   query: (sql: string, params?: unknown[]) => Promise<{ rows: any[] }>;
 };
 
+const PRIORITY_RANK: Record<JobPriority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+const JOB_COLUMNS = `
+  id,
+  kind,
+  source_code,
+  project,
+  candidate,
+  options,
+  status,
+  priority,
+  attempts,
+  cancel_requested,
+  created_at,
+  updated_at,
+  error,
+  result,
+  retry_of,
+  lease_owner,
+  lease_expires_at,
+  history,
+  progress
+`;
+
+/** SQL `SET` clause appending one entry to `history`; arguments are SQL expressions. */
+const appendHistory = (at: string, event: string, worker = 'NULL', message = 'NULL') => `
+  history = COALESCE(history, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(jsonb_build_object(
+    'at', ${at}::bigint, 'event', ${event}::text, 'worker', ${worker}::text, 'message', ${message}::text
+  )))
+`;
+
 export class JobPersistenceService {
   private static pool: Queryable | null = null;
   private static initialized = false;
@@ -27,65 +63,78 @@ export class JobPersistenceService {
         retry_of TEXT
       );
     `);
+    await db.query(`
+      ALTER TABLE analysis_jobs
+      ADD COLUMN IF NOT EXISTS options JSONB,
+      ADD COLUMN IF NOT EXISTS kind TEXT NOT NULL DEFAULT 'profile',
+      ADD COLUMN IF NOT EXISTS project JSONB,
+      ADD COLUMN IF NOT EXISTS priority SMALLINT NOT NULL DEFAULT 1,
+      ADD COLUMN IF NOT EXISTS lease_owner TEXT,
+      ADD COLUMN IF NOT EXISTS lease_expires_at BIGINT,
+      ADD COLUMN IF NOT EXISTS history JSONB NOT NULL DEFAULT '[]'::jsonb,
+      ADD COLUMN IF NOT EXISTS progress JSONB,
+      ADD COLUMN IF NOT EXISTS candidate JSONB;
+    `);
     await db.query(`
       CREATE INDEX IF NOT EXISTS idx_analysis_jobs_status
       ON analysis_jobs (status);
     `);
+    await db.query(`
+      CREATE INDEX IF NOT EXISTS idx_analysis_jobs_queue
+      ON analysis_jobs (status, priority DESC, created_at);
+    `);
+    await db.query(`
+      CREATE TABLE IF NOT EXISTS analysis_jobs_archive (LIKE analysis_jobs INCLUDING DEFAULTS);
+    `);
+    // Archiving copies rows with SELECT *, so the archive needs the same columns in the same order.
+    await db.query(`
+      ALTER TABLE analysis_jobs_archive
+      ADD COLUMN IF NOT EXISTS progress JSONB,
+      ADD COLUMN IF NOT EXISTS candidate JSONB;
+    `);
     this.initialized = true;
   }
 
-  public static async loadJobs(): Promise<AnalysisJobRecord[]> {
+  public static async getJob(id: string): Promise<AnalysisJobRecord | undefined> {
     await this.initialize();
     const db = this.getPool();
-    const result = await db.query(`
-      SELECT
-        id,
-        source_code,
-        status,
-        attempts,
-        cancel_requested,
-        created_at,
-        updated_at,
-        error,
-        result,
-        retry_of
-      FROM analysis_jobs;
-    `);
-    return result.rows.map((row) => this.toJobRecord(row));
+    const result = await db.query(`SELECT ${JOB_COLUMNS} FROM analysis_jobs WHERE id = $1;`, [id]);
+    return result.rows[0] ? this.toJobRecord(result.rows[0]) : undefined;
   }
 
-  public static async upsertJob(job: AnalysisJobRecord): Promise<void> {
+  public static async insertJob(job: AnalysisJobRecord): Promise<void> {
     await this.initialize();
     const db = this.getPool();
     await db.query(
       `
         INSERT INTO analysis_jobs (
           id,
+          kind,
           source_code,
+          project,
+          candidate,
+          options,
           status,
+          priority,
           attempts,
           cancel_requested,
           created_at,
           updated_at,
           error,
           result,
-          retry_of
-        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10)
-        ON CONFLICT (id) DO UPDATE SET
-          source_code = EXCLUDED.source_code,
-          status = EXCLUDED.status,
-          attempts = EXCLUDED.attempts,
-          cancel_requested = EXCLUDED.cancel_requested,
-          created_at = EXCLUDED.created_at,
-          updated_at = EXCLUDED.updated_at,
-          error = EXCLUDED.error,
-          result = EXCLUDED.result,
-          retry_of = EXCLUDED.retry_of
+          retry_of,
+          history
+        ) VALUES ($1,$2,$3,$4,$5,$6,$7,$8,$9,$10,$11,$12,$13,$14,$15,$16)
       `,
       [
         job.id,
+        job.kind,
         job.sourceCode,
+        job.project ? JSON.stringify(job.project) : null,
+        job.candidate ? JSON.stringify(job.candidate) : null,
+        JSON.stringify(job.options || {}),
         job.status,
+        PRIORITY_RANK[job.priority],
         job.attempts,
         job.cancelRequested,
         job.createdAt,
@@ -93,15 +142,226 @@ export class JobPersistenceService {
         job.error || null,
         job.result ? JSON.stringify(job.result) : null,
         job.retryOf || null,
+        JSON.stringify(job.history),
+      ]
+    );
+  }
+
+  /**
+   * Settles `processing` jobs whose worker is gone: the lease expired, or
+   * `ownOwner` names this process's previous run (stable `WORKER_ID`). Jobs are
+   * re-queued with one more attempt, failed once `maxAttempts` runs were lost, or
+   * cancelled if that was requested. Each outcome is appended to `history`.
+   */
+  public static async recoverOrphanedJobs(
+    maxAttempts: number,
+    ownOwner?: string
+  ): Promise<Array<{ id: string; status: JobStatus }>> {
+    await this.initialize();
+    const db = this.getPool();
+    const outcome = `CASE WHEN cancel_requested THEN 'cancelled' WHEN attempts >= $2 THEN 'failed' ELSE 'queued' END`;
+    const result = await db.query(
+      `
+        UPDATE analysis_jobs
+        SET
+          status = ${outcome},
+          attempts = CASE WHEN cancel_requested OR attempts >= $2 THEN attempts ELSE attempts + 1 END,
+          error = CASE
+            WHEN cancel_requested THEN 'Job cancelled by user.'
+            WHEN attempts >= $2 THEN 'Worker stopped while running this job ' || attempts || ' times; giving up.'
+            ELSE NULL
+          END,
+          ${appendHistory(
+            '$1',
+            `CASE WHEN cancel_requested THEN 'cancelled' WHEN attempts >= $2 THEN 'abandoned' ELSE 'requeued' END`,
+            'lease_owner',
+            `'Worker stopped while processing (attempt ' || attempts || ' of ' || $2::text || ').'`
+          )},
+          lease_owner = NULL,
+          lease_expires_at = NULL,
+          progress = NULL,
+          updated_at = $1
+        WHERE status = 'processing'
+          AND (lease_expires_at IS NULL OR lease_expires_at < $1 OR lease_owner = $3)
+        RETURNING id, status;
+      `,
+      [Date.now(), maxAttempts, ownOwner || null]
+    );
+    return result.rows.map((row) => ({ id: row.id, status: row.status }));
+  }
+
+  /**
+   * Leases the next queued job to `owner`: highest priority first, FIFO within
+   * a priority. `SKIP LOCKED` keeps replicas from claiming the same row.
+   */
+  public static async claimNextJob(owner: string, leaseMs: number): Promise<AnalysisJobRecord | undefined> {
+    await this.initialize();
+    const db = this.getPool();
+    const now = Date.now();
+    const result = await db.query(
+      `
+        UPDATE analysis_jobs
+        SET
+          status = 'processing',
+          lease_owner = $1,
+          lease_expires_at = $2,
+          updated_at = $3,
+          error = NULL,
+          progress = NULL,
+          ${appendHistory('$3', "'claimed'", '$1')}
+        WHERE id = (
+          SELECT id FROM analysis_jobs
+          WHERE status = 'queued' AND cancel_requested = FALSE
+          ORDER BY priority DESC, created_at ASC
+          FOR UPDATE SKIP LOCKED
+          LIMIT 1
+        )
+        RETURNING ${JOB_COLUMNS};
+      `,
+      [owner, now + leaseMs, now]
+    );
+    return result.rows[0] ? this.toJobRecord(result.rows[0]) : undefined;
+  }
+
+  /** Extends the lease. Returns `null` when `owner` no longer holds it. */
+  public static async renewLease(
+    id: string,
+    owner: string,
+    leaseMs: number
+  ): Promise<{ cancelRequested: boolean } | null> {
+    await this.initialize();
+    const db = this.getPool();
+    const result = await db.query(
+      `
+        UPDATE analysis_jobs
+        SET lease_expires_at = $3
+        WHERE id = $1 AND lease_owner = $2 AND status = 'processing'
+        RETURNING cancel_requested;
+      `,
+      [id, owner, Date.now() + leaseMs]
+    );
+    return result.rows[0] ? { cancelRequested: result.rows[0].cancel_requested } : null;
+  }
+
+  /** Stores the latest step of a running job, for readers on other replicas. */
+  public static async updateProgress(id: string, owner: string, progress: WorkerProgressEvent): Promise<void> {
+    await this.initialize();
+    const db = this.getPool();
+    await db.query(
+      `
+        UPDATE analysis_jobs
+        SET progress = $3::jsonb
+        WHERE id = $1 AND lease_owner = $2 AND status = 'processing'
+          AND (progress IS NULL OR (progress->>'timestamp')::bigint <= $4);
+      `,
+      [id, owner, JSON.stringify(progress), progress.timestamp]
+    );
+  }
+
+  /**
+   * Records the outcome and releases the lease; a cancel requested meanwhile
+   * wins over `outcome.status`. Returns `false`, writing nothing, when `owner`
+   * had lost the lease.
+   */
+  public static async finishJob(
+    id: string,
+    owner: string,
+    outcome: { status: JobStatus; result?: AnalysisJobRecord['result']; error?: string }
+  ): Promise<boolean> {
+    await this.initialize();
+    const db = this.getPool();
+    const result = await db.query(
+      `
+        UPDATE analysis_jobs
+        SET
+          status = CASE WHEN cancel_requested THEN 'cancelled' ELSE $3 END,
+          result = CASE WHEN cancel_requested THEN NULL ELSE $4::jsonb END,
+          error = CASE WHEN cancel_requested THEN 'Job cancelled by user.' ELSE $5 END,
+          updated_at = $6,
+          ${appendHistory('$6', "CASE WHEN cancel_requested THEN 'cancelled' ELSE $3 END", '$2', '$5')},
+          lease_owner = NULL,
+          lease_expires_at = NULL
+        WHERE id = $1 AND lease_owner = $2
+        RETURNING id;
+      `,
+      [
+        id,
+        owner,
+        outcome.status,
+        outcome.result ? JSON.stringify(outcome.result) : null,
+        outcome.error || null,
+        Date.now(),
       ]
     );
+    return result.rows.length > 0;
+  }
+
+  /** Flags the job for cancellation; queued jobs are cancelled immediately. */
+  public static async requestCancel(id: string): Promise<AnalysisJobRecord | undefined> {
+    await this.initialize();
+    const db = this.getPool();
+    const result = await db.query(
+      `
+        UPDATE analysis_jobs
+        SET
+          cancel_requested = TRUE,
+          status = CASE WHEN status = 'queued' THEN 'cancelled' ELSE status END,
+          error = 'Job cancelled by user.',
+          updated_at = $2,
+          ${appendHistory('$2', "CASE WHEN status = 'queued' THEN 'cancelled' ELSE 'cancel_requested' END")}
+        WHERE id = $1 AND status IN ('queued', 'processing') AND cancel_requested = FALSE
+        RETURNING ${JOB_COLUMNS};
+      `,
+      [id, Date.now()]
+    );
+    return result.rows[0] ? this.toJobRecord(result.rows[0]) : this.getJob(id);
+  }
+
+  /**
+   * Deletes, or moves to `analysis_jobs_archive`, finished jobs last updated
+   * before `updatedBefore` or beyond the newest `maxCount` jobs (`0` keeps all).
+   * Returns how many rows were removed.
+   */
+  public static async sweepJobs(policy: {
+    updatedBefore: number;
+    maxCount: number;
+    mode: 'delete' | 'archive';
+  }): Promise<number> {
+    await this.initialize();
+    const db = this.getPool();
+    const expired = `
+      DELETE FROM analysis_jobs
+      WHERE status IN ('completed', 'failed', 'cancelled')
+        AND (
+          updated_at < $1
+          OR ($2 > 0 AND id NOT IN (SELECT id FROM analysis_jobs ORDER BY created_at DESC LIMIT $2))
+        )
+      RETURNING *
+    `;
+    const result = await db.query(
+      policy.mode === 'archive'
+        ? `WITH expired AS (${expired}), archived AS (
+             INSERT INTO analysis_jobs_archive SELECT * FROM expired RETURNING id
+           ) SELECT COUNT(*)::int AS removed FROM archived;`
+        : `WITH expired AS (${expired}) SELECT COUNT(*)::int AS removed FROM expired;`,
+      [policy.updatedBefore, policy.maxCount]
+    );
+    return result.rows[0]?.removed || 0;
   }
 
   private static toJobRecord(row: any): AnalysisJobRecord {
+    const priority = (Object.keys(PRIORITY_RANK) as JobPriority[]).find(
+      (lane) => PRIORITY_RANK[lane] === Number(row.priority)
+    );
     return {
       id: row.id,
+      kind: row.kind || 'profile',
       sourceCode: row.source_code,
+      project: row.project || undefined,
+      candidate: row.candidate || undefined,
+      options: row.options || {},
       status: row.status,
+      priority: priority || 'normal',
       attempts: row.attempts,
       cancelRequested: row.cancel_requested,
       createdAt: Number(row.created_at),
@@ -109,6 +369,10 @@ export class JobPersistenceService {
       error: row.error || undefined,
       result: row.result || undefined,
       retryOf: row.retry_of || undefined,
+      leaseOwner: row.lease_owner || undefined,
+      leaseExpiresAt: row.lease_expires_at ? Number(row.lease_expires_at) : undefined,
+      history: (row.history || []) as JobHistoryEntry[],
+      progress: row.progress || undefined,
     };
   }
 
@@ -1,93 +1,175 @@
 import crypto from 'crypto';
+import { EventEmitter } from 'events';
+import os from 'os';
+import { CompilerSweepResult, CompilerSweepService } from './compiler-sweep.service';
+import { EquivalenceResult, EquivalenceService } from './equivalence.service';
 import { JobPersistenceService } from './job-persistence.service';
-import { WorkerAnalysisService, WorkerGasProfileResult } from './worker-analysis.service';
+import {
+  SourceBundle,
+  WorkerAnalysisOptions,
+  WorkerAnalysisService,
+  WorkerGasProfileResult,
+  WorkerProgressEvent,
+} from './worker-analysis.service';
 
 export type JobStatus = 'queued' | 'processing' | 'completed' | 'failed' | 'cancelled';
 
+export type JobKind = 'profile' | 'compiler_sweep' | 'equivalence';
+
+/** Queue lane; higher lanes are always claimed first, FIFO within a lane. */
+export type JobPriority = 'high' | 'normal' | 'low';
+
+export const JOB_PRIORITIES: JobPriority[] = ['high', 'normal', 'low'];
+
+export type JobHistoryEvent =
+  | 'queued'
+  | 'claimed'
+  | 'requeued'
+  | 'abandoned'
+  | 'cancel_requested'
+  | 'completed'
+  | 'failed'
+  | 'cancelled';
+
+export type JobHistoryEntry = {
+  at: number;
+  event: JobHistoryEvent;
+  /** Lease owner involved, e.g. the worker that claimed the job or stopped running it. */
+  worker?: string;
+  message?: string;
+};
+
 export type AnalysisJobRecord = {
   id: string;
+  kind: JobKind;
+  /** Entry file source; the full tree is in `project` for multi-file jobs. */
   sourceCode: string;
+  project?: SourceBundle;
+  /** Optimized project an `equivalence` job compares the source against. */
+  candidate?: SourceBundle;
+  options: WorkerAnalysisOptions;
   status: JobStatus;
+  priority: JobPriority;
   attempts: number;
   cancelRequested: boolean;
   createdAt: number;
   updatedAt: number;
   error?: string;
-  result?: WorkerGasProfileResult;
+  result?: WorkerGasProfileResult | CompilerSweepResult | EquivalenceResult;
   retryOf?: string;
+  /** Worker replica currently running the job, and when its lease runs out. */
+  leaseOwner?: string;
+  leaseExpiresAt?: number;
+  history: JobHistoryEntry[];
+  /** Latest step reported while `processing`; cleared when the job is (re)claimed. */
+  progress?: WorkerProgressEvent;
 };
 
-export type AnalysisJob = Omit<AnalysisJobRecord, 'sourceCode'>;
+export type AnalysisJob = Omit<AnalysisJobRecord, 'sourceCode' | 'project' | 'candidate'>;
 
+/**
+ * Postgres-backed job queue. Jobs are only inserted here; each replica claims
+ * up to `WORKER_MAX_CONCURRENCY` of them under a lease it renews while running.
+ * Jobs of a crashed replica are re-queued once the lease expires, and failed
+ * after `WORKER_MAX_ATTEMPTS` interrupted runs.
+ */
 export class JobStoreService {
-  private static jobs = new Map<string, AnalysisJobRecord>();
+  private static workerIdentity: string | null = null;
   private static controllers = new Map<string, AbortController>();
-  private static initialized = false;
-  private static writeChain: Promise<void> = Promise.resolve();
+  private static running = 0;
+  private static draining = false;
+  private static drainRequested = false;
+  private static pollTimer: NodeJS.Timeout | null = null;
+  private static sweepTimer: NodeJS.Timeout | null = null;
+  private static emitter = new EventEmitter();
+
+  /**
+   * Recovers jobs interrupted by a previous run, then begins claiming jobs and
+   * polls for jobs submitted to other replicas or orphaned by them. Queued jobs
+   * need no recovery; they are claimed as usual. Retention sweeps run on their
+   * own interval.
+   */
+  public static async start(): Promise<void> {
+    if (this.pollTimer) {
+      return;
+    }
+    this.pollTimer = setInterval(() => void this.poll(), this.envInt('WORKER_QUEUE_POLL_MS', 2000));
+    this.sweepTimer = setInterval(() => void this.sweep(), this.envInt('WORKER_JOB_SWEEP_INTERVAL_MS', 10 * 60 * 1000));
+
+    // With a stable WORKER_ID, leases held by this worker's previous process are
+    // recovered immediately instead of after they expire.
+    await this.recover(process.env.WORKER_ID ? this.workerId() : undefined);
+    await this.drain();
+    await this.sweep();
+  }
 
-  public static async createAnalysisJob(code: string): Promise<AnalysisJob> {
-    await this.ensureInitialized();
+  /** Streams progress of jobs running on this replica; see `GET /jobs/:id/events` for the rest. */
+  public static subscribe(jobId: string, handler: (event: WorkerProgressEvent) => void): () => void {
+    const eventName = `worker-job:${jobId}`;
+    this.emitter.on(eventName, handler);
+    return () => this.emitter.off(eventName, handler);
+  }
+
+  /** Rejects sources larger than `WORKER_MAX_SOURCE_BYTES`, which every job row keeps. */
+  public static sourceSizeError(input: string | SourceBundle): string | undefined {
+    const maxBytes = this.envInt('WORKER_MAX_SOURCE_BYTES', 1024 * 1024);
+    const files = typeof input === 'string' ? [input] : Object.values(input.sources);
+    const bytes = files.reduce((total, source) => total + Buffer.byteLength(source), 0);
+    return bytes > maxBytes ? `Source is ${bytes} bytes; the limit is ${maxBytes} bytes.` : undefined;
+  }
 
+  public static async createAnalysisJob(
+    input: string | SourceBundle,
+    options: WorkerAnalysisOptions = {},
+    kind: JobKind = 'profile',
+    priority: JobPriority = 'normal',
+    candidate?: SourceBundle
+  ): Promise<AnalysisJob> {
     const id = crypto.randomUUID();
     const now = Date.now();
     const job: AnalysisJobRecord = {
       id,
-      sourceCode: code,
+      kind,
+      sourceCode: typeof input === 'string' ? input : input.sources[input.entry],
+      project: typeof input === 'string' ? undefined : input,
+      candidate,
+      options,
       status: 'queued',
+      priority,
       attempts: 1,
       cancelRequested: false,
       createdAt: now,
       updatedAt: now,
+      history: [{ at: now, event: 'queued' }],
     };
 
-    this.jobs.set(id, job);
-    await this.persistJob(job);
-    void this.processJob(id);
+    await JobPersistenceService.insertJob(job);
+    void this.drain();
     return this.toPublicJob(job);
   }
 
   public static async getJob(id: string): Promise<AnalysisJob | undefined> {
-    await this.ensureInitialized();
-    const job = this.jobs.get(id);
+    const job = await JobPersistenceService.getJob(id);
     return job ? this.toPublicJob(job) : undefined;
   }
 
   public static async cancelJob(id: string): Promise<AnalysisJob | undefined> {
-    await this.ensureInitialized();
-    const job = this.jobs.get(id);
+    const job = await JobPersistenceService.requestCancel(id);
     if (!job) {
       return undefined;
     }
 
-    if (job.status === 'completed' || job.status === 'failed' || job.status === 'cancelled') {
-      return this.toPublicJob(job);
-    }
-
-    const updated: AnalysisJobRecord = {
-      ...job,
-      cancelRequested: true,
-      updatedAt: Date.now(),
-      error: 'Job cancelled by user.',
-    };
-
-    if (job.status === 'queued') {
-      updated.status = 'cancelled';
-    }
-
-    this.jobs.set(id, updated);
-    await this.persistJob(updated);
-
+    // Jobs running on another replica notice the flag on their next lease renewal.
     const controller = this.controllers.get(id);
-    if (controller) {
+    if (controller && job.cancelRequested) {
       controller.abort();
     }
 
-    return this.toPublicJob(updated);
+    return this.toPublicJob(job);
   }
 
   public static async retryJob(id: string): Promise<AnalysisJob | undefined> {
-    await this.ensureInitialized();
-    const previous = this.jobs.get(id);
+    const previous = await JobPersistenceService.getJob(id);
     if (!previous) {
       return undefined;
     }
@@ -100,118 +182,222 @@ export class JobStoreService {
     const now = Date.now();
     const retryJob: AnalysisJobRecord = {
       id: retryId,
+      kind: previous.kind,
       sourceCode: previous.sourceCode,
+      project: previous.project,
+      candidate: previous.candidate,
+      options: previous.options,
       status: 'queued',
+      priority: previous.priority,
       attempts: previous.attempts + 1,
       cancelRequested: false,
       createdAt: now,
       updatedAt: now,
       retryOf: previous.id,
+      history: [{ at: now, event: 'queued', message: `Retry of ${previous.id}.` }],
     };
 
-    this.jobs.set(retryId, retryJob);
-    await this.persistJob(retryJob);
-    void this.processJob(retryId);
+    await JobPersistenceService.insertJob(retryJob);
+    void this.drain();
     return this.toPublicJob(retryJob);
   }
 
-  private static async processJob(id: string): Promise<void> {
-    const current = this.jobs.get(id);
-    if (!current || current.cancelRequested || current.status === 'cancelled') {
-      return;
+  private static async poll(): Promise<void> {
+    await this.recover();
+    await this.drain();
+  }
+
+  /** Settles `processing` jobs with an expired lease, or held by `ownOwner`. */
+  private static async recover(ownOwner?: string): Promise<void> {
+    try {
+      const recovered = await JobPersistenceService.recoverOrphanedJobs(this.maxAttempts(), ownOwner);
+      for (const job of recovered) {
+        console.log(`Recovered interrupted worker job ${job.id}: now ${job.status}.`);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown queue error';
+      console.error(`Failed to recover interrupted worker jobs: ${message}`);
     }
+  }
 
-    const controller = new AbortController();
-    this.controllers.set(id, controller);
+  /**
+   * Applies retention: finished jobs older than `WORKER_JOB_RETENTION_MS`, or
+   * beyond the newest `WORKER_JOB_MAX_COUNT`, are deleted or archived
+   * (`WORKER_JOB_RETENTION_MODE`).
+   */
+  private static async sweep(): Promise<void> {
+    try {
+      const removed = await JobPersistenceService.sweepJobs({
+        updatedBefore: Date.now() - this.envInt('WORKER_JOB_RETENTION_MS', 7 * 24 * 60 * 60 * 1000),
+        maxCount: this.envInt('WORKER_JOB_MAX_COUNT', 10000),
+        mode: process.env.WORKER_JOB_RETENTION_MODE === 'archive' ? 'archive' : 'delete',
+      });
+      if (removed > 0) {
+        console.log(`Retention removed ${removed} finished worker job(s).`);
+      }
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown queue error';
+      console.error(`Failed to sweep worker jobs: ${message}`);
+    }
+  }
 
-    this.jobs.set(id, {
-      ...current,
-      status: 'processing',
-      updatedAt: Date.now(),
-      error: undefined,
-    });
-    await this.persistCurrent(id);
+  /** Claims jobs until every local slot is busy or the queue is empty. */
+  private static async drain(): Promise<void> {
+    if (this.draining) {
+      this.drainRequested = true;
+      return;
+    }
+    this.draining = true;
 
     try {
-      const result = await WorkerAnalysisService.getGasProfile(current.sourceCode, id, controller.signal);
-      const done = this.jobs.get(id);
-      if (!done) {
-        return;
-      }
+      do {
+        this.drainRequested = false;
+        while (this.running < this.maxConcurrency()) {
+          const job = await JobPersistenceService.claimNextJob(this.workerId(), this.leaseMs());
+          if (!job) {
+            break;
+          }
+          this.running += 1;
+          void this.processJob(job).finally(() => {
+            this.running -= 1;
+            void this.drain();
+          });
+        }
+      } while (this.drainRequested);
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : 'Unknown queue error';
+      console.error(`Failed to claim worker job: ${message}`);
+    } finally {
+      this.draining = false;
+    }
+  }
 
-      if (done.cancelRequested) {
-        this.jobs.set(id, {
-          ...done,
-          status: 'cancelled',
-          updatedAt: Date.now(),
-          error: 'Job cancelled by user.',
-        });
-      } else {
-        this.jobs.set(id, {
-          ...done,
-          status: 'completed',
-          result,
-          updatedAt: Date.now(),
-          error: undefined,
+  private static async processJob(job: AnalysisJobRecord): Promise<void> {
+    const controller = new AbortController();
+    this.controllers.set(job.id, controller);
+
+    let leaseLost = false;
+    const heartbeat = setInterval(() => {
+      JobPersistenceService.renewLease(job.id, this.workerId(), this.leaseMs())
+        .then((lease) => {
+          if (!lease) {
+            leaseLost = true;
+            controller.abort();
+          } else if (lease.cancelRequested) {
+            controller.abort();
+          }
+        })
+        .catch((error: unknown) => {
+          const message = error instanceof Error ? error.message : 'Unknown lease error';
+          console.error(`Failed to renew lease for job ${job.id}: ${message}`);
         });
+    }, Math.max(1000, Math.floor(this.leaseMs() / 3)));
+
+    try {
+      const input = job.project || job.sourceCode;
+      const onProgress = (event: WorkerProgressEvent) => this.reportProgress(job.id, event);
+      const result = await this.runJobKind(job, input, controller.signal, onProgress);
+
+      const resultBytes = Buffer.byteLength(JSON.stringify(result));
+      const maxResultBytes = this.envInt('WORKER_MAX_RESULT_BYTES', 5 * 1024 * 1024);
+      if (resultBytes > maxResultBytes) {
+        throw new Error(`Result is ${resultBytes} bytes; the storage limit is ${maxResultBytes} bytes.`);
       }
-      await this.persistCurrent(id);
+
+      await this.finish(job.id, { status: 'completed', result });
     } catch (error: unknown) {
-      const failed = this.jobs.get(id);
-      if (!failed) {
+      if (leaseLost) {
+        console.error(`Lost lease for job ${job.id}; another worker will take it over.`);
         return;
       }
 
-      if (failed.cancelRequested || this.isAbortError(error)) {
-        this.jobs.set(id, {
-          ...failed,
-          status: 'cancelled',
-          updatedAt: Date.now(),
-          error: 'Job cancelled by user.',
-        });
+      if (controller.signal.aborted || this.isAbortError(error)) {
+        await this.finish(job.id, { status: 'cancelled', error: 'Job cancelled by user.' });
       } else {
         const message = error instanceof Error ? error.message : 'Unknown worker error';
-        this.jobs.set(id, {
-          ...failed,
-          status: 'failed',
-          error: message,
-          updatedAt: Date.now(),
-        });
+        await this.finish(job.id, { status: 'failed', error: message });
       }
-      await this.persistCurrent(id);
     } finally {
-      this.controllers.delete(id);
+      clearInterval(heartbeat);
+      this.controllers.delete(job.id);
     }
   }
 
-  private static async ensureInitialized(): Promise<void> {
-    if (this.initialized) {
-      return;
+  private static async runJobKind(
+    job: AnalysisJobRecord,
+    input: string | SourceBundle,
+    signal: AbortSignal,
+    onProgress: (event: WorkerProgressEvent) => void
+  ): Promise<NonNullable<AnalysisJobRecord['result']>> {
+    if (job.kind === 'compiler_sweep') {
+      return CompilerSweepService.run(input, job.id, signal, job.options, onProgress);
     }
-
-    const persisted = await JobPersistenceService.loadJobs();
-    for (const job of persisted) {
-      this.jobs.set(job.id, job);
+    if (job.kind === 'equivalence') {
+      if (!job.candidate) {
+        throw new Error('Equivalence job has no candidate source.');
+      }
+      return EquivalenceService.check(input, job.candidate, job.id, signal, job.options, onProgress);
     }
+    return WorkerAnalysisService.getGasProfile(input, job.id, signal, job.options, onProgress);
+  }
 
-    this.initialized = true;
+  private static reportProgress(id: string, event: WorkerProgressEvent): void {
+    this.emitter.emit(`worker-job:${id}`, event);
+    JobPersistenceService.updateProgress(id, this.workerId(), event).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Unknown persistence error';
+      console.error(`Failed to record progress of job ${id}: ${message}`);
+    });
   }
 
-  private static async persistCurrent(id: string): Promise<void> {
-    const job = this.jobs.get(id);
-    if (!job) {
-      return;
+  private static async finish(
+    id: string,
+    outcome: { status: JobStatus; result?: AnalysisJobRecord['result']; error?: string }
+  ): Promise<void> {
+    const recorded = await JobPersistenceService.finishJob(id, this.workerId(), outcome).catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : 'Unknown persistence error';
+      console.error(`Failed to record outcome of job ${id}: ${message}`);
+      return true;
+    });
+    if (!recorded) {
+      console.error(`Discarded outcome of job ${id}: its lease was taken over by another worker.`);
+    }
+  }
+
+  /** Lease owner name for this process: `WORKER_ID`, or host, pid and a random suffix. */
+  private static workerId(): string {
+    if (!this.workerIdentity) {
+      this.workerIdentity =
+        process.env.WORKER_ID || `${os.hostname()}:${process.pid}:${crypto.randomUUID().slice(0, 8)}`;
     }
-    await this.persistJob(job);
+    return this.workerIdentity;
+  }
+
+  private static maxConcurrency(): number {
+    const n = this.envInt('WORKER_MAX_CONCURRENCY', 2);
+    return n > 0 ? n : 2;
+  }
+
+  /** Runs per job, counting retries and restarts, before an interrupted job is failed. */
+  private static maxAttempts(): number {
+    const n = this.envInt('WORKER_MAX_ATTEMPTS', 3);
+    return n > 0 ? n : 3;
+  }
+
+  private static leaseMs(): number {
+    return this.envInt('WORKER_LEASE_MS', 60000);
   }
 
-  private static async persistJob(job: AnalysisJobRecord): Promise<void> {
-    this.writeChain = this.writeChain.then(() => JobPersistenceService.upsertJob(job));
-    await this.writeChain;
+  private static envInt(envName: string, fallback: number): number {
+    const raw = process.env[envName];
+    if (!raw) {
+      return fallback;
+    }
+    const n = parseInt(raw, 10);
+    return Number.isFinite(n) ? n : fallback;
   }
 
   private static toPublicJob(job: AnalysisJobRecord): AnalysisJob {
-    const { sourceCode: _sourceCode, ...publicJob } = job;
+    const { sourceCode: _sourceCode, project: _project, candidate: _candidate, ...publicJob } = job;
     return publicJob;
   }
 
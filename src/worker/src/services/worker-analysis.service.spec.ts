@@ -0,0 +1,55 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { StorageVariable, WorkerAnalysisService } from './worker-analysis.service';
+
+const readStorageLayout = (
+  artifactFolder: string,
+  sourceName: string,
+  contractName: string
+): Promise<StorageVariable[] | undefined> =>
+  (WorkerAnalysisService as any).readStorageLayout(artifactFolder, sourceName, contractName);
+
+describe('WorkerAnalysisService.readStorageLayout', () => {
+  let artifactFolder: string;
+
+  const writeBuildInfo = async (contract: Record<string, unknown>) => {
+    await fs.mkdir(path.join(artifactFolder, 'build-info'), { recursive: true });
+    await fs.writeFile(
+      path.join(artifactFolder, 'build-info', 'abc.json'),
+      JSON.stringify({ output: { contracts: { 'contracts/Token.sol': { Token: contract } } } })
+    );
+    await fs.writeFile(
+      path.join(artifactFolder, 'Token.dbg.json'),
+      JSON.stringify({ buildInfo: './build-info/abc.json' })
+    );
+  };
+
+  beforeEach(async () => {
+    artifactFolder = await fs.mkdtemp(path.join(os.tmpdir(), 'storage-layout-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(artifactFolder, { recursive: true, force: true });
+  });
+
+  it('describes the layout solc reports', async () => {
+    await writeBuildInfo({
+      storageLayout: {
+        storage: [{ contract: 'contracts/Token.sol:Token', label: 'total', slot: '0', offset: 0, type: 't_uint256' }],
+        types: { t_uint256: { label: 'uint256', numberOfBytes: '32' } },
+      },
+    });
+
+    await expect(readStorageLayout(artifactFolder, 'contracts/Token.sol', 'Token')).resolves.toEqual([
+      { contract: 'Token.sol:Token', label: 'total', slot: '0', offset: 0, type: 'uint256', bytes: 32 },
+    ]);
+  });
+
+  it('returns undefined when solc reports no layout', async () => {
+    await writeBuildInfo({ abi: [] });
+
+    await expect(readStorageLayout(artifactFolder, 'contracts/Token.sol', 'Token')).resolves.toBeUndefined();
+  });
+});
@@ -2,10 +2,13 @@ import { spawn } from 'child_process';
 import fs from 'fs/promises';
 import path from 'path';
 import { parse, visit } from '@solidity-parser/parser';
+import { CompilerSettings, CompilerSettingsService, ResolvedCompilerSettings } from './compiler-settings.service';
 
 const HARDHAT_PROJECT_PATH = path.join(__dirname, '../../hardhat');
-const HARDHAT_CONTRACTS_PATH = path.join(HARDHAT_PROJECT_PATH, 'contracts');
-const GAS_SCRIPT_PATH = path.join('scripts', 'gas-estimator.ts');
+// Workspaces stay inside the worker so hardhat and its plugins resolve from the worker's node_modules.
+const HARDHAT_WORKSPACES_PATH = path.join(HARDHAT_PROJECT_PATH, 'workspaces');
+const GAS_SCRIPT_PATH = path.join(HARDHAT_PROJECT_PATH, 'scripts', 'gas-estimator.ts');
+const WORKSPACE_CONFIG = "export { default } from '../../hardhat.config';\n";
 
 type SolidityFunction = {
   name: string;
@@ -13,14 +16,129 @@ type SolidityFunction = {
   stateMutability: string | null;
 };
 
+/** Raised when the target contract cannot be chosen unambiguously from the source. */
+export class ContractSelectionError extends Error {
+  constructor(message: string, public readonly candidates: string[]) {
+    super(message);
+    this.name = 'ContractSelectionError';
+  }
+}
+
+export type MeasurementMode = 'estimate' | 'execute';
+
+export const MEASUREMENT_MODES: MeasurementMode[] = ['estimate', 'execute'];
+
+/**
+ * One contract call in a gas scenario. `function` is a name or full signature,
+ * `from` a Hardhat signer index (0 is the deployer) and `value` a wei amount.
+ * String args may use the placeholders `$signer:N` and `$contract`.
+ */
+export type GasScenarioCall = {
+  function: string;
+  args?: unknown[];
+  from?: number;
+  value?: string;
+  label?: string;
+};
+
+/**
+ * Setup calls run unmeasured against a fresh deployment, then each step is sent
+ * as a transaction and its receipt gas is reported.
+ */
+export type GasScenario = {
+  name: string;
+  setup?: GasScenarioCall[];
+  steps: GasScenarioCall[];
+};
+
+export type WorkerAnalysisOptions = {
+  measurementMode?: MeasurementMode;
+  scenarios?: GasScenario[];
+  signerCount?: number;
+  contractName?: string;
+  /** JSON argument list (placeholders allowed) or ABI-encoded hex string. */
+  constructorArgs?: unknown[] | string;
+  compiler?: CompilerSettings;
+  /** Only read by equivalence jobs. */
+  equivalence?: EquivalenceOptions;
+};
+
+/**
+ * Call sequences replayed by an equivalence check: one deterministic sequence plus
+ * `randomSequences` seeded random ones of `sequenceLength` calls, then `fuzzRuns`
+ * random single calls per function (0 disables fuzzing). Without a `seed` a
+ * random one is picked and reported.
+ */
+export type EquivalenceOptions = {
+  seed?: number;
+  randomSequences?: number;
+  sequenceLength?: number;
+  fuzzRuns?: number;
+};
+
+export const MAX_SIGNER_COUNT = 20;
+
+/**
+ * A multi-file project: `sources` maps project-relative `.sol` paths to their
+ * content and `entry` names the file that defines the contract to deploy.
+ * Relative imports resolve between these files; `@openzeppelin/contracts`
+ * resolves from the worker's node_modules.
+ */
+export type SourceBundle = {
+  entry: string;
+  sources: Record<string, string>;
+};
+
+/** File name used when a job submits a single `code` string. */
+export const SINGLE_FILE_ENTRY = 'Contract.sol';
+
+/** A funded Hardhat account and the roles detected for it after deployment. */
+export type WorkerSignerInfo = {
+  index: number;
+  address: string;
+  roles: string[];
+};
+
+export type GasScenarioStepResult =
+  | {
+      status: 'measured';
+      label: string;
+      function: string;
+      signerIndex: number;
+      from: string;
+      gasUsed: string;
+      estimatedGas: string;
+    }
+  | {
+      status: 'failed';
+      label: string;
+      function: string;
+      signerIndex: number;
+      reason: string;
+    };
+
+export type GasScenarioResult = {
+  name: string;
+  status: 'completed' | 'setup_failed';
+  error?: string;
+  steps: GasScenarioStepResult[];
+};
+
 export type WorkerGasProfile = {
   deploymentGas: string;
+  measurementMode: MeasurementMode;
+  signers: WorkerSignerInfo[];
   functions: Record<
     string,
     | {
         status: 'measured';
         gasUsed: string;
+        estimatedGas: string;
+        executedGas?: string;
+        executionError?: string;
         stateMutability: string;
+        caller?: { signerIndex: number; address: string };
+        scenario?: string;
       }
     | {
         status: 'unmeasured';
@@ -28,6 +146,23 @@ export type WorkerGasProfile = {
         stateMutability: string;
       }
   >;
+  scenarios?: GasScenarioResult[];
+};
+
+/**
+ * A state variable's position from solc's `storageLayout`. `contract` is the
+ * declaring `file:Contract` and `type` the Solidity type name. Struct types (also
+ * as mapping values or array elements) list their fields in `members`, whose slots
+ * are relative to the start of the struct.
+ */
+export type StorageVariable = {
+  contract: string;
+  label: string;
+  slot: string;
+  offset: number;
+  type: string;
+  bytes: number;
+  members?: StorageVariable[];
 };
 
 export type WorkerGasProfileResult = {
@@ -35,58 +170,100 @@ export type WorkerGasProfileResult = {
   abi: unknown[];
   bytecode: string;
   contractName: string;
+  compiler: ResolvedCompilerSettings;
+  /** Left out when solc reports no storage layout (releases before 0.5.13). */
+  storageLayout?: StorageVariable[];
 };
 
+type SolcStorageLayout = {
+  storage: Array<{ contract: string; label: string; slot: string; offset: number; type: string }>;
+  types: Record<
+    string,
+    {
+      label: string;
+      numberOfBytes: string;
+      members?: SolcStorageLayout['storage'];
+      value?: string;
+      base?: string;
+    }
+  > | null;
+};
+
+export type WorkerProgressStep =
+  | 'writing_sources'
+  | 'compiling'
+  | 'deploying'
+  | 'measuring'
+  | 'scenario'
+  | 'comparing';
+
+/** Fine-grained step of a running job; `current`/`total` count functions, scenarios or call sequences. */
+export type WorkerProgressEvent = {
+  step: WorkerProgressStep;
+  message: string;
+  current?: number;
+  total?: number;
+  timestamp: number;
+};
+
+/** Prefix of the stderr lines the Hardhat scripts report progress with. */
+const PROGRESS_PREFIX = 'GWEIZERO_PROGRESS ';
+
 export class WorkerAnalysisService {
   public static async getGasProfile(
-    code: string,
+    input: string | SourceBundle,
     jobId: string,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    options: WorkerAnalysisOptions = {},
+    onProgress?: (event: WorkerProgressEvent) => void
   ): Promise<WorkerGasProfileResult> {
     this.throwIfAborted(signal);
+    const report = (step: WorkerProgressStep, message: string) =>
+      onProgress?.({ step, message, timestamp: Date.now() });
 
-    const parsed = this.getContractMetadata(code);
-    const fileBase = `TempContract_${jobId.replace(/-/g, '_')}`;
-    const sourceFile = `${fileBase}.sol`;
-    const sourcePath = path.join(HARDHAT_CONTRACTS_PATH, sourceFile);
-    const artifactFolder = path.join(HARDHAT_PROJECT_PATH, 'artifacts', 'contracts', sourceFile);
+    const project = this.toSourceBundle(input);
+    const parsed = this.getContractMetadata(project.sources[project.entry], options.contractName);
+    const compiler = await CompilerSettingsService.resolve(Object.values(project.sources), options.compiler);
+    const hardhatEnv: NodeJS.ProcessEnv = {
+      ...process.env,
+      COMPILER_SETTINGS: JSON.stringify(compiler),
+    };
+    // Each job compiles in its own Hardhat project (sources, cache and artifacts) so jobs can run in parallel.
+    const fileCount = Object.keys(project.sources).length;
+    report('writing_sources', `Writing ${fileCount} source file${fileCount === 1 ? '' : 's'}...`);
+    const workspacePath = await this.createWorkspace(jobId, project);
+    const configPath = path.join(workspacePath, 'estimator.config.json');
+    const artifactFolder = path.join(workspacePath, 'artifacts', 'contracts', project.entry);
 
-    await fs.writeFile(sourcePath, code);
+    await fs.writeFile(
+      configPath,
+      JSON.stringify({
+        measurementMode: options.measurementMode || this.defaultMeasurementMode(),
+        scenarios: options.scenarios || [],
+        signerCount: options.signerCount,
+        contractName: parsed.contractName,
+        constructorArgs: options.constructorArgs,
+      })
+    );
 
     try {
       this.throwIfAborted(signal);
 
-      await this.execHardhat(
-        ['hardhat', 'compile'],
-        {
-          cwd: HARDHAT_PROJECT_PATH,
-          env: process.env,
-        },
-        signal
-      );
+      report('compiling', `Compiling with solc ${compiler.version}...`);
+      await this.compileWorkspace(workspacePath, hardhatEnv, signal);
 
-      const { stdout, stderr } = await this.execHardhat(
-        ['hardhat', 'run', GAS_SCRIPT_PATH],
+      const gasProfile = await this.runScript<WorkerGasProfile>(
+        workspacePath,
+        GAS_SCRIPT_PATH,
         {
-          cwd: HARDHAT_PROJECT_PATH,
-          env: {
-            ...process.env,
-            SOURCE_FILE: sourceFile,
-          },
+          ...hardhatEnv,
+          SOURCE_FILE: project.entry,
+          ESTIMATOR_CONFIG_FILE: configPath,
         },
-        signal
+        signal,
+        onProgress
       );
 
-      if (stderr) {
-        console.error(`Gas estimator script warning: ${stderr}`);
-      }
-
-      const jsonOutputMatch = stdout.match(/\{[\s\S]*\}/);
-      if (!jsonOutputMatch) {
-        throw new Error('Failed to parse gas estimator output.');
-      }
-      const gasProfile = JSON.parse(jsonOutputMatch[0]) as WorkerGasProfile;
-
       const artifactPath = path.join(artifactFolder, `${parsed.contractName}.json`);
       const artifact = JSON.parse(await fs.readFile(artifactPath, 'utf8')) as {
         abi: unknown[];
@@ -94,24 +271,196 @@ export class WorkerAnalysisService {
         contractName: string;
       };
 
+      const storageLayout = await this.readStorageLayout(
+        artifactFolder,
+        `contracts/${project.entry}`,
+        parsed.contractName
+      );
       return {
         gasProfile,
         abi: artifact.abi,
         bytecode: artifact.bytecode,
         contractName: artifact.contractName,
+        compiler,
+        ...(storageLayout ? { storageLayout } : {}),
       };
     } finally {
-      await Promise.allSettled([fs.unlink(sourcePath), fs.rm(artifactFolder, { recursive: true, force: true })]);
+      await fs.rm(workspacePath, { recursive: true, force: true }).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Creates `hardhat/workspaces/<job>/` holding the job's sources under `contracts/`
+   * and a config that re-exports the shared one, which makes the workspace the
+   * Hardhat project root.
+   */
+  public static async createWorkspace(jobId: string, project: SourceBundle): Promise<string> {
+    const workspacePath = path.join(HARDHAT_WORKSPACES_PATH, `job_${jobId.replace(/-/g, '_')}`);
+    await fs.rm(workspacePath, { recursive: true, force: true });
+    await fs.mkdir(workspacePath, { recursive: true });
+    await fs.writeFile(path.join(workspacePath, 'hardhat.config.ts'), WORKSPACE_CONFIG);
+
+    for (const [file, content] of Object.entries(project.sources)) {
+      const filePath = path.join(workspacePath, 'contracts', file);
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, content);
+    }
+    return workspacePath;
+  }
+
+  public static async compileWorkspace(workspacePath: string, env: NodeJS.ProcessEnv, signal?: AbortSignal): Promise<void> {
+    await this.execHardhat(['hardhat', 'compile'], { cwd: workspacePath, env }, signal);
+  }
+
+  /**
+   * Runs a script from `hardhat/scripts` in a compiled workspace, relaying its
+   * progress lines, and returns the JSON document it prints.
+   */
+  public static async runScript<T>(
+    workspacePath: string,
+    scriptPath: string,
+    env: NodeJS.ProcessEnv,
+    signal?: AbortSignal,
+    onProgress?: (event: WorkerProgressEvent) => void
+  ): Promise<T> {
+    const script = path.basename(scriptPath, '.ts');
+    const { stdout, stderr } = await this.execHardhat(
+      ['hardhat', 'run', scriptPath],
+      { cwd: workspacePath, env },
+      signal,
+      (line) => {
+        const event = this.parseProgressLine(line);
+        if (event) {
+          onProgress?.(event);
+        }
+      }
+    );
+
+    if (stderr) {
+      console.error(`${script} script warning: ${stderr}`);
+    }
+
+    const jsonOutputMatch = stdout.match(/\{[\s\S]*\}/);
+    if (!jsonOutputMatch) {
+      throw new Error(`Failed to parse ${script} output.`);
+    }
+    return JSON.parse(jsonOutputMatch[0]) as T;
+  }
+
+  public static toSourceBundle(input: string | SourceBundle): SourceBundle {
+    return typeof input === 'string' ? { entry: SINGLE_FILE_ENTRY, sources: { [SINGLE_FILE_ENTRY]: input } } : input;
+  }
+
+  /**
+   * Checks a submitted project: non-empty, every path a relative `.sol` path
+   * that stays inside the project, and `entry` one of the files.
+   */
+  public static validateSourceBundle(sources: unknown, entry: unknown): string | undefined {
+    if (typeof sources !== 'object' || sources === null || Array.isArray(sources)) {
+      return 'sources must be an object mapping file paths to Solidity source';
+    }
+    const files = Object.entries(sources as Record<string, unknown>);
+    if (files.length === 0) {
+      return 'sources must contain at least one file';
+    }
+    for (const [file, content] of files) {
+      if (typeof content !== 'string') {
+        return `sources["${file}"] must be a string`;
+      }
+      const normalized = path.posix.normalize(file);
+      if (
+        !file.endsWith('.sol') ||
+        path.posix.isAbsolute(file) ||
+        normalized !== file ||
+        normalized.startsWith('../') ||
+        file.includes('\\')
+      ) {
+        return `sources path "${file}" must be a normalized relative .sol path inside the project`;
+      }
+    }
+    // Own keys only: `in` would accept inherited names such as `constructor`.
+    if (typeof entry !== 'string' || !Object.prototype.hasOwnProperty.call(sources, entry)) {
+      return 'entry must name one of the files in sources';
+    }
+    return undefined;
+  }
+
+  private static defaultMeasurementMode(): MeasurementMode {
+    const raw = (process.env.GAS_MEASUREMENT_MODE || '').toLowerCase();
+    return MEASUREMENT_MODES.includes(raw as MeasurementMode) ? (raw as MeasurementMode) : 'estimate';
+  }
+
+  /**
+   * Reads the contract's `storageLayout` from the build info its debug artifact points to;
+   * undefined when solc did not report one.
+   */
+  private static async readStorageLayout(
+    artifactFolder: string,
+    sourceName: string,
+    contractName: string
+  ): Promise<StorageVariable[] | undefined> {
+    const debugArtifact = JSON.parse(
+      await fs.readFile(path.join(artifactFolder, `${contractName}.dbg.json`), 'utf8')
+    ) as { buildInfo: string };
+    const buildInfo = JSON.parse(await fs.readFile(path.resolve(artifactFolder, debugArtifact.buildInfo), 'utf8')) as {
+      output: { contracts: Record<string, Record<string, { storageLayout?: SolcStorageLayout }>> };
+    };
+    const layout = buildInfo.output.contracts[sourceName]?.[contractName]?.storageLayout;
+    if (!layout) {
+      return undefined;
+    }
+    return this.describeStorage(layout.storage, layout.types || {}, new Set());
+  }
+
+  private static describeStorage(
+    entries: SolcStorageLayout['storage'],
+    types: NonNullable<SolcStorageLayout['types']>,
+    seen: Set<string>
+  ): StorageVariable[] {
+    return entries.map((entry) => {
+      const type = types[entry.type];
+      // Follow mapping values and array elements down to a struct; `seen` stops self-referencing structs.
+      let structId: string | undefined = entry.type;
+      while (structId && types[structId] && !types[structId].members) {
+        structId = types[structId].value || types[structId].base;
+      }
+      const members =
+        structId && types[structId]?.members && !seen.has(structId)
+          ? this.describeStorage(types[structId].members || [], types, new Set([...seen, structId]))
+          : undefined;
+      return {
+        contract: entry.contract.replace(/^contracts\//, ''),
+        label: entry.label,
+        slot: entry.slot,
+        offset: entry.offset,
+        type: type?.label || entry.type,
+        bytes: Number(type?.numberOfBytes || 0),
+        ...(members ? { members } : {}),
+      };
+    });
+  }
+
+  private static parseProgressLine(line: string): WorkerProgressEvent | undefined {
+    if (!line.startsWith(PROGRESS_PREFIX)) {
+      return undefined;
+    }
+    try {
+      const parsed = JSON.parse(line.slice(PROGRESS_PREFIX.length)) as Omit<WorkerProgressEvent, 'timestamp'>;
+      return { ...parsed, timestamp: Date.now() };
+    } catch {
+      return undefined;
     }
   }
 
+  /** Runs `npx <args>`; progress lines are passed to `onProgressLine` and left out of the returned stderr. */
   private static execHardhat(
     args: string[],
     options: {
       cwd: string;
       env: NodeJS.ProcessEnv;
     },
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    onProgressLine?: (line: string) => void
   ): Promise<{ stdout: string; stderr: string }> {
     return new Promise((resolve, reject) => {
       const child = spawn('npx', args, {
@@ -122,13 +471,22 @@ export class WorkerAnalysisService {
 
       let stdout = '';
       let stderr = '';
+      let pendingLine = '';
       let settled = false;
 
       child.stdout.on('data', (chunk) => {
         stdout += chunk.toString();
       });
       child.stderr.on('data', (chunk) => {
-        stderr += chunk.toString();
+        const lines = (pendingLine + chunk.toString()).split('\n');
+        pendingLine = lines.pop() || '';
+        for (const line of lines) {
+          if (line.startsWith(PROGRESS_PREFIX)) {
+            onProgressLine?.(line);
+          } else {
+            stderr += `${line}\n`;
+          }
+        }
       });
 
       const onAbort = () => {
@@ -171,6 +529,7 @@ export class WorkerAnalysisService {
           return;
         }
         settled = true;
+        stderr += pendingLine;
         if (signal) {
           signal.removeEventListener('abort', onAbort);
         }
@@ -192,17 +551,65 @@ export class WorkerAnalysisService {
     throw error;
   }
 
-  private static getContractMetadata(code: string): { contractName: string; functions: SolidityFunction[] } {
+  /**
+   * Picks the contract to deploy: the requested `contractName`, else the only
+   * deployable contract, else the only deployable contract no other contract in
+   * the file inherits from (the leaf of a flattened file).
+   */
+  public static selectContract(code: string, contractName?: string): string {
     const ast = parse(code, { tolerant: true });
-    let contractName = '';
-    const functions: SolidityFunction[] = [];
+    const deployable: string[] = [];
+    const inherited = new Set<string>();
 
     visit(ast, {
       ContractDefinition: (node) => {
-        if (!contractName) {
-          contractName = node.name;
+        if (node.kind === 'contract') {
+          deployable.push(node.name);
+        }
+        for (const base of node.baseContracts) {
+          inherited.add(base.baseName.namePath);
         }
       },
+    });
+
+    if (deployable.length === 0) {
+      throw new ContractSelectionError('No deployable contract definition found in source code.', []);
+    }
+
+    if (contractName) {
+      if (!deployable.includes(contractName)) {
+        throw new ContractSelectionError(
+          `Contract "${contractName}" is not a deployable contract in the source. Candidates: ${deployable.join(', ')}.`,
+          deployable
+        );
+      }
+      return contractName;
+    }
+
+    if (deployable.length === 1) {
+      return deployable[0];
+    }
+
+    const leaves = deployable.filter((name) => !inherited.has(name));
+    if (leaves.length === 1) {
+      return leaves[0];
+    }
+
+    throw new ContractSelectionError(
+      `Source defines several deployable contracts; set contractName to one of: ${deployable.join(', ')}.`,
+      deployable
+    );
+  }
+
+  private static getContractMetadata(
+    code: string,
+    requestedName?: string
+  ): { contractName: string; functions: SolidityFunction[] } {
+    const contractName = this.selectContract(code, requestedName);
+    const ast = parse(code, { tolerant: true });
+    const functions: SolidityFunction[] = [];
+
+    visit(ast, {
       FunctionDefinition: (node) => {
         functions.push({
           name: node.name || '<constructor>',
@@ -212,10 +619,6 @@ export class WorkerAnalysisService {
       },
     });
 
-    if (!contractName) {
-      throw new Error('No contract definition found in source code.');
-    }
-
     return { contractName, functions };
   }
 }